@@ -25,7 +25,23 @@ import { IERC20 } from "./interfaces/IERC20.sol";
  * 2. CRE workflow encodes alert data and sends report to this contract
  * 3. Contract decodes report and stores rule in mapping
  * 4. CRE cron job monitors prices and checks rules against current prices
- * 5. When conditions are met, notifications are sent via Pushover API
+ * 5. When conditions are met, notifications are sent through the rule's channel
+ *    (webhook, Slack, Discord, Telegram or Pushover)
+ * 6. CRE cron job writes a rule state report back (triggered / re-armed) so
+ *    rules are not re-notified on every run
+ * 7. The payer can cancel or edit a rule: the server verifies the payer's
+ *    signature and the CRE workflow sends a cancel or update report
+ *
+ * Each rule records the payer of its x402 payment and the settlement transaction,
+ * so rules can be listed per payer (getRulesByPayer, RuleCreated indexed by payer),
+ * and the number of each payer's active rules is counted
+ * (getActiveRuleCountByPayer) for the workflow's per-payer limit.
+ *
+ * Rules are never deleted, so the registry also keeps the set of active rules:
+ * rules join it when created (or edited), and leave it when cancelled, when a
+ * "once" rule fires, or when the CRE cron job reports them expired. The cron job
+ * pages through the active set only (getActiveRulesRange), so the cost of a run
+ * does not grow with the registry's history.
  */
 contract RuleRegistry is ReceiverTemplate {
     // ============================================================================
@@ -36,19 +52,84 @@ contract RuleRegistry is ReceiverTemplate {
      * @notice Price alert rule structure
      * @dev Rules are stored on-chain and can be queried by the CRE workflow
      * @param id Deterministic rule ID (SHA256 hash of alert data) - bytes32 for on-chain compatibility
+     * @param payer Address that paid for the rule (from the x402 payment authorization)
+     * @param paymentTxHash Settlement transaction of the x402 payment (zero if unknown)
      * @param asset Cryptocurrency asset symbol (e.g., "BTC", "ETH", "LINK")
-     * @param condition Price condition: "gt", "lt", "gte", or "lte"
-     * @param targetPriceUsd Target price in USD (stored as uint256, no decimals)
+     * @param quoteAsset Quote asset of a ratio rule (e.g. "BTC" for ETH/BTC; empty for USD prices).
+     *        Targets of ratio rules are the asset's price in units of the quote asset
+     * @param condition Price condition: "gt", "lt", "gte", "lte", "between", "outside", or "change"
+     *        (percent move within windowSeconds)
+     * @param targetPriceUsd Target price in USD (fixed-point with 8 decimals, e.g. 1437000000 = $14.37);
+     *        the lower bound for "between" and "outside"
+     * @param upperPriceUsd Upper bound in USD for "between" and "outside" (8 decimals, 0 otherwise)
+     * @param changePercent Percent move that fires a "change" rule (8 decimals, e.g. 800000000 = 8%; 0 otherwise)
+     * @param windowSeconds Time window of a "change" rule: the price is compared with the price this
+     *        many seconds ago (0 otherwise)
+     * @param direction Move direction of a "change" rule: "up", "down", or "any" (empty otherwise)
      * @param createdAt UNIX timestamp (seconds) when the rule was created
+     * @param expiresAt UNIX timestamp (seconds) after which the rule is no longer checked
+     *        (chosen and paid for by the user; 0 for rules that use the workflow's default TTL)
+     * @param triggerMode Re-notification policy: "once", "crossing", or "cooldown"
+     * @param cooldownSeconds Minimum seconds between notifications (only used by "cooldown")
+     * @param armed Whether the rule may fire on the next matching check
+     * @param lastTriggeredAt UNIX timestamp (seconds) of the last notification (0 if never)
+     * @param cancelled Whether the payer cancelled the rule (cancelled rules are never checked again)
+     * @param channel Notification channel (e.g. "slack", "pushover"; empty for the workflow default)
+     * @param destination Notification destination encrypted by the CRE workflow (empty for the
+     *        channel's default destination). Never stored in plaintext.
      */
     struct Rule {
         bytes32 id;
+        address payer;
+        bytes32 paymentTxHash;
         string asset;
+        string quoteAsset;
         string condition;
         uint256 targetPriceUsd;
+        uint256 upperPriceUsd;
+        uint256 changePercent;
+        uint256 windowSeconds;
+        string direction;
         uint256 createdAt;
+        uint256 expiresAt;
+        string triggerMode;
+        uint256 cooldownSeconds;
+        bool armed;
+        uint256 lastTriggeredAt;
+        bool cancelled;
+        string channel;
+        bytes destination;
     }
 
+    // ============================================================================
+    // Constants
+    // ============================================================================
+
+    /**
+     * @notice Report type for creating a new rule
+     */
+    uint8 public constant REPORT_TYPE_CREATE = 0;
+
+    /**
+     * @notice Report type for updating the trigger state of an existing rule
+     */
+    uint8 public constant REPORT_TYPE_STATE = 1;
+
+    /**
+     * @notice Report type for cancelling an existing rule
+     */
+    uint8 public constant REPORT_TYPE_CANCEL = 2;
+
+    /**
+     * @notice Report type for editing the condition, target and notification settings of an existing rule
+     */
+    uint8 public constant REPORT_TYPE_UPDATE = 3;
+
+    /**
+     * @notice Report type for removing finished rules (e.g. expired) from the active set
+     */
+    uint8 public constant REPORT_TYPE_DEACTIVATE = 4;
+
     // ============================================================================
     // State Variables
     // ============================================================================
@@ -71,8 +152,40 @@ contract RuleRegistry is ReceiverTemplate {
      * @notice Mapping from rule ID to Rule struct
      * @dev Rules are stored with incremental IDs starting from 0
      * @dev To get all rules, iterate from 0 to nextRuleId - 1
+     * @dev Private: a public getter returning every Rule field exceeds the stack limit,
+     *      rules are read through getRule and the range functions instead
      */
-    mapping(uint256 => Rule) public rules;
+    mapping(uint256 => Rule) private rules;
+
+    /**
+     * @notice Mapping from deterministic rule ID to incremental rule ID + 1
+     * @dev Zero means the rule does not exist (IDs are offset by one)
+     */
+    mapping(bytes32 => uint256) private ruleIndexById;
+
+    /**
+     * @notice Mapping from payer address to the incremental IDs of the rules it paid for
+     * @dev Appended to by writeRule, read by getRulesByPayer
+     */
+    mapping(address => uint256[]) private ruleIdsByPayer;
+
+    /**
+     * @notice Incremental IDs of the active rules (not cancelled, expired or spent)
+     * @dev Unordered: removal moves the last entry into the freed slot
+     */
+    uint256[] private activeRuleIds;
+
+    /**
+     * @notice Mapping from incremental rule ID to its position in activeRuleIds + 1
+     * @dev Zero means the rule is not active (positions are offset by one)
+     */
+    mapping(uint256 => uint256) private activeRulePosition;
+
+    /**
+     * @notice Mapping from payer address to the number of its rules in the active set
+     * @dev Kept by activateRule and deactivateRule, read by getActiveRuleCountByPayer
+     */
+    mapping(address => uint256) private activeRuleCountByPayer;
 
     // ============================================================================
     // Events
@@ -80,20 +193,73 @@ contract RuleRegistry is ReceiverTemplate {
 
     /**
      * @notice Emitted when a new rule is created
+     * @dev Carries the fields needed to index a rule; the others (bounds, cooldown, channel)
+     *      are read with getRule, which keeps the event within the stack limit
      * @param ruleId The incremental rule ID assigned to this rule
      * @param id The deterministic rule ID (bytes32 hash)
+     * @param payer Address that paid for the rule
+     * @param paymentTxHash Settlement transaction of the x402 payment
      * @param asset Cryptocurrency asset symbol
+     * @param quoteAsset Quote asset of a ratio rule (empty for USD prices)
      * @param condition Price condition string
-     * @param targetPriceUsd Target price in USD
-     * @param createdAt UNIX timestamp when rule was created
+     * @param targetPriceUsd Target price in USD (8 decimals), lower bound for bands
+     * @param expiresAt UNIX timestamp after which the rule is no longer checked
+     * @param triggerMode Re-notification policy ("once", "crossing", "cooldown")
      */
     event RuleCreated(
         uint256 indexed ruleId,
         bytes32 indexed id,
+        address indexed payer,
+        bytes32 paymentTxHash,
         string asset,
+        string quoteAsset,
+        string condition,
+        uint256 targetPriceUsd,
+        uint256 expiresAt,
+        string triggerMode
+    );
+
+    /**
+     * @notice Emitted when the trigger state of a rule changes
+     * @param ruleId The incremental rule ID
+     * @param id The deterministic rule ID (bytes32 hash)
+     * @param armed Whether the rule may fire on the next matching check
+     * @param lastTriggeredAt UNIX timestamp of the last notification
+     */
+    event RuleStateUpdated(uint256 indexed ruleId, bytes32 indexed id, bool armed, uint256 lastTriggeredAt);
+
+    /**
+     * @notice Emitted when the payer cancels a rule
+     * @param ruleId The incremental rule ID
+     * @param id The deterministic rule ID (bytes32 hash)
+     */
+    event RuleCancelled(uint256 indexed ruleId, bytes32 indexed id);
+
+    /**
+     * @notice Emitted when a rule leaves the active set (cancelled, expired or spent)
+     * @param ruleId The incremental rule ID
+     * @param id The deterministic rule ID (bytes32 hash)
+     */
+    event RuleDeactivated(uint256 indexed ruleId, bytes32 indexed id);
+
+    /**
+     * @notice Emitted when the payer edits a rule
+     * @param ruleId The incremental rule ID
+     * @param id The deterministic rule ID (bytes32 hash)
+     * @param condition New price condition string
+     * @param targetPriceUsd New target price (8 decimals), lower bound for bands
+     * @param upperPriceUsd New upper bound for bands (8 decimals, 0 otherwise)
+     * @param triggerMode New re-notification policy
+     * @param channel New notification channel
+     */
+    event RuleUpdated(
+        uint256 indexed ruleId,
+        bytes32 indexed id,
         string condition,
         uint256 targetPriceUsd,
-        uint256 createdAt
+        uint256 upperPriceUsd,
+        string triggerMode,
+        string channel
     );
 
     /**
@@ -131,43 +297,213 @@ contract RuleRegistry is ReceiverTemplate {
     // Internal Functions
     // ============================================================================
 
+    /**
+     * @notice Adds a rule to the active set
+     * @dev Does nothing if the rule is already active
+     * @param _ruleId The incremental rule ID
+     */
+    function activateRule(uint256 _ruleId) private {
+        if (activeRulePosition[_ruleId] != 0) {
+            return;
+        }
+        activeRuleIds.push(_ruleId);
+        activeRulePosition[_ruleId] = activeRuleIds.length;
+        activeRuleCountByPayer[rules[_ruleId].payer]++;
+    }
+
+    /**
+     * @notice Removes a rule from the active set
+     * @dev Does nothing if the rule is not active. Moves the last active rule into the freed slot.
+     * @param _ruleId The incremental rule ID
+     */
+    function deactivateRule(uint256 _ruleId) private {
+        uint256 position = activeRulePosition[_ruleId];
+        if (position == 0) {
+            return;
+        }
+
+        uint256 lastRuleId = activeRuleIds[activeRuleIds.length - 1];
+        activeRuleIds[position - 1] = lastRuleId;
+        activeRulePosition[lastRuleId] = position;
+        activeRuleIds.pop();
+        delete activeRulePosition[_ruleId];
+        activeRuleCountByPayer[rules[_ruleId].payer]--;
+
+        emit RuleDeactivated(_ruleId, rules[_ruleId].id);
+    }
+
+    /**
+     * @notice Copies a rule from storage to memory
+     * @dev The view functions share this copy, so its code is generated once and the contract
+     *      stays within the 24 KB code size limit when compiled without the optimizer
+     * @param _ruleId The incremental rule ID
+     */
+    function readRule(uint256 _ruleId) private view returns (Rule memory) {
+        return rules[_ruleId];
+    }
+
+    /**
+     * @notice Returns true if a rule only fires once ("once", or no trigger mode)
+     * @param _rule The rule
+     */
+    function isOnceRule(Rule storage _rule) private view returns (bool) {
+        bytes32 mode = keccak256(bytes(_rule.triggerMode));
+        return mode == keccak256(bytes("once")) || mode == keccak256(bytes(""));
+    }
+
     /**
      * @notice Writes a new rule to the registry
      * @dev Internal function called by _processReport when receiving CRE reports
      * @dev Assigns incremental rule ID and emits RuleCreated event
-     * @param _id Deterministic rule ID (bytes32 hash of alert data)
-     * @param _asset Cryptocurrency asset symbol
-     * @param _condition Price condition string ("gt", "lt", "gte", "lte")
-     * @param _targetPriceUsd Target price in USD
-     * @param _createdAt UNIX timestamp when rule was created
+     * @param _rule Rule decoded from the report (armed and lastTriggeredAt are reset:
+     *        new rules start armed and untriggered)
      * @return ruleId The incremental rule ID assigned to this rule
+     *
+     * @custom:reverts If a rule with the same deterministic ID already exists, it has no payer,
+     *                 or it expires before it was created
      */
-    function writeRule(
-        bytes32 _id,
-        string memory _asset,
-        string memory _condition,
-        uint256 _targetPriceUsd,
-        uint256 _createdAt
-    ) private returns (uint256) {
+    function writeRule(Rule memory _rule) private returns (uint256) {
+        require(ruleIndexById[_rule.id] == 0, "RuleRegistry: rule already exists");
+        require(_rule.payer != address(0), "RuleRegistry: missing payer");
+        require(_rule.expiresAt == 0 || _rule.expiresAt > _rule.createdAt, "RuleRegistry: invalid expiry");
+
         // Assign next available rule ID
         uint256 ruleId = nextRuleId;
         nextRuleId++;
 
-        // Store rule in mapping
-        rules[ruleId] = Rule({
-            id: _id,
-            asset: _asset,
-            condition: _condition,
-            targetPriceUsd: _targetPriceUsd,
-            createdAt: _createdAt
-        });
+        // Store rule in mapping (new rules start armed)
+        _rule.armed = true;
+        _rule.lastTriggeredAt = 0;
+        _rule.cancelled = false;
+        rules[ruleId] = _rule;
+        ruleIndexById[_rule.id] = ruleId + 1;
+        ruleIdsByPayer[_rule.payer].push(ruleId);
+        activateRule(ruleId);
 
         // Emit event for off-chain indexing and monitoring
-        emit RuleCreated(ruleId, _id, _asset, _condition, _targetPriceUsd, _createdAt);
+        emit RuleCreated(
+            ruleId,
+            _rule.id,
+            _rule.payer,
+            _rule.paymentTxHash,
+            _rule.asset,
+            _rule.quoteAsset,
+            _rule.condition,
+            _rule.targetPriceUsd,
+            _rule.expiresAt,
+            _rule.triggerMode
+        );
 
         return ruleId;
     }
 
+    /**
+     * @notice Updates the trigger state of an existing rule
+     * @dev Internal function called by _processReport for REPORT_TYPE_STATE reports
+     * @dev A disarmed "once" rule has fired and never fires again, so it leaves the active set
+     * @param _id Deterministic rule ID (bytes32 hash of alert data)
+     * @param _armed Whether the rule may fire on the next matching check
+     * @param _lastTriggeredAt UNIX timestamp of the last notification
+     *
+     * @custom:reverts If no rule with the given deterministic ID exists
+     */
+    function writeRuleState(bytes32 _id, bool _armed, uint256 _lastTriggeredAt) private {
+        uint256 index = ruleIndexById[_id];
+        require(index != 0, "RuleRegistry: rule does not exist");
+
+        uint256 ruleId = index - 1;
+        rules[ruleId].armed = _armed;
+        rules[ruleId].lastTriggeredAt = _lastTriggeredAt;
+        if (!_armed && isOnceRule(rules[ruleId])) {
+            deactivateRule(ruleId);
+        }
+
+        emit RuleStateUpdated(ruleId, _id, _armed, _lastTriggeredAt);
+    }
+
+    /**
+     * @notice Cancels an existing rule
+     * @dev Internal function called by _processReport for REPORT_TYPE_CANCEL reports
+     * @dev The rule stays in the mapping (rule IDs are incremental) but leaves the active set
+     * @param _id Deterministic rule ID (bytes32 hash of alert data)
+     *
+     * @custom:reverts If no rule with the given deterministic ID exists, or it is already cancelled
+     */
+    function cancelRule(bytes32 _id) private {
+        uint256 index = ruleIndexById[_id];
+        require(index != 0, "RuleRegistry: rule does not exist");
+
+        uint256 ruleId = index - 1;
+        require(!rules[ruleId].cancelled, "RuleRegistry: rule is cancelled");
+        rules[ruleId].cancelled = true;
+        rules[ruleId].armed = false;
+        deactivateRule(ruleId);
+
+        emit RuleCancelled(ruleId, _id);
+    }
+
+    /**
+     * @notice Removes finished rules from the active set
+     * @dev Internal function called by _processReport for REPORT_TYPE_DEACTIVATE reports
+     * @dev Sent by the CRE cron job for expired rules (the contract cannot tell expiry itself:
+     *      rules without an expiresAt use the workflow's default TTL). Rules that are not
+     *      active are ignored, so a report can be retried.
+     * @param _ids Deterministic rule IDs (bytes32 hashes of alert data)
+     *
+     * @custom:reverts If no rule exists for one of the IDs
+     */
+    function deactivateRules(bytes32[] memory _ids) private {
+        for (uint256 i = 0; i < _ids.length; i++) {
+            uint256 index = ruleIndexById[_ids[i]];
+            require(index != 0, "RuleRegistry: rule does not exist");
+
+            deactivateRule(index - 1);
+        }
+    }
+
+    /**
+     * @notice Edits an existing rule
+     * @dev Internal function called by _processReport for REPORT_TYPE_UPDATE reports
+     * @dev Only the condition, targets and notification settings change: id, payer, paymentTxHash,
+     *      asset, quoteAsset, createdAt and expiresAt (paid for at creation) are kept. The edited rule starts armed and untriggered again,
+     *      and rejoins the active set if it had been spent.
+     * @param _rule Rule decoded from the report (looked up by its deterministic ID)
+     *
+     * @custom:reverts If no rule with the given deterministic ID exists, or it is cancelled
+     */
+    function updateRule(Rule memory _rule) private {
+        uint256 index = ruleIndexById[_rule.id];
+        require(index != 0, "RuleRegistry: rule does not exist");
+
+        uint256 ruleId = index - 1;
+        Rule storage rule = rules[ruleId];
+        require(!rule.cancelled, "RuleRegistry: rule is cancelled");
+
+        rule.condition = _rule.condition;
+        rule.targetPriceUsd = _rule.targetPriceUsd;
+        rule.upperPriceUsd = _rule.upperPriceUsd;
+        rule.changePercent = _rule.changePercent;
+        rule.windowSeconds = _rule.windowSeconds;
+        rule.direction = _rule.direction;
+        rule.triggerMode = _rule.triggerMode;
+        rule.cooldownSeconds = _rule.cooldownSeconds;
+        rule.channel = _rule.channel;
+        rule.destination = _rule.destination;
+        rule.armed = true;
+        rule.lastTriggeredAt = 0;
+        activateRule(ruleId);
+
+        emit RuleUpdated(
+            ruleId,
+            _rule.id,
+            _rule.condition,
+            _rule.targetPriceUsd,
+            _rule.upperPriceUsd,
+            _rule.triggerMode,
+            _rule.channel
+        );
+    }
+
     // ============================================================================
     // CRE Workflow Integration (IReceiverTemplate Implementation)
     // ============================================================================
@@ -175,28 +511,54 @@ contract RuleRegistry is ReceiverTemplate {
     /**
      * @notice Processes a report received from a Chainlink CRE workflow
      * @dev Internal function called by onReport after metadata validation
-     * @dev Decodes the report bytes into rule parameters and writes to registry
-     * @param report The encoded report data containing rule parameters
+     * @dev Decodes the report type and dispatches to the matching write function
+     * @param report The encoded report data: (uint8 reportType, bytes data)
      * 
-     * @custom:note Report format (ABI-encoded):
+     * @custom:note REPORT_TYPE_CREATE data format: the ABI-encoded Rule struct
+     *             (a single tuple, see Rule). armed, lastTriggeredAt and cancelled are
+     *             ignored, the destination is encrypted. Decoding into the struct keeps the
+     *             report extensible without exceeding the stack limit.
+     * 
+     * @custom:note REPORT_TYPE_STATE data format (ABI-encoded):
      *             - bytes32 id
-     *             - string asset
-     *             - string condition
-     *             - uint256 targetPriceUsd
-     *             - uint256 createdAt
+     *             - bool armed
+     *             - uint256 lastTriggeredAt
      * 
-     * @custom:note This function is called by the CRE workflow when it needs to
-     *             write a new price alert rule on-chain. The CRE workflow receives
-     *             alert data from the server and encodes it into this report format.
+     * @custom:note REPORT_TYPE_CANCEL data format (ABI-encoded):
+     *             - bytes32 id
+     * 
+     * @custom:note REPORT_TYPE_UPDATE data format: the ABI-encoded Rule struct, like
+     *             REPORT_TYPE_CREATE (see updateRule for the fields that change)
+     * 
+     * @custom:note REPORT_TYPE_DEACTIVATE data format (ABI-encoded):
+     *             - bytes32[] ids
+     * 
+     * @custom:note Create reports are sent by the HTTP trigger when the server
+     *             forwards a paid alert, cancel and update reports when the payer
+     *             cancels or edits it. State reports are sent by the cron trigger
+     *             when a rule fires or is re-armed, deactivate reports when it
+     *             finds expired rules in the active set.
+     *
+     * @custom:reverts If the report type is unknown
      */
     function _processReport(bytes calldata report) internal override {
-        // Decode report data into rule parameters
-        // The report is ABI-encoded with: (bytes32, string, string, uint256, uint256)
-        (bytes32 id, string memory asset, string memory condition, uint256 targetPriceUsd, uint256 createdAt) =
-            abi.decode(report, (bytes32, string, string, uint256, uint256));
+        (uint8 reportType, bytes memory data) = abi.decode(report, (uint8, bytes));
+
+        if (reportType == REPORT_TYPE_CREATE) {
+            writeRule(abi.decode(data, (Rule)));
+        } else if (reportType == REPORT_TYPE_STATE) {
+            (bytes32 id, bool armed, uint256 lastTriggeredAt) = abi.decode(data, (bytes32, bool, uint256));
 
-        // Write rule to registry
-        writeRule(id, asset, condition, targetPriceUsd, createdAt);
+            writeRuleState(id, armed, lastTriggeredAt);
+        } else if (reportType == REPORT_TYPE_CANCEL) {
+            cancelRule(abi.decode(data, (bytes32)));
+        } else if (reportType == REPORT_TYPE_UPDATE) {
+            updateRule(abi.decode(data, (Rule)));
+        } else if (reportType == REPORT_TYPE_DEACTIVATE) {
+            deactivateRules(abi.decode(data, (bytes32[])));
+        } else {
+            revert("RuleRegistry: unknown report type");
+        }
     }
 
     // ============================================================================
@@ -213,7 +575,22 @@ contract RuleRegistry is ReceiverTemplate {
      */
     function getRule(uint256 _ruleId) public view returns (Rule memory) {
         require(_ruleId < nextRuleId, "Rule does not exist");
-        return rules[_ruleId];
+        return readRule(_ruleId);
+    }
+
+    /**
+     * @notice Retrieves a rule by its deterministic ID
+     * @dev Lets the server confirm that a forwarded alert was written, and read its trigger state
+     * @param _id Deterministic rule ID (bytes32 hash of alert data)
+     * @return exists Whether a rule with this ID was written
+     * @return rule The rule (empty if it does not exist)
+     */
+    function getRuleById(bytes32 _id) public view returns (bool exists, Rule memory rule) {
+        uint256 index = ruleIndexById[_id];
+        if (index != 0) {
+            exists = true;
+            rule = readRule(index - 1);
+        }
     }
 
     /**
@@ -223,7 +600,7 @@ contract RuleRegistry is ReceiverTemplate {
      * @return Array of all Rule structs
      * 
      * @custom:gas This function can be gas-intensive for large numbers of rules.
-     *             Consider using getRuleCount() and getRule() for pagination.
+     *             Consider using getRuleCount() and getRulesRange() for pagination.
      */
     function getAllRules() public view returns (Rule[] memory) {
         // Allocate array with size equal to number of rules
@@ -231,12 +608,87 @@ contract RuleRegistry is ReceiverTemplate {
         
         // Populate array by iterating over all rule IDs
         for (uint256 i = 0; i < nextRuleId; i++) {
-            allRules[i] = rules[i];
+            allRules[i] = readRule(i);
         }
         
         return allRules;
     }
 
+    /**
+     * @notice Retrieves a page of rules by rule ID
+     * @dev Returns rules _offset to _offset + _limit - 1, clipped to the rule count
+     * @param _offset First incremental rule ID of the page
+     * @param _limit Maximum number of rules returned
+     * @return Array of Rule structs, in rule ID order (empty past the last rule)
+     */
+    function getRulesRange(uint256 _offset, uint256 _limit) public view returns (Rule[] memory) {
+        uint256 available = _offset < nextRuleId ? nextRuleId - _offset : 0;
+        uint256 count = _limit < available ? _limit : available;
+        Rule[] memory page = new Rule[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = readRule(_offset + i);
+        }
+
+        return page;
+    }
+
+    /**
+     * @notice Retrieves a page of the active rules (not cancelled, expired or spent)
+     * @dev The active set is unordered and rules leave it by swapping in the last entry,
+     *      so all pages should be read before any report changes the set
+     * @param _offset Position in the active set of the first rule of the page
+     * @param _limit Maximum number of rules returned
+     * @return Array of Rule structs (empty past the last active rule)
+     */
+    function getActiveRulesRange(uint256 _offset, uint256 _limit) public view returns (Rule[] memory) {
+        uint256 length = activeRuleIds.length;
+        uint256 available = _offset < length ? length - _offset : 0;
+        uint256 count = _limit < available ? _limit : available;
+        Rule[] memory page = new Rule[](count);
+
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = readRule(activeRuleIds[_offset + i]);
+        }
+
+        return page;
+    }
+
+    /**
+     * @notice Returns the number of active rules
+     * @return The number of rules in the active set
+     */
+    function getActiveRuleCount() public view returns (uint256) {
+        return activeRuleIds.length;
+    }
+
+    /**
+     * @notice Returns the number of active rules paid for by an address
+     * @dev Lets the CRE workflow enforce per-payer limits without reading the payer's rules
+     * @param _payer Payer address
+     * @return The number of the payer's rules in the active set
+     */
+    function getActiveRuleCountByPayer(address _payer) public view returns (uint256) {
+        return activeRuleCountByPayer[_payer];
+    }
+
+    /**
+     * @notice Retrieves the rules paid for by an address
+     * @dev Lists a payer's rules without reading every rule
+     * @param _payer Payer address
+     * @return Array of the payer's Rule structs, oldest first (including cancelled and expired rules)
+     */
+    function getRulesByPayer(address _payer) public view returns (Rule[] memory) {
+        uint256[] storage ruleIds = ruleIdsByPayer[_payer];
+        Rule[] memory payerRules = new Rule[](ruleIds.length);
+
+        for (uint256 i = 0; i < ruleIds.length; i++) {
+            payerRules[i] = readRule(ruleIds[i]);
+        }
+
+        return payerRules;
+    }
+
     /**
      * @notice Returns the total number of rules stored in the registry
      * @dev Useful for pagination and determining array sizes
@@ -0,0 +1,66 @@
+/**
+ * Chain Selection Helpers
+ *
+ * The workflow can serve several chains from a single deployment. Each entry of
+ * `config.evms` describes one chain: its RuleRegistry, gas limit and asset
+ * catalog. Alerts name their target chain by chain selector name; alerts
+ * without one target the first configured chain.
+ */
+
+import { getNetwork } from "@chainlink/cre-sdk";
+import { cre } from "@chainlink/cre-sdk";
+import type { Config, EvmConfig } from "./types";
+
+/**
+ * Finds the `evms` entry for a chain
+ *
+ * @param config - Workflow configuration
+ * @param chainSelectorName - Target chain (defaults to the first configured chain)
+ * @returns EVM configuration of the chain
+ * @throws Error if the chain is not configured
+ */
+export function findEvmConfig(
+  config: Config,
+  chainSelectorName?: string
+): EvmConfig {
+  if (config.evms.length === 0) {
+    throw new Error("No chains configured in evms");
+  }
+  if (!chainSelectorName) {
+    return config.evms[0];
+  }
+
+  const evm = config.evms.find(
+    (entry) => entry.chainSelectorName === chainSelectorName
+  );
+  if (!evm) {
+    throw new Error(
+      `Unsupported chain: ${chainSelectorName}. Must be one of: ${config.evms
+        .map((entry) => entry.chainSelectorName)
+        .join(", ")}`
+    );
+  }
+  return evm;
+}
+
+/**
+ * Creates an EVM client for a configured chain
+ *
+ * @param evm - EVM configuration of the chain
+ * @returns EVM client bound to the chain selector
+ * @throws Error if the chain selector name is unknown to the SDK
+ */
+export function createEvmClient(
+  evm: EvmConfig
+): InstanceType<typeof cre.capabilities.EVMClient> {
+  const network = getNetwork({
+    chainFamily: "evm",
+    chainSelectorName: evm.chainSelectorName,
+  });
+
+  if (!network) {
+    throw new Error(`Network not found: ${evm.chainSelectorName}`);
+  }
+
+  return new cre.capabilities.EVMClient(network.chainSelector.selector);
+}
@@ -0,0 +1,378 @@
+/**
+ * Workflow Clients
+ *
+ * The capability calls of the workflow, behind small interfaces:
+ *
+ * - RuleRegistryClient: reads and report writes of a chain's RuleRegistry
+ * - PriceFeedClient: rounds of a chain's Chainlink price feeds
+ * - NotificationClient: delivery of notifications to channel endpoints
+ *
+ * createCreClients backs them with the CRE EVM and HTTP capabilities. The
+ * trigger handlers only use these interfaces and the config, log and clock of
+ * the runtime (WorkflowRuntime), so they also run against the in-memory fakes
+ * of fakes.ts, without the CRE CLI or an RPC.
+ */
+
+import {
+  type Runtime,
+  encodeCallMsg,
+  bytesToHex,
+  consensusIdenticalAggregation,
+} from "@chainlink/cre-sdk";
+import {
+  type Address,
+  type Hex,
+  encodeFunctionData,
+  decodeFunctionResult,
+  zeroAddress,
+} from "viem";
+import { cre } from "@chainlink/cre-sdk";
+import type { Config, EvmConfig, PriceData, PostResponse, Rule } from "./types";
+import { RULE_COMPONENTS, writeRegistryReport } from "./reports";
+import { createEvmClient } from "./chains";
+import {
+  type AlertNotification,
+  type ChannelSecrets,
+  type NotificationChannel,
+  sendNotification,
+} from "./notifications";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Parts of the CRE runtime the trigger handlers use besides the clients
+ */
+export type WorkflowRuntime = Pick<Runtime<Config>, "config" | "log" | "now">;
+
+/**
+ * RuleRegistry contract of a chain
+ */
+export type RuleRegistryClient = {
+  /** Returns the number of active rules */
+  getActiveRuleCount(): bigint;
+  /** Returns a page of the active rules (see RuleRegistry.getActiveRulesRange) */
+  getActiveRulesRange(offset: bigint, limit: bigint): readonly Rule[];
+  /** Returns the number of active rules paid for by an address */
+  getActiveRuleCountByPayer(payer: Address): bigint;
+  /**
+   * Writes a report to the registry
+   *
+   * @param report - Encoded report (see reports.ts)
+   * @returns Transaction hash
+   * @throws Error if the transaction does not succeed
+   */
+  writeReport(report: Hex): string;
+};
+
+/**
+ * Chainlink price feeds of a chain
+ */
+export type PriceFeedClient = {
+  /**
+   * Reads a round of a price feed
+   *
+   * @param feedAddress - Price feed contract address
+   * @param roundId - Round to read (default: the latest round)
+   * @returns Round data
+   */
+  getRoundData(feedAddress: Address, roundId?: bigint): PriceData;
+};
+
+/**
+ * Notification channel endpoints
+ */
+export type NotificationClient = {
+  /**
+   * Sends a notification through a channel
+   *
+   * @param channel - Notification channel
+   * @param notification - Alert notification content
+   * @param destination - Rule destination or the channel's default destination
+   * @param secrets - Channel credentials
+   * @returns Response status
+   * @throws Error if the endpoint rejects the notification
+   */
+  send(
+    channel: NotificationChannel,
+    notification: AlertNotification,
+    destination: string,
+    secrets: ChannelSecrets
+  ): PostResponse;
+};
+
+/**
+ * Clients of one chain
+ */
+export type ChainClients = {
+  registry: RuleRegistryClient;
+  priceFeeds: PriceFeedClient;
+};
+
+/**
+ * Clients of a workflow run
+ */
+export type WorkflowClients = {
+  /**
+   * Returns the clients of a configured chain
+   *
+   * @throws Error if the chain is unknown
+   */
+  chain(evm: EvmConfig): ChainClients;
+  /** Notification channel endpoints */
+  notifications: NotificationClient;
+  /** Returns the value of a CRE secret */
+  getSecret(id: string): string;
+};
+
+// ============================================================================
+// Contract ABIs
+// ============================================================================
+
+/**
+ * Chainlink price feed ABI for the latestRoundData and getRoundData functions
+ */
+const priceFeedAbi = [
+  {
+    name: "latestRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+  {
+    name: "getRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_roundId", type: "uint80" }],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * RuleRegistry contract ABI (read functions)
+ */
+const registryAbi = [
+  {
+    name: "getActiveRuleCount",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    name: "getActiveRulesRange",
+    type: "function",
+    stateMutability: "view",
+    inputs: [
+      { name: "_offset", type: "uint256" },
+      { name: "_limit", type: "uint256" },
+    ],
+    outputs: [
+      {
+        name: "",
+        type: "tuple[]",
+        components: RULE_COMPONENTS,
+      },
+    ],
+  },
+  {
+    name: "getActiveRuleCountByPayer",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_payer", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+] as const;
+
+// ============================================================================
+// CRE Clients
+// ============================================================================
+
+/**
+ * Calls a view function of a contract
+ *
+ * @param runtime - CRE runtime context
+ * @param evmClient - EVM client of the contract's chain
+ * @param to - Contract address
+ * @param data - Encoded call data
+ * @returns Encoded return data
+ */
+function callContract(
+  runtime: Runtime<Config>,
+  evmClient: InstanceType<typeof cre.capabilities.EVMClient>,
+  to: Address,
+  data: Hex
+): Hex {
+  const contractCall = evmClient
+    .callContract(runtime, {
+      call: encodeCallMsg({
+        from: zeroAddress,
+        to,
+        data,
+      }),
+    })
+    .result();
+
+  return bytesToHex(contractCall.data);
+}
+
+/**
+ * Creates a RuleRegistry client backed by the CRE EVM capability
+ *
+ * @param runtime - CRE runtime context
+ * @param evmClient - EVM client of the registry's chain
+ * @param evm - EVM configuration holding the registry address and gas limit
+ * @returns RuleRegistryClient instance
+ */
+function createCreRuleRegistryClient(
+  runtime: Runtime<Config>,
+  evmClient: InstanceType<typeof cre.capabilities.EVMClient>,
+  evm: EvmConfig
+): RuleRegistryClient {
+  const registryAddress = evm.ruleRegistryAddress as Address;
+
+  return {
+    getActiveRuleCount() {
+      const data = callContract(
+        runtime,
+        evmClient,
+        registryAddress,
+        encodeFunctionData({ abi: registryAbi, functionName: "getActiveRuleCount", args: [] })
+      );
+      return decodeFunctionResult({ abi: registryAbi, functionName: "getActiveRuleCount", data });
+    },
+
+    getActiveRulesRange(offset, limit) {
+      const data = callContract(
+        runtime,
+        evmClient,
+        registryAddress,
+        encodeFunctionData({ abi: registryAbi, functionName: "getActiveRulesRange", args: [offset, limit] })
+      );
+      return decodeFunctionResult({ abi: registryAbi, functionName: "getActiveRulesRange", data }) as readonly Rule[];
+    },
+
+    getActiveRuleCountByPayer(payer) {
+      const data = callContract(
+        runtime,
+        evmClient,
+        registryAddress,
+        encodeFunctionData({ abi: registryAbi, functionName: "getActiveRuleCountByPayer", args: [payer] })
+      );
+      return decodeFunctionResult({ abi: registryAbi, functionName: "getActiveRuleCountByPayer", data });
+    },
+
+    writeReport(report) {
+      return writeRegistryReport(runtime, evmClient, evm, report);
+    },
+  };
+}
+
+/**
+ * Creates a price feed client backed by the CRE EVM capability
+ *
+ * @param runtime - CRE runtime context
+ * @param evmClient - EVM client of the feeds' chain
+ * @returns PriceFeedClient instance
+ */
+function createCrePriceFeedClient(
+  runtime: Runtime<Config>,
+  evmClient: InstanceType<typeof cre.capabilities.EVMClient>
+): PriceFeedClient {
+  return {
+    getRoundData(feedAddress, roundId) {
+      const data = callContract(
+        runtime,
+        evmClient,
+        feedAddress,
+        roundId === undefined
+          ? encodeFunctionData({ abi: priceFeedAbi, functionName: "latestRoundData", args: [] })
+          : encodeFunctionData({ abi: priceFeedAbi, functionName: "getRoundData", args: [roundId] })
+      );
+
+      const priceDataTuple = decodeFunctionResult({
+        abi: priceFeedAbi,
+        functionName: roundId === undefined ? "latestRoundData" : "getRoundData",
+        data,
+      }) as readonly [bigint, bigint, bigint, bigint, bigint];
+
+      return {
+        roundId: priceDataTuple[0],
+        answer: priceDataTuple[1],
+        startedAt: priceDataTuple[2],
+        updatedAt: priceDataTuple[3],
+        answeredInRound: priceDataTuple[4],
+      };
+    },
+  };
+}
+
+/**
+ * Creates a notification client backed by the CRE HTTP capability
+ *
+ * Every node sends the request; the nodes must agree on the response status.
+ *
+ * @param runtime - CRE runtime context
+ * @returns NotificationClient instance
+ */
+function createCreNotificationClient(runtime: Runtime<Config>): NotificationClient {
+  const httpClient = new cre.capabilities.HTTPClient();
+
+  return {
+    send(channel, notification, destination, secrets) {
+      return httpClient
+        .sendRequest(
+          runtime,
+          sendNotification(channel, notification, destination, secrets),
+          consensusIdenticalAggregation<PostResponse>()
+        )(runtime.config)
+        .result();
+    },
+  };
+}
+
+/**
+ * Creates the clients of a workflow run, backed by the CRE capabilities
+ *
+ * @param runtime - CRE runtime context
+ * @returns WorkflowClients instance
+ */
+export function createCreClients(runtime: Runtime<Config>): WorkflowClients {
+  // One EVM client per chain and run
+  const chains = new Map<string, ChainClients>();
+
+  return {
+    chain(evm) {
+      let clients = chains.get(evm.chainSelectorName);
+      if (!clients) {
+        const evmClient = createEvmClient(evm);
+        clients = {
+          registry: createCreRuleRegistryClient(runtime, evmClient, evm),
+          priceFeeds: createCrePriceFeedClient(runtime, evmClient),
+        };
+        chains.set(evm.chainSelectorName, clients);
+      }
+      return clients;
+    },
+
+    notifications: createCreNotificationClient(runtime),
+
+    getSecret(id) {
+      return runtime.getSecret({ id }).result().value;
+    },
+  };
+}
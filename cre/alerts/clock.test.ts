@@ -0,0 +1,44 @@
+/**
+ * Workflow Clock Tests
+ *
+ * Precedence of the time sources, and simulationTimestamp being honoured
+ * only in simulation.
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { CronPayload } from "@chainlink/cre-sdk";
+import { getWorkflowTime } from "./clock";
+import { createFakeRuntime } from "./fakes";
+import type { Config } from "./types";
+
+const CONFIG = { ruleTTL: 1800, evms: [], notificationChannels: ["webhook"] } as unknown as Config;
+const SCHEDULED = { seconds: 1765000800n, nanos: 0 } as CronPayload["scheduledExecutionTime"];
+
+describe("getWorkflowTime", () => {
+  test("uses the scheduled time, then the DON time", () => {
+    const runtime = createFakeRuntime(CONFIG, new Date(1765000000 * 1000));
+
+    expect(getWorkflowTime(runtime, SCHEDULED)).toEqual({ timestamp: 1765000800n, source: "trigger" });
+    expect(getWorkflowTime(runtime)).toEqual({ timestamp: 1765000000n, source: "runtime" });
+  });
+
+  test("replays simulationTimestamp in simulation and logs it", () => {
+    const runtime = createFakeRuntime({ ...CONFIG, simulation: true, simulationTimestamp: 1700000000 });
+
+    expect(getWorkflowTime(runtime, SCHEDULED)).toEqual({ timestamp: 1700000000n, source: "config" });
+    expect(runtime.logs[0]).toContain("using simulationTimestamp 1700000000");
+  });
+
+  test("ignores simulationTimestamp outside simulation and logs it", () => {
+    const runtime = createFakeRuntime({ ...CONFIG, simulationTimestamp: 1700000000 });
+
+    expect(getWorkflowTime(runtime, SCHEDULED)).toEqual({ timestamp: 1765000800n, source: "trigger" });
+    expect(runtime.logs[0]).toContain("simulationTimestamp ignored");
+  });
+
+  test("rejects invalid simulation timestamps", () => {
+    const runtime = createFakeRuntime({ ...CONFIG, simulation: true, simulationTimestamp: -1 });
+
+    expect(() => getWorkflowTime(runtime, SCHEDULED)).toThrow("simulationTimestamp must be a UNIX timestamp");
+  });
+});
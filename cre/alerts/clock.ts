@@ -0,0 +1,89 @@
+/**
+ * Workflow Clock
+ *
+ * Rule expiry (TTL), price staleness and trigger cooldowns are all evaluated
+ * against a single "now" per run, read here. The wall clock of each node
+ * (Date.now()) is never used: nodes would disagree on it, and runs could not
+ * be replayed. Instead "now" is, in order of precedence:
+ *
+ * 1. `simulationTimestamp` from the workflow config, to replay a run at a given time;
+ *    only honoured when the config also sets `simulation: true`
+ * 2. The time the trigger was scheduled for (the cron trigger's scheduledExecutionTime),
+ *    identical on every node
+ * 3. The runtime's DON time (runtime.now())
+ *
+ * A simulationTimestamp left in a deployed config would freeze time (rules
+ * would never expire, feeds would never go stale), so without the simulation
+ * flag it is ignored, and either way the run logs what it did with it.
+ */
+
+import type { CronPayload } from "@chainlink/cre-sdk";
+import type { WorkflowRuntime } from "./clients";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Source of the current time of a run
+ */
+export type ClockSource = "config" | "trigger" | "runtime";
+
+/**
+ * Current time of a run
+ */
+export type WorkflowTime = {
+  /** Current UNIX timestamp (seconds) */
+  timestamp: bigint;
+  /** Where the timestamp was read from */
+  source: ClockSource;
+};
+
+// ============================================================================
+// Clock
+// ============================================================================
+
+/**
+ * Returns the current time of a run
+ *
+ * @param runtime - CRE runtime context
+ * @param scheduledTime - Time the trigger was scheduled for, if the trigger has one
+ * @returns Current UNIX timestamp (seconds) and its source
+ * @throws Error if simulationTimestamp is honoured and is not a non-negative integer
+ */
+export function getWorkflowTime(
+  runtime: WorkflowRuntime,
+  scheduledTime?: CronPayload["scheduledExecutionTime"]
+): WorkflowTime {
+  const { simulation, simulationTimestamp } = runtime.config;
+  if (simulationTimestamp !== undefined) {
+    if (simulation !== true) {
+      runtime.log("[Clock] [WARNING] simulationTimestamp ignored: it is only honoured with simulation: true");
+    } else {
+      if (!Number.isSafeInteger(simulationTimestamp) || simulationTimestamp < 0) {
+        throw new Error("simulationTimestamp must be a UNIX timestamp in seconds");
+      }
+      runtime.log(`[Clock] Simulation: using simulationTimestamp ${simulationTimestamp} as the current time`);
+      return { timestamp: BigInt(simulationTimestamp), source: "config" };
+    }
+  }
+
+  if (scheduledTime) {
+    return { timestamp: scheduledTime.seconds, source: "trigger" };
+  }
+
+  return {
+    timestamp: BigInt(Math.floor(runtime.now().getTime() / 1000)),
+    source: "runtime",
+  };
+}
+
+/**
+ * Formats a UNIX timestamp (seconds) as an ISO 8601 date
+ *
+ * @param timestamp - UNIX timestamp (seconds)
+ * @returns ISO 8601 date (e.g. "2025-12-10T17:00:00.000Z")
+ */
+export function formatTimestamp(timestamp: bigint): string {
+  return new Date(Number(timestamp) * 1000).toISOString();
+}
@@ -0,0 +1,342 @@
+/**
+ * Cron Trigger Tests
+ *
+ * The cron trigger handler runs against the in-memory fakes of fakes.ts:
+ * price feeds with scripted rounds, a registry that applies reports like the
+ * contract, and a notification endpoint that records what would be sent.
+ */
+
+import { describe, expect, test } from "bun:test";
+import type { CronPayload } from "@chainlink/cre-sdk";
+import { type Hex, decodeAbiParameters, parseAbiParameters, toHex, zeroHash } from "viem";
+import { createCronTriggerHandler, getStartPage } from "./cronCallback";
+import {
+  type FakeNotificationEndpoint,
+  type FakePriceFeeds,
+  type FakeRuleRegistry,
+  createFakeClients,
+  createFakeNotificationEndpoint,
+  createFakePriceFeeds,
+  createFakeRuleRegistry,
+  createFakeRuntime,
+} from "./fakes";
+import { REPORT_TYPE_DEACTIVATE, REPORT_TYPE_STATE } from "./reports";
+import type { Config, Rule } from "./types";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const CHAIN = "ethereum-testnet-sepolia-base-1";
+const BTC_FEED = "0x0FB99723Aee6f420beAD13e6bBB79b7E6F034298";
+const NOW = 1765000800n;
+const BTC_PRICE = 6000000000000n;
+const SECRETS = { WEBHOOK_URL: "https://example.com/alerts" };
+
+const CONFIG: Config = {
+  schedule: "0 0 * * * *",
+  publicKey: "",
+  webhookUrl: "",
+  ruleTTL: 1800,
+  notificationChannels: ["webhook"],
+  evms: [
+    {
+      ruleRegistryAddress: "0x9B9fC1EeF6BFC76CD07501Ae81b66f24fAB322B1",
+      chainSelectorName: CHAIN,
+      gasLimit: "1000000",
+      assets: [
+        { symbol: "BTC", feedAddress: BTC_FEED, decimals: 8, displayDecimals: 2, maxStalenessSeconds: 3600 },
+      ],
+    },
+  ],
+};
+
+/**
+ * Builds a BTC rule (armed "once" gt rule, valid for a day)
+ */
+function createRule(index: number, fields: Partial<Rule> = {}): Rule {
+  return {
+    id: toHex(index + 1, { size: 32 }),
+    payer: "0x000000000000000000000000000000000000dEaD",
+    paymentTxHash: zeroHash,
+    asset: "BTC",
+    quoteAsset: "",
+    condition: "gt",
+    targetPriceUsd: 7000000000000n,
+    upperPriceUsd: 0n,
+    changePercent: 0n,
+    windowSeconds: 0n,
+    direction: "",
+    createdAt: NOW - 600n,
+    expiresAt: NOW + 86400n,
+    triggerMode: "once",
+    cooldownSeconds: 0n,
+    armed: true,
+    lastTriggeredAt: 0n,
+    cancelled: false,
+    channel: "",
+    destination: "0x",
+    ...fields,
+  };
+}
+
+/**
+ * Returns the cron payload of a run scheduled at a UNIX timestamp
+ */
+function scheduledAt(seconds: bigint): Pick<CronPayload, "scheduledExecutionTime"> {
+  return { scheduledExecutionTime: { seconds, nanos: 0 } as CronPayload["scheduledExecutionTime"] };
+}
+
+/**
+ * Options of a cron run
+ */
+type CronRunOptions = {
+  /** Overrides of the workflow config */
+  config?: Partial<Config>;
+  /** BTC price of the run's only feed round, a minute before the run (default: $60,000) */
+  btcPrice?: bigint;
+  /** Price feeds to read instead (their rounds are used as-is) */
+  priceFeeds?: FakePriceFeeds;
+  /** Notification endpoint (default: a new one) */
+  notifications?: FakeNotificationEndpoint;
+};
+
+/**
+ * Runs the cron trigger once against a registry
+ *
+ * @returns Runtime logs, IDs of the rules the run read from the registry, and the handler's result
+ */
+function runCron(registry: FakeRuleRegistry, at: bigint, options: CronRunOptions = {}) {
+  const priceFeeds = options.priceFeeds ?? createFakePriceFeeds();
+  if (!options.priceFeeds) {
+    priceFeeds.addRound(BTC_FEED, options.btcPrice ?? BTC_PRICE, at - 60n);
+  }
+
+  const read: Hex[] = [];
+  const getActiveRulesRange = registry.getActiveRulesRange;
+  const reader = {
+    ...registry,
+    getActiveRulesRange(offset: bigint, limit: bigint) {
+      const page = getActiveRulesRange(offset, limit);
+      read.push(...page.map((rule) => rule.id));
+      return page;
+    },
+  };
+
+  const clients = createFakeClients({
+    registries: { [CHAIN]: reader },
+    priceFeeds: { [CHAIN]: priceFeeds },
+    notifications: options.notifications,
+    secrets: SECRETS,
+  });
+  const runtime = createFakeRuntime({ ...CONFIG, ...options.config });
+  const result = createCronTriggerHandler(() => clients)(runtime, scheduledAt(at));
+  return { logs: runtime.logs, read, result };
+}
+
+/**
+ * Decodes the rule state reports written to a registry
+ */
+function stateReports(registry: FakeRuleRegistry) {
+  return registry.reports
+    .filter((report) => report.reportType === REPORT_TYPE_STATE)
+    .map((report) => {
+      const [id, armed, lastTriggeredAt] = decodeAbiParameters(
+        parseAbiParameters("bytes32 id, bool armed, uint256 lastTriggeredAt"),
+        report.data
+      );
+      return { id, armed, lastTriggeredAt };
+    });
+}
+
+// ============================================================================
+// Paging
+// ============================================================================
+
+describe("active rule paging", () => {
+  const rules = Array.from({ length: 10 }, (_, index) => createRule(index));
+
+  test("reads every active rule when they fit in maxRulePages", () => {
+    const { read } = runCron(createFakeRuleRegistry(rules), NOW, { config: { rulePageSize: 3, maxRulePages: 4 } });
+
+    expect(read).toEqual(rules.map((rule) => rule.id));
+  });
+
+  test("reads maxRulePages pages from a start page that wraps around", () => {
+    const registry = createFakeRuleRegistry(rules);
+    const { read, logs } = runCron(registry, NOW, { config: { rulePageSize: 3, maxRulePages: 2 } });
+    const startPage = getStartPage(NOW, 4);
+    const expected = [startPage, (startPage + 1) % 4].flatMap((page) =>
+      rules.slice(page * 3, page * 3 + 3).map((rule) => rule.id)
+    );
+
+    expect(read).toEqual(expected);
+    expect(logs.join("\n")).toContain("Only 2 of 4 pages of active rules are read");
+    expect(logs.join("\n")).toContain(`starting at page ${startPage}`);
+  });
+
+  test("covers every active rule over hourly runs", () => {
+    const registry = createFakeRuleRegistry(rules);
+    const seen = new Set<Hex>();
+    for (let run = 0n; run < 12n; run++) {
+      const { read } = runCron(registry, NOW + run * 3600n, { config: { rulePageSize: 2, maxRulePages: 1 } });
+      read.forEach((id) => seen.add(id));
+    }
+
+    expect(seen.size).toBe(rules.length);
+  });
+
+  test("chooses the same start page for the same scheduled time", () => {
+    expect(getStartPage(NOW, 7)).toBe(getStartPage(NOW, 7));
+    const pages = new Set(Array.from({ length: 24 }, (_, hour) => getStartPage(NOW + BigInt(hour) * 3600n, 4)));
+    expect(pages.size).toBe(4);
+  });
+});
+
+// ============================================================================
+// Evaluation & Notifications
+// ============================================================================
+
+describe("rule evaluation", () => {
+  test("notifies a once rule whose condition is met, then takes it out of the active set", () => {
+    const rule = createRule(0, { targetPriceUsd: 5900000000000n });
+    const registry = createFakeRuleRegistry([rule]);
+    const notifications = createFakeNotificationEndpoint();
+
+    const { result } = runCron(registry, NOW, { notifications });
+
+    expect(result).toBe("Processed 1 rules on 1 chain(s), sent 1 notifications");
+    expect(notifications.sent).toHaveLength(1);
+    expect(notifications.sent[0]).toMatchObject({ channel: "webhook", url: SECRETS.WEBHOOK_URL });
+    expect(notifications.sent[0].notification).toMatchObject({ ruleId: rule.id, priceUsd: "60,000.00" });
+    expect(stateReports(registry)).toEqual([{ id: rule.id, armed: false, lastTriggeredAt: NOW }]);
+    expect(registry.getActiveRuleCount()).toBe(0n);
+
+    // A spent once rule is not read again
+    expect(runCron(registry, NOW + 3600n, { notifications }).read).toEqual([]);
+    expect(notifications.sent).toHaveLength(1);
+  });
+
+  test("does not notify or write state while the condition is not met", () => {
+    const registry = createFakeRuleRegistry([createRule(0)]);
+    const notifications = createFakeNotificationEndpoint();
+
+    runCron(registry, NOW, { notifications });
+
+    expect(notifications.sent).toEqual([]);
+    expect(registry.reports).toEqual([]);
+  });
+
+  test("re-arms a crossing rule once the condition flips back", () => {
+    const rule = createRule(0, { targetPriceUsd: 5900000000000n, triggerMode: "crossing" });
+    const registry = createFakeRuleRegistry([rule]);
+    const notifications = createFakeNotificationEndpoint();
+
+    runCron(registry, NOW, { notifications });
+    runCron(registry, NOW + 3600n, { notifications });
+    runCron(registry, NOW + 7200n, { notifications, btcPrice: 5800000000000n });
+    runCron(registry, NOW + 10800n, { notifications });
+
+    expect(notifications.sent).toHaveLength(2);
+    expect(stateReports(registry).map((report) => report.armed)).toEqual([false, true, false]);
+    expect(registry.getActiveRuleCount()).toBe(1n);
+  });
+
+  test("notifies cooldown rules at most once per cooldown", () => {
+    const rule = createRule(0, { targetPriceUsd: 5900000000000n, triggerMode: "cooldown", cooldownSeconds: 7200n });
+    const registry = createFakeRuleRegistry([rule]);
+    const notifications = createFakeNotificationEndpoint();
+
+    for (let run = 0n; run < 4n; run++) {
+      runCron(registry, NOW + run * 3600n, { notifications });
+    }
+
+    expect(notifications.sent.map((sent) => sent.notification.triggeredAt)).toEqual([
+      Number(NOW),
+      Number(NOW + 7200n),
+    ]);
+  });
+
+  test("fires change rules from the feed history", () => {
+    const rule = createRule(0, {
+      condition: "change",
+      targetPriceUsd: 0n,
+      changePercent: 500000000n,
+      windowSeconds: 3600n,
+      direction: "up",
+    });
+    const registry = createFakeRuleRegistry([rule]);
+    const priceFeeds = createFakePriceFeeds();
+    priceFeeds.addRound(BTC_FEED, 5600000000000n, NOW - 4000n);
+    priceFeeds.addRound(BTC_FEED, 6000000000000n, NOW - 60n);
+    const notifications = createFakeNotificationEndpoint();
+
+    runCron(registry, NOW, { priceFeeds, notifications });
+
+    // $56,000 -> $60,000 is up 7.14%, above the 5% threshold
+    expect(notifications.sent).toHaveLength(1);
+  });
+
+  test("skips rules on stale prices", () => {
+    const registry = createFakeRuleRegistry([createRule(0, { targetPriceUsd: 5900000000000n })]);
+    const priceFeeds = createFakePriceFeeds();
+    priceFeeds.addRound(BTC_FEED, BTC_PRICE, NOW - 7200n);
+    const notifications = createFakeNotificationEndpoint();
+
+    const { logs } = runCron(registry, NOW, { priceFeeds, notifications });
+
+    expect(notifications.sent).toEqual([]);
+    expect(registry.reports).toEqual([]);
+    expect(logs.join("\n")).toContain("1 rule(s) skipped due to rejected price feeds: BTC");
+  });
+
+  test("keeps the rule armed when the notification fails, so the next run retries it", () => {
+    const registry = createFakeRuleRegistry([createRule(0, { targetPriceUsd: 5900000000000n })]);
+    const notifications = createFakeNotificationEndpoint();
+    notifications.statusCode = 500;
+
+    runCron(registry, NOW, { notifications });
+    expect(registry.reports).toEqual([]);
+
+    notifications.statusCode = 200;
+    runCron(registry, NOW + 3600n, { notifications });
+    expect(notifications.sent).toHaveLength(1);
+  });
+});
+
+// ============================================================================
+// Expiry
+// ============================================================================
+
+describe("expiry", () => {
+  test("skips expired rules and removes them from the active set", () => {
+    const expired = createRule(0, { targetPriceUsd: 5900000000000n, expiresAt: NOW - 1n });
+    // Rules without an expiry fall back to ruleTTL after their creation
+    const legacy = createRule(1, { expiresAt: 0n, createdAt: NOW - 3600n });
+    const live = createRule(2);
+    const registry = createFakeRuleRegistry([expired, legacy, live]);
+    const notifications = createFakeNotificationEndpoint();
+
+    runCron(registry, NOW, { notifications });
+
+    expect(notifications.sent).toEqual([]);
+    const deactivations = registry.reports.filter((report) => report.reportType === REPORT_TYPE_DEACTIVATE);
+    expect(deactivations).toHaveLength(1);
+    const [ids] = decodeAbiParameters(parseAbiParameters("bytes32[] ids"), deactivations[0].data);
+    expect(ids).toEqual([expired.id, legacy.id]);
+    expect(registry.getActiveRulesRange(0n, 10n).map((rule) => rule.id)).toEqual([live.id]);
+  });
+
+  test("reports the expired rules again when the deactivation fails", () => {
+    const registry = createFakeRuleRegistry([createRule(0, { expiresAt: NOW - 1n })]);
+    registry.writeError = "execution reverted";
+
+    const { logs } = runCron(registry, NOW);
+    expect(logs.join("\n")).toContain("Failed to remove expired rules: execution reverted");
+    expect(registry.getActiveRuleCount()).toBe(1n);
+
+    registry.writeError = null;
+    runCron(registry, NOW + 3600n);
+    expect(registry.getActiveRuleCount()).toBe(0n);
+  });
+});
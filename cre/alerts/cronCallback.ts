@@ -3,544 +3,562 @@
  * 
  * This module handles the cron trigger for checking price conditions and sending notifications.
  * It periodically fetches price data from Chainlink feeds, checks rules against current prices,
- * and sends Pushover notifications when conditions are met.
+ * and sends notifications through the rule's channel when conditions are met.
  * 
- * Flow:
- * 1. Fetch current prices for BTC, ETH, LINK
- * 2. Fetch all rules from RuleRegistry contract
- * 3. For each rule, check if condition is met
- * 4. If condition is met, send Pushover notification
+ * Every chain configured in `evms` is checked in the same run.
+ * 
+ * Flow (per chain):
+ * 1. Fetch current prices for every asset in the chain's catalog (stale or invalid prices are rejected)
+ * 2. Page through the active rules of the chain's RuleRegistry contract (cancelled, spent
+ *    "once" rules and reported expired rules are not in the active set)
+ * 3. For each rule, check if condition is met and the rule is armed (expired rules are skipped)
+ *    (change rules compare the price with earlier feed rounds, read with getRoundData;
+ *    ratio rules compare the asset's price in units of another fetched asset)
+ * 4. If condition is met, send a notification through the rule's channel (see notifications.ts)
+ * 5. Write the rule's trigger state back to RuleRegistry (triggered / re-armed)
+ * 6. Report the expired rules found in step 3, so they leave the active set
+ *
+ * Registry, price feed and notification calls go through the workflow clients
+ * (see clients.ts) and the decisions are made by the pure functions of
+ * evaluation.ts, so the handler also runs against the fakes of fakes.ts.
  */
 
+import type { CronPayload } from "@chainlink/cre-sdk";
+import { type Address, keccak256, toHex } from "viem";
+import type { EvmConfig, Rule, PriceData, PricePoint, AssetPrice } from "./types";
+import { encodeRuleDeactivateReport, encodeRuleStateReport } from "./reports";
+import { formatPercent, formatUsdPrice, normalizeFeedAnswer, percentChange, priceRatio } from "./price";
+import { formatTimestamp, getWorkflowTime } from "./clock";
+import { decryptDestination } from "./destinations";
+import {
+  type ChannelSecrets,
+  type NotificationChannel,
+  createSecretsLoader,
+  resolveChannel,
+} from "./notifications";
 import {
-  type Runtime,
-  getNetwork,
-  encodeCallMsg,
-  bytesToHex,
-  type HTTPSendRequester,
-  ok,
-  consensusIdenticalAggregation,
-} from "@chainlink/cre-sdk";
+  type PriceFeedClient,
+  type RuleRegistryClient,
+  type WorkflowClients,
+  type WorkflowRuntime,
+  createCreClients,
+} from "./clients";
 import {
-  type Address,
-  encodeFunctionData,
-  decodeFunctionResult,
-  zeroAddress,
-} from "viem";
-import { cre } from "@chainlink/cre-sdk";
-import type { Config, Rule, PriceData, PostResponse } from "./types";
+  buildAlertNotification,
+  checkChangeCondition,
+  checkCondition,
+  describeMarket,
+  describeTarget,
+  evaluateTriggerState,
+  formatRuleValue,
+  formatWindow,
+  getRuleExpiry,
+  validatePriceData,
+} from "./evaluation";
 
 // ============================================================================
-// Contract ABIs
+// Constants
 // ============================================================================
 
 /**
- * Chainlink price feed ABI for latestRoundData function
+ * Default maximum feed rounds read back per asset for change rules (see Config.maxHistoryRounds)
  */
-const priceFeedAbi = [
-  {
-    name: "latestRoundData",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [
-      { name: "roundId", type: "uint80" },
-      { name: "answer", type: "int256" },
-      { name: "startedAt", type: "uint256" },
-      { name: "updatedAt", type: "uint256" },
-      { name: "answeredInRound", type: "uint80" },
-    ],
-  },
-] as const;
+const DEFAULT_MAX_HISTORY_ROUNDS = 50;
 
 /**
- * RuleRegistry contract ABI
+ * Default active rules read per registry call (see Config.rulePageSize)
  */
-const registryAbi = [
-  {
-    name: "getAllRules",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [
-      {
-        name: "",
-        type: "tuple[]",
-        components: [
-          { name: "id", type: "bytes32" },
-          { name: "asset", type: "string" },
-          { name: "condition", type: "string" },
-          { name: "targetPriceUsd", type: "uint256" },
-          { name: "createdAt", type: "uint256" },
-        ],
-      },
-    ],
-  },
-  {
-    name: "getRuleCount",
-    type: "function",
-    stateMutability: "view",
-    inputs: [],
-    outputs: [{ name: "", type: "uint256" }],
-  },
-  {
-    name: "getRule",
-    type: "function",
-    stateMutability: "view",
-    inputs: [{ name: "_ruleId", type: "uint256" }],
-    outputs: [
-      {
-        name: "",
-        type: "tuple",
-        components: [
-          { name: "id", type: "bytes32" },
-          { name: "asset", type: "string" },
-          { name: "condition", type: "string" },
-          { name: "targetPriceUsd", type: "uint256" },
-          { name: "createdAt", type: "uint256" },
-        ],
-      },
-    ],
-  },
-] as const;
+const DEFAULT_RULE_PAGE_SIZE = 50;
 
-// ============================================================================
-// Helper Functions
-// ============================================================================
+/**
+ * Default maximum pages of active rules read per chain and run (see Config.maxRulePages)
+ */
+const DEFAULT_MAX_RULE_PAGES = 5;
 
 /**
- * Fetches latest price data from a Chainlink price feed
- * 
- * @param runtime - CRE runtime context
- * @param evmClient - EVM client for contract calls
- * @param contractAddress - Price feed contract address
- * @returns PriceData structure with latest round data
+ * Maximum expired rules removed from the active set per deactivate report
+ * (each removal costs gas; the rest are reported on the next run)
  */
-function getPriceData(
-  runtime: Runtime<Config>,
-  evmClient: InstanceType<typeof cre.capabilities.EVMClient>,
-  contractAddress: Address
-): PriceData {
-  const callDataFeed = encodeFunctionData({
-    abi: priceFeedAbi,
-    functionName: "latestRoundData",
-    args: [],
-  });
+const MAX_DEACTIVATIONS_PER_REPORT = 25;
 
-  const contractCallFeed = evmClient
-    .callContract(runtime, {
-      call: encodeCallMsg({
-        from: zeroAddress,
-        to: contractAddress,
-        data: callDataFeed,
-      }),
-    })
-    .result();
-
-  const priceDataTuple = decodeFunctionResult({
-    abi: priceFeedAbi,
-    functionName: "latestRoundData",
-    data: bytesToHex(contractCallFeed.data),
-  }) as [bigint, bigint, bigint, bigint, bigint];
-
-  return {
-    roundId: priceDataTuple[0],
-    answer: priceDataTuple[1],
-    startedAt: priceDataTuple[2],
-    updatedAt: priceDataTuple[3],
-    answeredInRound: priceDataTuple[4],
-  };
-}
+/**
+ * Mask of the aggregator round ID in a proxy round ID (the upper bits hold the phase ID)
+ */
+const AGGREGATOR_ROUND_MASK = (1n << 64n) - 1n;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
 
 /**
- * Converts condition string to mathematical symbol
+ * Reads the price history of an asset back to a point in time
  * 
- * @param condition - Condition string (gt, lt, gte, lte)
- * @returns Mathematical symbol (>, <, >=, <=)
+ * Walks back from the latest round with getRoundData until a round updated at
+ * or before `since` is found. The walk stops early at the first round of the
+ * feed's current phase, at an invalid round, or after `maxRounds` rounds.
+ * 
+ * @param runtime - Workflow runtime
+ * @param priceFeeds - Price feeds of the asset's chain
+ * @param assetPrice - Latest price of the asset
+ * @param since - UNIX timestamp (seconds) the history should reach back to
+ * @param maxRounds - Maximum number of rounds to return (including the latest)
+ * @returns Price points, newest first
  */
-function getConditionSymbol(condition: string): string {
-  const conditionMap: Record<string, string> = {
-    gt: ">",
-    gte: ">=",
-    lt: "<",
-    lte: "<=",
-  };
-  return conditionMap[condition.toLowerCase()] || condition;
+function getPriceHistory(
+  runtime: WorkflowRuntime,
+  priceFeeds: PriceFeedClient,
+  assetPrice: AssetPrice,
+  since: bigint,
+  maxRounds: number
+): PricePoint[] {
+  const { asset } = assetPrice;
+  const history: PricePoint[] = [{ updatedAt: assetPrice.data.updatedAt, price: assetPrice.price }];
+
+  let round = assetPrice.data;
+  while (round.updatedAt > since && history.length < maxRounds) {
+    // Round IDs only decrease by one within a phase
+    if ((round.roundId & AGGREGATOR_ROUND_MASK) <= 1n) {
+      break;
+    }
+    try {
+      round = priceFeeds.getRoundData(asset.feedAddress as Address, round.roundId - 1n);
+    } catch (error: any) {
+      runtime.log(`  • ${asset.symbol}: history read failed: ${error.message}`);
+      break;
+    }
+    if (round.answer <= 0n || round.updatedAt === 0n) {
+      break;
+    }
+    history.push({ updatedAt: round.updatedAt, price: normalizeFeedAnswer(round.answer, asset.decimals) });
+  }
+
+  return history;
 }
 
 /**
- * Checks if a price condition is met
- * 
- * @param currentPrice - Current price in USD
- * @param targetPrice - Target price in USD
- * @param condition - Condition string (gt, lt, gte, lte)
- * @returns true if condition is met, false otherwise
+ * Returns the first page of the active set a run reads
+ *
+ * Runs that cannot read the whole active set start at a different page each
+ * time, chosen from the scheduled time, so every rule is checked over a few
+ * runs. The time is hashed first: runs of a fixed schedule are a multiple of
+ * its interval apart and would otherwise share a remainder. Every node of the
+ * DON sees the same scheduled time, so they read the same pages.
+ *
+ * @param currentTimestamp - Current UNIX timestamp (seconds) of the run (see clock.ts)
+ * @param pageCount - Number of pages of the active set
+ * @returns Page index in [0, pageCount)
  */
-function checkCondition(
-  currentPrice: bigint,
-  targetPrice: bigint,
-  condition: string
-): boolean {
-  switch (condition) {
-    case "gt":
-      return currentPrice > targetPrice;
-    case "lt":
-      return currentPrice < targetPrice;
-    case "gte":
-      return currentPrice >= targetPrice;
-    case "lte":
-      return currentPrice <= targetPrice;
-    default:
-      return false;
-  }
+export function getStartPage(currentTimestamp: bigint, pageCount: number): number {
+  return Number(BigInt(keccak256(toHex(currentTimestamp, { size: 32 }))) % BigInt(pageCount));
 }
 
 /**
- * Fetches all rules from the RuleRegistry contract
+ * Fetches the active rules from the RuleRegistry contract
  * 
- * Attempts to fetch all rules at once via getAllRules(). If that fails,
- * falls back to fetching rules individually via getRule(i).
+ * Reads the active rule count, then pages through the active set with
+ * getActiveRulesRange (rulePageSize rules per call, at most maxRulePages
+ * calls), so the number of calls and their response size stay bounded however
+ * many rules the registry has ever stored. If the active set has more pages,
+ * reading starts at a page that rotates between runs (see getStartPage) and
+ * wraps around to the first page. All pages are read before any report is
+ * written, as reports that remove rules reorder the active set.
  * 
- * @param runtime - CRE runtime context
- * @param evmClient - EVM client for contract calls
- * @param registryAddress - RuleRegistry contract address
+ * @param runtime - Workflow runtime
+ * @param registry - RuleRegistry of the chain
+ * @param currentTimestamp - Current UNIX timestamp (seconds) of the run (see clock.ts)
  * @returns Array of Rule structs
  */
-function getAllRules(
-  runtime: Runtime<Config>,
-  evmClient: InstanceType<typeof cre.capabilities.EVMClient>,
-  registryAddress: Address
-): Rule[] {
-  // Get rule count
-  const callDataCount = encodeFunctionData({
-    abi: registryAbi,
-    functionName: "getRuleCount",
-    args: [],
-  });
-
-  const contractCallCount = evmClient
-    .callContract(runtime, {
-      call: encodeCallMsg({
-        from: zeroAddress,
-        to: registryAddress,
-        data: callDataCount,
-      }),
-    })
-    .result();
-
-  const ruleCount = decodeFunctionResult({
-    abi: registryAbi,
-    functionName: "getRuleCount",
-    data: bytesToHex(contractCallCount.data),
-  }) as bigint;
-
-  runtime.log(`[Step 2] Found ${ruleCount.toString()} rules on-chain`);
-
-  // Try to fetch all rules at once
-  const callData = encodeFunctionData({
-    abi: registryAbi,
-    functionName: "getAllRules",
-    args: [],
-  });
-
-  const contractCall = evmClient
-    .callContract(runtime, {
-      call: encodeCallMsg({
-        from: zeroAddress,
-        to: registryAddress,
-        data: callData,
-      }),
-    })
-    .result();
-
-  const decodedResult = decodeFunctionResult({
-    abi: registryAbi,
-    functionName: "getAllRules",
-    data: bytesToHex(contractCall.data),
-  });
-
-  // If getAllRules worked, use it
-  if (
-    Array.isArray(decodedResult) &&
-    decodedResult.length === Number(ruleCount)
-  ) {
-    return decodedResult as Rule[];
+function getActiveRules(runtime: WorkflowRuntime, registry: RuleRegistryClient, currentTimestamp: bigint): Rule[] {
+  const pageSize = runtime.config.rulePageSize ?? DEFAULT_RULE_PAGE_SIZE;
+  const maxPages = runtime.config.maxRulePages ?? DEFAULT_MAX_RULE_PAGES;
+
+  const activeCount = registry.getActiveRuleCount();
+  runtime.log(`[Step 2] Found ${activeCount.toString()} active rules on-chain`);
+
+  const pageCount = Number((activeCount + BigInt(pageSize) - 1n) / BigInt(pageSize));
+  let startPage = 0;
+  if (pageCount > maxPages) {
+    startPage = getStartPage(currentTimestamp, pageCount);
+    runtime.log(
+      `  [WARNING] Only ${maxPages} of ${pageCount} pages of active rules are read (rulePageSize x maxRulePages), starting at page ${startPage}`
+    );
   }
 
-  // Fallback: fetch rules individually
-  runtime.log(`[Step 2] Fetching rules individually...`);
+  // Page through the active set, wrapping around past its last page
   const rules: Rule[] = [];
-  for (let i = 0; i < Number(ruleCount); i++) {
-    const callDataRule = encodeFunctionData({
-      abi: registryAbi,
-      functionName: "getRule",
-      args: [BigInt(i)],
-    });
-
-    const contractCallRule = evmClient
-      .callContract(runtime, {
-        call: encodeCallMsg({
-          from: zeroAddress,
-          to: registryAddress,
-          data: callDataRule,
-        }),
-      })
-      .result();
-
-    const rule = decodeFunctionResult({
-      abi: registryAbi,
-      functionName: "getRule",
-      data: bytesToHex(contractCallRule.data),
-    }) as Rule;
-
-    rules.push(rule);
+  for (let i = 0; i < Math.min(maxPages, pageCount); i++) {
+    const page = (startPage + i) % pageCount;
+    rules.push(...registry.getActiveRulesRange(BigInt(page * pageSize), BigInt(pageSize)));
   }
 
   return rules;
 }
 
 // ============================================================================
-// Pushover Notification
+// Notifications
 // ============================================================================
 
 /**
- * Sends a Pushover notification when a price alert condition is met
+ * Resolves where a rule's notification is delivered
+ * 
+ * Rules created with their own destination store it encrypted on-chain (see
+ * destinations.ts); other rules use the channel's default destination secret.
  * 
  * @param rule - The rule that triggered the alert
- * @param priceData - Current price data for all assets
- * @param secrets - Pushover API credentials
- * @returns Function that sends the HTTP request
+ * @param channel - The rule's notification channel
+ * @param loadSecrets - Returns the values of CRE secrets, keyed by ID
+ * @returns Plaintext destination
  */
-const postPushoverData =
-  (rule: Rule, priceData: any, secrets: any) =>
-  (sendRequester: HTTPSendRequester, config: Config): PostResponse => {
-    const assetKey = rule.asset.toLowerCase() as "btc" | "eth" | "link";
-    const assetPriceData = priceData[assetKey];
-
-    if (!assetPriceData || !assetPriceData.answer) {
-      throw new Error(`Price data not available for ${rule.asset}`);
-    }
-
-    // Chainlink price feeds return price with 8 decimals
-    const answerValue =
-      typeof assetPriceData.answer === "bigint"
-        ? assetPriceData.answer
-        : BigInt(assetPriceData.answer.toString());
-    const currentPriceUsd = Number(answerValue) / 10 ** 8;
-    const targetPriceUsd = Number(rule.targetPriceUsd);
-
-    // Format prices with commas and decimals
-    const formattedCurrentPrice = currentPriceUsd.toLocaleString("en-US", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-    const formattedTargetPrice = targetPriceUsd.toLocaleString("en-US", {
-      minimumFractionDigits: 2,
-      maximumFractionDigits: 2,
-    });
-
-    const conditionSymbol = getConditionSymbol(rule.condition);
-    const message = `${rule.asset} is now $${formattedCurrentPrice} (alert target: ${conditionSymbol} $${formattedTargetPrice})`;
-
-    const pushoverPayload = {
-      token: secrets.pushoverApiKey,
-      user: secrets.pushoverUserId,
-      message: message,
-      title: "CRE PRICE ALERT",
-    };
-
-    const bodyBytes = new TextEncoder().encode(JSON.stringify(pushoverPayload));
-    const body = Buffer.from(bodyBytes).toString("base64");
-
-    const req = {
-      url: "https://api.pushover.net/1/messages.json",
-      method: "POST" as const,
-      body,
-      headers: {
-        "Content-Type": "application/json",
-      },
-      cacheSettings: {
-        store: true,
-        maxAge: "60s", // Accept cached responses up to 60 seconds old (Duration format: "60s")
-      },
-    };
-
-    const resp = sendRequester.sendRequest(req).result();
-
-    if (!ok(resp)) {
-      throw new Error(
-        `Pushover API request failed with status: ${resp.statusCode}`
-      );
-    }
-
-    const responseText = new TextDecoder().decode(resp.body);
-    const responseBody = JSON.parse(responseText);
-    if (responseBody.status !== 1) {
-      throw new Error(
-        `Pushover API returned error: ${JSON.stringify(responseBody)}`
-      );
-    }
-
-    return { statusCode: resp.statusCode };
-  };
+function resolveDestination(
+  rule: Rule,
+  channel: NotificationChannel,
+  loadSecrets: (secretIds: string[]) => ChannelSecrets
+): string {
+  if (rule.destination && rule.destination !== "0x") {
+    const { DESTINATION_ENCRYPTION_KEY } = loadSecrets(["DESTINATION_ENCRYPTION_KEY"]);
+    return decryptDestination(DESTINATION_ENCRYPTION_KEY, rule.id, rule.destination);
+  }
+  return loadSecrets([channel.destinationSecretId])[channel.destinationSecretId];
+}
 
 // ============================================================================
 // Cron Trigger Handler
 // ============================================================================
 
 /**
- * Cron trigger handler - runs periodically to check price conditions
- * 
- * Flow:
- * 1. Fetch current prices for BTC, ETH, LINK
- * 2. Fetch all rules from RuleRegistry contract
- * 3. For each rule, check if condition is met
- * 4. If condition is met, send Pushover notification
- * 
- * @param runtime - CRE runtime context
- * @returns Status message
+ * Result of checking the rules of one chain
  */
-export const onCronTrigger = (runtime: Runtime<Config>): string => {
-  runtime.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  runtime.log("CRE Workflow: Cron Trigger");
-  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-
-  // Get Pushover secrets
-  const pushoverUserId = runtime.getSecret({ id: "PUSHOVER_USER_KEY" }).result();
-  const pushoverApiKey = runtime.getSecret({ id: "PUSHOVER_API_KEY" }).result();
-
-  // Get network and EVM client
-  const network = getNetwork({
-    chainFamily: "evm",
-    chainSelectorName: runtime.config.evms[0].chainSelectorName,
-    isTestnet: true,
-  });
-
-  if (!network) {
-    throw new Error(`Network not found`);
-  }
+type ChainCheckResult = {
+  /** Number of active rules read from the chain's RuleRegistry */
+  rulesChecked: number;
+  /** Number of notifications sent */
+  notificationsSent: number;
+  /** Number of rule state updates written */
+  stateUpdates: number;
+  /** Number of expired rules removed from the active set */
+  rulesDeactivated: number;
+  /** Number of rules skipped because their price feed was rejected */
+  rulesSkippedForFeeds: number;
+  /** Rejected price feeds (asset symbol -> reason) */
+  rejectedFeeds: Record<string, string>;
+};
 
-  const evmClient = new cre.capabilities.EVMClient(
-    network.chainSelector.selector
-  );
+/**
+ * Checks the rules of a single chain
+ *
+ * Prices and rules are read from the chain's own feeds and RuleRegistry, and
+ * trigger state updates are written back to the same registry.
+ *
+ * @param runtime - Workflow runtime
+ * @param clients - Clients of the run
+ * @param evm - EVM configuration of the chain
+ * @param loadSecrets - Returns the values of CRE secrets, keyed by ID
+ * @param currentTimestamp - Current UNIX timestamp (seconds) of the run (see clock.ts)
+ * @returns Counters for the chain
+ */
+function checkChainRules(
+  runtime: WorkflowRuntime,
+  clients: WorkflowClients,
+  evm: EvmConfig,
+  loadSecrets: (secretIds: string[]) => ChannelSecrets,
+  currentTimestamp: bigint
+): ChainCheckResult {
+  const { registry, priceFeeds } = clients.chain(evm);
+  const result: ChainCheckResult = {
+    rulesChecked: 0,
+    notificationsSent: 0,
+    stateUpdates: 0,
+    rulesDeactivated: 0,
+    rulesSkippedForFeeds: 0,
+    rejectedFeeds: {},
+  };
+  const { rejectedFeeds } = result;
 
   // Step 1: Fetch price data
   runtime.log("\n[Step 1] Fetching price data from Chainlink feeds...");
-  const btcPriceData = getPriceData(
-    runtime,
-    evmClient,
-    runtime.config.evms[0].dataFeeds?.BTC as Address
-  );
-  const ethPriceData = getPriceData(
-    runtime,
-    evmClient,
-    runtime.config.evms[0].dataFeeds?.ETH as Address
-  );
-  const linkPriceData = getPriceData(
-    runtime,
-    evmClient,
-    runtime.config.evms[0].dataFeeds?.LINK as Address
-  );
-
-  const btcPriceUsd = Number(btcPriceData.answer) / 10 ** 8;
-  const ethPriceUsd = Number(ethPriceData.answer) / 10 ** 8;
-  const linkPriceUsd = Number(linkPriceData.answer) / 10 ** 8;
-  runtime.log(`  • BTC: $${btcPriceUsd.toFixed(2)}`);
-  runtime.log(`  • ETH: $${ethPriceUsd.toFixed(2)}`);
-  runtime.log(`  • LINK: $${linkPriceUsd.toFixed(2)}`);
-
-  // Step 2: Fetch all rules
-  const rules = getAllRules(
-    runtime,
-    evmClient,
-    runtime.config.evms[0].ruleRegistryAddress as Address
-  );
+  const prices: Record<string, AssetPrice> = {};
+  for (const asset of evm.assets) {
+    const symbol = asset.symbol.toUpperCase();
+    let data: PriceData;
+    try {
+      data = priceFeeds.getRoundData(asset.feedAddress as Address);
+    } catch (error: any) {
+      rejectedFeeds[symbol] = `feed read failed: ${error.message}`;
+      runtime.log(`  • ${asset.symbol}: [REJECTED] ${rejectedFeeds[symbol]}`);
+      continue;
+    }
+
+    // Alerts on bad data are worse than no alerts: reject and skip the asset's rules
+    const rejection = validatePriceData(data, asset.maxStalenessSeconds, currentTimestamp);
+    if (rejection) {
+      rejectedFeeds[symbol] = rejection;
+      runtime.log(`  • ${asset.symbol}: [REJECTED] ${rejection}`);
+      continue;
+    }
+
+    const price = normalizeFeedAnswer(data.answer, asset.decimals);
+    prices[symbol] = { asset, data, price };
+    runtime.log(`  • ${asset.symbol}: $${formatUsdPrice(price, asset.displayDecimals)}`);
+  }
+
+  // Step 2: Fetch the active rules
+  const rules = getActiveRules(runtime, registry, currentTimestamp);
+  result.rulesChecked = rules.length;
 
   if (rules.length === 0) {
     runtime.log("\n[Step 3] No rules to process");
-    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
-    return "No rules to process";
+    return result;
   }
 
   // Step 3: Check conditions and send notifications
   runtime.log(`\n[Step 3] Checking ${rules.length} rules...`);
-  const priceData = {
-    btc: btcPriceData,
-    eth: ethPriceData,
-    link: linkPriceData,
-  };
 
-  const httpClient = new cre.capabilities.HTTPClient();
-  let notificationsSent = 0;
-  const currentTimestamp = BigInt(Math.floor(Date.now() / 1000));
   const ruleTTL = BigInt(runtime.config.ruleTTL);
 
+  // Change rules need earlier prices: read each asset's history once, back to its longest window
+  const historyWindows: Record<string, bigint> = {};
+  for (const rule of rules) {
+    const symbol = rule.asset.toUpperCase();
+    if (
+      rule.condition === "change" &&
+      !rule.cancelled &&
+      currentTimestamp <= getRuleExpiry(rule, ruleTTL) &&
+      prices[symbol]
+    ) {
+      if (rule.windowSeconds > (historyWindows[symbol] ?? 0n)) {
+        historyWindows[symbol] = rule.windowSeconds;
+      }
+    }
+  }
+  const histories: Record<string, PricePoint[]> = {};
+  const maxHistoryRounds = runtime.config.maxHistoryRounds ?? DEFAULT_MAX_HISTORY_ROUNDS;
+  for (const [symbol, window] of Object.entries(historyWindows)) {
+    histories[symbol] = getPriceHistory(
+      runtime,
+      priceFeeds,
+      prices[symbol],
+      currentTimestamp - window,
+      maxHistoryRounds
+    );
+    runtime.log(`  • ${symbol}: ${histories[symbol].length} price round(s) read for change rules`);
+  }
+
+  // Expired rules are removed from the active set after the checks
+  const expiredIds: Rule["id"][] = [];
+
   rules.forEach((rule, index) => {
-    // Skip rules older than TTL
-    const ruleAge = currentTimestamp - rule.createdAt;
-    if (ruleAge > ruleTTL) {
-      const ttlMinutes = Number(ruleTTL) / 60;
+    // Skip rules cancelled by their payer
+    if (rule.cancelled) {
+      runtime.log(`  [Rule ${index + 1}] Skipped (cancelled)`);
+      return;
+    }
+
+    // Skip expired rules (each rule has its own expiry, or the default TTL)
+    const expiresAt = getRuleExpiry(rule, ruleTTL);
+    if (currentTimestamp > expiresAt) {
       runtime.log(
-        `  [Rule ${index + 1}] Skipped (older than ${ttlMinutes} minutes)`
+        `  [Rule ${index + 1}] Skipped (expired at ${formatTimestamp(expiresAt)})`
       );
+      expiredIds.push(rule.id);
       return;
     }
 
-    // Get current price for the asset
-    let currentPrice: bigint | null = null;
-    if (rule.asset === "BTC") {
-      currentPrice = btcPriceData.answer;
-    } else if (rule.asset === "ETH") {
-      currentPrice = ethPriceData.answer;
-    } else if (rule.asset === "LINK") {
-      currentPrice = linkPriceData.answer;
+    // Get current price for the asset, and the quote asset of ratio rules (skip if a feed was rejected)
+    const symbols = rule.quoteAsset ? [rule.asset, rule.quoteAsset] : [rule.asset];
+    const rejection = symbols
+      .map((symbol) => rejectedFeeds[symbol.toUpperCase()])
+      .find((reason) => reason !== undefined);
+    if (rejection) {
+      runtime.log(
+        `  [Rule ${index + 1}] Skipped (price feed rejected: ${rejection})`
+      );
+      result.rulesSkippedForFeeds++;
+      return;
     }
-
-    if (currentPrice === null) {
-      runtime.log(`  [Rule ${index + 1}] Unknown asset: ${rule.asset}`);
+    const unknown = symbols.find((symbol) => !prices[symbol.toUpperCase()]);
+    if (unknown) {
+      runtime.log(`  [Rule ${index + 1}] Unknown asset: ${unknown}`);
       return;
     }
+    const assetPrice = prices[rule.asset.toUpperCase()];
+    // Ratio rules compare the asset's price in units of the quote asset
+    const currentPrice = rule.quoteAsset
+      ? priceRatio(assetPrice.price, prices[rule.quoteAsset.toUpperCase()].price)
+      : assetPrice.price;
+    const { displayDecimals } = assetPrice.asset;
+
+    // Check condition (prices and targets both have 8 decimals)
+    let conditionMet: boolean;
+    let change: bigint | undefined;
+    if (rule.condition === "change") {
+      // Compare with the price in effect at the start of the window
+      const windowStart = currentTimestamp - rule.windowSeconds;
+      const reference = (histories[rule.asset.toUpperCase()] ?? []).find(
+        (point) => point.updatedAt <= windowStart
+      );
+      if (!reference) {
+        runtime.log(
+          `  [Rule ${index + 1}] Skipped (price history does not reach back ${formatWindow(rule.windowSeconds)}, max ${maxHistoryRounds} rounds)`
+        );
+        return;
+      }
+      change = percentChange(reference.price, currentPrice);
+      conditionMet = checkChangeCondition(change, rule.changePercent, rule.direction);
+    } else {
+      conditionMet = checkCondition(
+        currentPrice,
+        rule.targetPriceUsd,
+        rule.upperPriceUsd,
+        rule.condition
+      );
+    }
+    const decision = evaluateTriggerState(rule, conditionMet, currentTimestamp);
+    const summary = `${describeMarket(rule)} ${formatRuleValue(rule, currentPrice, displayDecimals)}${
+      change === undefined ? "" : ` (${formatPercent(change)})`
+    } ${describeTarget(rule, displayDecimals)}`;
 
-    // Check condition (Chainlink feeds have 8 decimals)
-    const priceInUsd = currentPrice / BigInt(10 ** 8);
-    const conditionMet = checkCondition(
-      priceInUsd,
-      rule.targetPriceUsd,
-      rule.condition
-    );
-
-    if (conditionMet) {
+    if (decision.notify) {
       runtime.log(
-        `  [Rule ${index + 1}] [SUCCESS] Condition met: ${rule.asset} $${priceInUsd.toString()} ${rule.condition} $${rule.targetPriceUsd.toString()}`
+        `  [Rule ${index + 1}] [SUCCESS] Condition met: ${summary}`
       );
 
       try {
-        const result = httpClient
-          .sendRequest(
-            runtime,
-            postPushoverData(rule, priceData, {
-              pushoverUserId: pushoverUserId.value,
-              pushoverApiKey: pushoverApiKey.value,
-            }),
-            consensusIdenticalAggregation<PostResponse>()
-          )(runtime.config)
-          .result();
-
-        runtime.log(`    -> Pushover notification sent (Status: ${result.statusCode})`);
-        notificationsSent++;
+        const channel = resolveChannel(runtime.config, rule.channel);
+        const response = clients.notifications.send(
+          channel,
+          buildAlertNotification(rule, currentPrice, displayDecimals, evm, currentTimestamp, change),
+          resolveDestination(rule, channel, loadSecrets),
+          loadSecrets(channel.secretIds)
+        );
+
+        runtime.log(`    -> ${channel.name} notification sent (Status: ${response.statusCode})`);
+        result.notificationsSent++;
       } catch (error: any) {
         runtime.log(`    -> [ERROR] Failed to send notification: ${error.message}`);
+        // Leave the rule armed so the notification is retried on the next run
+        return;
       }
     } else {
       runtime.log(
-        `  [Rule ${index + 1}] Condition not met: ${rule.asset} $${priceInUsd.toString()} ${rule.condition} $${rule.targetPriceUsd.toString()}`
+        `  [Rule ${index + 1}] Skipped (${decision.reason}): ${summary}`
       );
     }
+
+    // Write the new trigger state back so the rule is not re-notified
+    if (decision.nextState) {
+      try {
+        const txHash = registry.writeReport(
+          encodeRuleStateReport(
+            rule.id,
+            decision.nextState.armed,
+            decision.nextState.lastTriggeredAt
+          )
+        );
+        runtime.log(
+          `    -> Rule state updated (armed: ${decision.nextState.armed}, tx: ${txHash})`
+        );
+        result.stateUpdates++;
+      } catch (error: any) {
+        runtime.log(`    -> [ERROR] Failed to update rule state: ${error.message}`);
+      }
+    }
   });
 
-  runtime.log(`\n[Step 4] [SUCCESS] Complete: ${notificationsSent} notification(s) sent`);
-  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+  // Remove expired rules from the active set, so later runs do not read them
+  if (expiredIds.length > 0) {
+    const batch = expiredIds.slice(0, MAX_DEACTIVATIONS_PER_REPORT);
+    try {
+      const txHash = registry.writeReport(encodeRuleDeactivateReport(batch));
+      runtime.log(`  -> ${batch.length} expired rule(s) removed from the active set (tx: ${txHash})`);
+      result.rulesDeactivated = batch.length;
+    } catch (error: any) {
+      // The rules stay active and are reported again on the next run
+      runtime.log(`  -> [ERROR] Failed to remove expired rules: ${error.message}`);
+    }
+  }
 
-  return `Processed ${rules.length} rules, sent ${notificationsSent} notifications`;
-};
+  return result;
+}
+
+/**
+ * Creates the cron trigger handler - runs periodically to check price conditions
+ * 
+ * Every chain in `config.evms` is checked in the same run. For each chain:
+ * 1. Fetch current prices for every asset in the chain's catalog (stale or invalid prices are rejected)
+ * 2. Page through the active rules of the chain's RuleRegistry contract
+ * 3. For each rule, check if condition is met and the rule is armed (expired rules are skipped)
+ * 4. If condition is met, send a notification through the rule's channel (see notifications.ts)
+ * 5. Write the rule's trigger state back to RuleRegistry (triggered / re-armed)
+ * 6. Remove expired rules from the registry's active set
+ * 
+ * All checks of the run use the same current time: the trigger's scheduled
+ * time (see clock.ts), so every node evaluates the same "now".
+ * 
+ * The handler takes the CRE runtime context and the cron trigger payload
+ * (holding the scheduled execution time), and returns a status message.
+ * 
+ * @param createClients - Creates the clients of a run from the runtime (see clients.ts)
+ * @returns Cron trigger handler
+ */
+export function createCronTriggerHandler<R extends WorkflowRuntime>(
+  createClients: (runtime: R) => WorkflowClients
+): (runtime: R, payload: Pick<CronPayload, "scheduledExecutionTime">) => string {
+  return (runtime, payload) => {
+    runtime.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    runtime.log("CRE Workflow: Cron Trigger");
+    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+    const clients = createClients(runtime);
+
+    // Secrets are read on first use and shared across chains
+    const loadSecrets = createSecretsLoader(clients.getSecret);
+
+    // One "now" for expiry, staleness and cooldowns, taken from the trigger's scheduled time
+    const { timestamp: currentTimestamp, source } = getWorkflowTime(runtime, payload.scheduledExecutionTime);
+    runtime.log(`[Clock] ${formatTimestamp(currentTimestamp)} (from ${source})`);
+    let rulesChecked = 0;
+    let notificationsSent = 0;
+    let stateUpdates = 0;
+    let rulesDeactivated = 0;
+    const failedChains: string[] = [];
+
+    for (const evm of runtime.config.evms) {
+      runtime.log(`\n[Chain] ${evm.chainSelectorName} (registry: ${evm.ruleRegistryAddress})`);
+
+      // A failing chain (RPC outage, bad config) must not block alerts on the others
+      let result: ChainCheckResult;
+      try {
+        result = checkChainRules(runtime, clients, evm, loadSecrets, currentTimestamp);
+      } catch (error: any) {
+        failedChains.push(evm.chainSelectorName);
+        runtime.log(`  [ERROR] Failed to check chain ${evm.chainSelectorName}: ${error.message}`);
+        continue;
+      }
+
+      rulesChecked += result.rulesChecked;
+      notificationsSent += result.notificationsSent;
+      stateUpdates += result.stateUpdates;
+      rulesDeactivated += result.rulesDeactivated;
+      if (result.rulesSkippedForFeeds > 0) {
+        runtime.log(
+          `  [WARNING] ${result.rulesSkippedForFeeds} rule(s) skipped due to rejected price feeds: ${Object.keys(result.rejectedFeeds).join(", ")}`
+        );
+      }
+    }
+
+    runtime.log(
+      `\n[Step 4] [SUCCESS] Complete: ${runtime.config.evms.length} chain(s), ${notificationsSent} notification(s) sent, ${stateUpdates} rule state update(s), ${rulesDeactivated} expired rule(s) deactivated`
+    );
+    if (failedChains.length > 0) {
+      runtime.log(`  [WARNING] Chain(s) not checked: ${failedChains.join(", ")}`);
+    }
+    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
 
+    return `Processed ${rulesChecked} rules on ${runtime.config.evms.length} chain(s), sent ${notificationsSent} notifications`;
+  };
+}
+
+/**
+ * Cron trigger handler of the deployed workflow (CRE capabilities, see createCronTriggerHandler)
+ */
+export const onCronTrigger = createCronTriggerHandler(createCreClients);
@@ -0,0 +1,89 @@
+/**
+ * Notification Destination Tests
+ *
+ * Encryption of per-rule destinations: round trips, nonces that change with
+ * the destination, and ciphertexts bound to their rule and key.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { type Hex, hexToBytes } from "viem";
+import { decryptDestination, encryptDestination, validateDestination } from "./destinations";
+
+const KEY = "0x000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f";
+const OTHER_KEY = "1f1e1d1c1b1a191817161514131211100f0e0d0c0b0a09080706050403020100";
+const RULE_ID: Hex = `0x${"11".repeat(32)}`;
+const OTHER_RULE_ID: Hex = `0x${"22".repeat(32)}`;
+
+/**
+ * Returns the 24-byte nonce stored in front of a ciphertext
+ */
+function nonceOf(ciphertext: Hex): string {
+  return Buffer.from(hexToBytes(ciphertext).slice(0, 24)).toString("hex");
+}
+
+describe("encryptDestination", () => {
+  test("round-trips a destination", () => {
+    const ciphertext = encryptDestination(KEY, RULE_ID, "https://hooks.slack.com/services/T0/B0/x");
+
+    expect(decryptDestination(KEY, RULE_ID, ciphertext)).toBe("https://hooks.slack.com/services/T0/B0/x");
+    // 24-byte nonce + plaintext + 16-byte tag
+    expect(hexToBytes(ciphertext).length).toBe(24 + 40 + 16);
+  });
+
+  test("is deterministic, so every node produces the same report", () => {
+    expect(encryptDestination(KEY, RULE_ID, "123456")).toBe(encryptDestination(KEY, RULE_ID, "123456"));
+  });
+
+  test("uses a new nonce when a rule is updated with a new destination", () => {
+    const before = encryptDestination(KEY, RULE_ID, "123456");
+    const after = encryptDestination(KEY, RULE_ID, "654321");
+
+    expect(nonceOf(after)).not.toBe(nonceOf(before));
+    expect(decryptDestination(KEY, RULE_ID, after)).toBe("654321");
+  });
+
+  test("derives the nonce from the key", () => {
+    const ciphertext = encryptDestination(KEY, RULE_ID, "123456");
+
+    expect(nonceOf(encryptDestination(OTHER_KEY, RULE_ID, "123456"))).not.toBe(nonceOf(ciphertext));
+  });
+});
+
+describe("decryptDestination", () => {
+  const ciphertext = encryptDestination(KEY, RULE_ID, "123456");
+
+  test("rejects a ciphertext copied onto another rule", () => {
+    expect(() => decryptDestination(KEY, OTHER_RULE_ID, ciphertext)).toThrow();
+  });
+
+  test("rejects another key and tampered ciphertexts", () => {
+    const bytes = hexToBytes(ciphertext);
+    bytes[bytes.length - 1] ^= 1;
+
+    expect(() => decryptDestination(OTHER_KEY, RULE_ID, ciphertext)).toThrow();
+    expect(() => decryptDestination(KEY, RULE_ID, `0x${Buffer.from(bytes).toString("hex")}`)).toThrow();
+  });
+
+  test("rejects truncated ciphertexts", () => {
+    expect(() => decryptDestination(KEY, RULE_ID, "0x1234")).toThrow("too short");
+  });
+
+  test("rejects malformed keys", () => {
+    expect(() => decryptDestination("0x1234", RULE_ID, ciphertext)).toThrow("32 bytes of hex");
+  });
+});
+
+describe("validateDestination", () => {
+  test("accepts each channel's destination format", () => {
+    expect(() => validateDestination("webhook", "https://example.com/hook")).not.toThrow();
+    expect(() => validateDestination("telegram", "-1001234567890")).not.toThrow();
+    expect(() => validateDestination("telegram", "@price_alerts")).not.toThrow();
+    expect(() => validateDestination("pushover", "u".repeat(30))).not.toThrow();
+  });
+
+  test("rejects other formats and unknown channels", () => {
+    expect(() => validateDestination("slack", "http://hooks.slack.com/x")).toThrow("Invalid slack destination");
+    expect(() => validateDestination("pushover", "short")).toThrow("Invalid pushover destination");
+    expect(() => validateDestination("email", "a@b.c")).toThrow("Unknown notification channel");
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Notification Destinations
+ *
+ * A rule can carry its own notification destination (webhook URL, Telegram
+ * chat ID, Pushover user key). Destinations are personal data, so they are
+ * never written to the RuleRegistry in plaintext: the HTTP trigger encrypts
+ * them with XChaCha20-Poly1305 under the DESTINATION_ENCRYPTION_KEY secret and
+ * the cron trigger decrypts them right before sending a notification.
+ *
+ * Every node of the DON must produce the same ciphertext (and the same
+ * report), so the nonce cannot be random. It is derived instead from the key,
+ * the rule ID and the destination itself (a synthetic nonce): updating a rule
+ * with a new destination gives a new nonce, so a nonce is never reused for a
+ * different plaintext under the same key. The nonce is stored in front of the
+ * ciphertext. Re-encrypting an unchanged destination gives the same
+ * ciphertext, which only reveals that it did not change. The rule ID is also
+ * bound as associated data, so a ciphertext cannot be copied onto another rule.
+ */
+
+import { xchacha20poly1305 } from "@noble/ciphers/chacha";
+import { type Hex, bytesToHex, concat, hexToBytes, keccak256, toBytes } from "viem";
+import type { NotificationChannelName } from "./notifications";
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Maximum destination length (characters)
+ */
+const MAX_DESTINATION_LENGTH = 512;
+
+/**
+ * Length of the XChaCha20-Poly1305 nonce stored in front of each ciphertext (bytes)
+ */
+const NONCE_LENGTH = 24;
+
+/**
+ * Length of the Poly1305 authentication tag (bytes)
+ */
+const TAG_LENGTH = 16;
+
+/**
+ * Expected destination format per channel
+ */
+const DESTINATION_FORMATS: Record<NotificationChannelName, { pattern: RegExp; description: string }> = {
+  webhook: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// webhook URL" },
+  slack: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// incoming webhook URL" },
+  discord: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// Discord webhook URL" },
+  telegram: { pattern: /^(-?\d+|@[A-Za-z0-9_]{5,})$/, description: "a Telegram chat ID or @channel name" },
+  pushover: { pattern: /^[A-Za-z0-9]{30}$/, description: "a 30-character Pushover user or group key" },
+};
+
+/**
+ * Validates a destination for a channel
+ *
+ * @param channel - Notification channel name
+ * @param destination - Destination to validate
+ * @throws Error if the destination does not match the channel's format
+ */
+export function validateDestination(channel: string, destination: string): void {
+  const format = DESTINATION_FORMATS[channel as NotificationChannelName];
+  if (!format) {
+    throw new Error(`Unknown notification channel: ${channel}`);
+  }
+  if (destination.length > MAX_DESTINATION_LENGTH || !format.pattern.test(destination)) {
+    throw new Error(`Invalid ${channel} destination: must be ${format.description}`);
+  }
+}
+
+// ============================================================================
+// Encryption
+// ============================================================================
+
+/**
+ * Parses the DESTINATION_ENCRYPTION_KEY secret (32 bytes, hex encoded)
+ *
+ * @param keyHex - Secret value, with or without 0x prefix
+ * @returns 32-byte key
+ * @throws Error if the key is not 32 bytes of hex
+ */
+function parseKey(keyHex: string): Uint8Array {
+  const normalized = keyHex.startsWith("0x") ? keyHex : `0x${keyHex}`;
+  if (!/^0x[0-9a-fA-F]{64}$/.test(normalized)) {
+    throw new Error("DESTINATION_ENCRYPTION_KEY must be 32 bytes of hex");
+  }
+  return hexToBytes(normalized as Hex);
+}
+
+/**
+ * Derives the 24-byte nonce of a destination from the key, the rule ID and the plaintext
+ *
+ * The key is hashed in, so the nonce reveals nothing about short destinations
+ * (e.g. chat IDs) that could otherwise be found by hashing candidates.
+ */
+function deriveNonce(key: Uint8Array, ruleId: Hex, plaintext: Uint8Array): Uint8Array {
+  const input = concat([toBytes("destination-nonce:"), key, hexToBytes(ruleId), plaintext]);
+  return hexToBytes(keccak256(input)).slice(0, NONCE_LENGTH);
+}
+
+/**
+ * Encrypts a rule's destination for on-chain storage
+ *
+ * @param keyHex - DESTINATION_ENCRYPTION_KEY secret
+ * @param ruleId - Deterministic rule ID (bytes32)
+ * @param destination - Plaintext destination
+ * @returns Nonce followed by the ciphertext (with authentication tag), as hex
+ */
+export function encryptDestination(keyHex: string, ruleId: Hex, destination: string): Hex {
+  const key = parseKey(keyHex);
+  const plaintext = new TextEncoder().encode(destination);
+  const nonce = deriveNonce(key, ruleId, plaintext);
+  const cipher = xchacha20poly1305(key, nonce, hexToBytes(ruleId));
+  return bytesToHex(concat([nonce, cipher.encrypt(plaintext)]));
+}
+
+/**
+ * Decrypts a rule's destination read from the RuleRegistry
+ *
+ * @param keyHex - DESTINATION_ENCRYPTION_KEY secret
+ * @param ruleId - Deterministic rule ID (bytes32)
+ * @param ciphertext - Encrypted destination stored on the rule (nonce followed by the ciphertext)
+ * @returns Plaintext destination
+ * @throws Error if the ciphertext is truncated or was not produced for this rule and key
+ */
+export function decryptDestination(keyHex: string, ruleId: Hex, ciphertext: Hex): string {
+  const bytes = hexToBytes(ciphertext);
+  if (bytes.length < NONCE_LENGTH + TAG_LENGTH) {
+    throw new Error("Encrypted destination is too short");
+  }
+  const cipher = xchacha20poly1305(parseKey(keyHex), bytes.slice(0, NONCE_LENGTH), hexToBytes(ruleId));
+  return new TextDecoder().decode(cipher.decrypt(bytes.slice(NONCE_LENGTH)));
+}
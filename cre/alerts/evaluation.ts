@@ -0,0 +1,344 @@
+/**
+ * Rule Evaluation
+ *
+ * Pure functions that decide what the cron trigger does with a rule: price
+ * validation, condition checks, trigger state transitions and notification
+ * content. They take prices, rules and the current time as arguments and make
+ * no capability calls (see clients.ts), so they behave the same in a DON, in
+ * a simulation and against the in-memory fakes of fakes.ts.
+ */
+
+import type { EvmConfig, PriceData, Rule } from "./types";
+import type { AlertNotification } from "./notifications";
+import { formatPercent, formatUsdPrice } from "./price";
+
+// ============================================================================
+// Price Validation
+// ============================================================================
+
+/**
+ * Validates price feed round data before it is used to evaluate rules
+ * 
+ * Rejects rounds that are incomplete (updatedAt is 0 or the answer was carried
+ * over from an earlier round), answers that are zero or negative, and answers
+ * older than the asset's maxStalenessSeconds.
+ * 
+ * @param data - Latest round data from the price feed
+ * @param maxStalenessSeconds - Maximum accepted age of the answer (seconds)
+ * @param now - Current UNIX timestamp (seconds)
+ * @returns Rejection reason, or null if the price can be used
+ */
+export function validatePriceData(
+  data: PriceData,
+  maxStalenessSeconds: number,
+  now: bigint
+): string | null {
+  if (data.answer <= 0n) {
+    return `non-positive answer (${data.answer.toString()})`;
+  }
+  if (data.updatedAt === 0n) {
+    return "incomplete round (updatedAt is 0)";
+  }
+  if (data.answeredInRound < data.roundId) {
+    return `incomplete round (answered in round ${data.answeredInRound.toString()}, latest round ${data.roundId.toString()})`;
+  }
+  const age = now - data.updatedAt;
+  if (age > BigInt(maxStalenessSeconds)) {
+    return `stale price (updated ${age.toString()}s ago, max ${maxStalenessSeconds}s)`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Conditions
+// ============================================================================
+
+/**
+ * Checks if the move of a change rule reached its threshold
+ * 
+ * @param change - Observed percent change over the window (8 decimals, signed)
+ * @param threshold - Percent threshold of the rule (8 decimals)
+ * @param direction - Move direction (up, down, any)
+ * @returns true if the move reached the threshold in the rule's direction
+ */
+export function checkChangeCondition(
+  change: bigint,
+  threshold: bigint,
+  direction: string
+): boolean {
+  switch (direction) {
+    case "up":
+      return change >= threshold;
+    case "down":
+      return -change >= threshold;
+    case "any":
+      return change >= threshold || -change >= threshold;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Formats a window length for logs and notifications (e.g. "1h", "15m", "90s")
+ */
+export function formatWindow(seconds: bigint): string {
+  if (seconds > 0n && seconds % 3600n === 0n) {
+    return `${(seconds / 3600n).toString()}h`;
+  }
+  if (seconds > 0n && seconds % 60n === 0n) {
+    return `${(seconds / 60n).toString()}m`;
+  }
+  return `${seconds.toString()}s`;
+}
+
+/**
+ * Converts condition string to mathematical symbol
+ * 
+ * @param condition - Condition string (gt, lt, gte, lte)
+ * @returns Mathematical symbol (>, <, >=, <=), or the condition itself for bands
+ */
+function getConditionSymbol(condition: string): string {
+  const conditionMap: Record<string, string> = {
+    gt: ">",
+    gte: ">=",
+    lt: "<",
+    lte: "<=",
+  };
+  return conditionMap[condition.toLowerCase()] || condition;
+}
+
+/**
+ * Checks if a price condition is met
+ * 
+ * Both prices are fixed-point with 8 decimals, so fractional prices are
+ * compared exactly. Band conditions use the target price as the lower bound:
+ * "between" includes both bounds, "outside" excludes them, so a price is
+ * always matched by exactly one of the two.
+ * 
+ * @param currentPrice - Current price in USD (8 decimals), or the current ratio of a ratio rule
+ * @param targetPrice - Target price in USD (8 decimals), lower bound for bands
+ * @param upperPrice - Upper bound in USD (8 decimals, only used by between/outside)
+ * @param condition - Condition string (gt, lt, gte, lte, between, outside)
+ * @returns true if condition is met, false otherwise
+ */
+export function checkCondition(
+  currentPrice: bigint,
+  targetPrice: bigint,
+  upperPrice: bigint,
+  condition: string
+): boolean {
+  switch (condition) {
+    case "gt":
+      return currentPrice > targetPrice;
+    case "lt":
+      return currentPrice < targetPrice;
+    case "gte":
+      return currentPrice >= targetPrice;
+    case "lte":
+      return currentPrice <= targetPrice;
+    case "between":
+      return currentPrice >= targetPrice && currentPrice <= upperPrice;
+    case "outside":
+      return currentPrice < targetPrice || currentPrice > upperPrice;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Whether a condition compares the price with a band instead of a single target
+ */
+function isBandCondition(condition: string): boolean {
+  return condition === "between" || condition === "outside";
+}
+
+/**
+ * Names what a rule watches: the asset, or the pair of a ratio rule (e.g. "ETH/BTC")
+ */
+export function describeMarket(rule: Rule): string {
+  return rule.quoteAsset ? `${rule.asset}/${rule.quoteAsset}` : rule.asset;
+}
+
+/**
+ * Formats a price or target of a rule: USD with the asset's display decimals,
+ * or a plain ratio for ratio rules (e.g. "$60,000.00", "0.045")
+ *
+ * @param rule - Rule the value belongs to
+ * @param value - Fixed-point value with 8 decimals
+ * @param displayDecimals - Minimum decimals shown for the asset
+ * @returns Formatted value
+ */
+export function formatRuleValue(rule: Rule, value: bigint, displayDecimals: number): string {
+  return rule.quoteAsset ? formatUsdPrice(value) : `$${formatUsdPrice(value, displayDecimals)}`;
+}
+
+/**
+ * Describes the target of a rule for logs and notifications
+ * 
+ * @param rule - Rule to describe
+ * @param displayDecimals - Minimum decimals shown for the asset
+ * @returns Description (e.g. "> $59,000.00", "between $58,000.00 and $60,000.00", "< 0.045", "up 8.00% within 1h")
+ */
+export function describeTarget(rule: Rule, displayDecimals: number): string {
+  if (rule.condition === "change") {
+    const move = rule.direction === "any" ? "moves" : rule.direction;
+    return `${move} ${formatUsdPrice(rule.changePercent)}% within ${formatWindow(rule.windowSeconds)}`;
+  }
+  const target = formatRuleValue(rule, rule.targetPriceUsd, displayDecimals);
+  if (isBandCondition(rule.condition)) {
+    return `${rule.condition} ${target} and ${formatRuleValue(rule, rule.upperPriceUsd, displayDecimals)}`;
+  }
+  return `${getConditionSymbol(rule.condition)} ${target}`;
+}
+
+// ============================================================================
+// Trigger State
+// ============================================================================
+
+/**
+ * Result of evaluating a rule's trigger state
+ */
+export type TriggerDecision = {
+  /** Whether a notification should be sent */
+  notify: boolean;
+  /** New on-chain state to write (undefined if unchanged) */
+  nextState?: { armed: boolean; lastTriggeredAt: bigint };
+  /** Human-readable reason for the decision (for logging) */
+  reason: string;
+};
+
+/**
+ * Returns the UNIX timestamp (seconds) after which a rule is no longer checked
+ *
+ * Rules choose their own expiry when they are created; rules written before
+ * per-rule expiry (expiresAt = 0) fall back to the default ruleTTL.
+ *
+ * @param rule - Rule to check
+ * @param ruleTTL - Default rule lifetime in seconds
+ * @returns Expiry timestamp
+ */
+export function getRuleExpiry(rule: Rule, ruleTTL: bigint): bigint {
+  return rule.expiresAt > 0n ? rule.expiresAt : rule.createdAt + ruleTTL;
+}
+
+/**
+ * Decides whether a rule should notify, based on its trigger mode and state
+ *
+ * - once: notifies while armed, then disarms permanently
+ * - crossing: notifies while armed, disarms until the condition is no longer met
+ * - cooldown: notifies if at least cooldownSeconds passed since the last notification
+ *
+ * @param rule - Rule to evaluate
+ * @param conditionMet - Whether the price condition is currently met
+ * @param now - Current UNIX timestamp (seconds)
+ * @returns Trigger decision
+ */
+export function evaluateTriggerState(
+  rule: Rule,
+  conditionMet: boolean,
+  now: bigint
+): TriggerDecision {
+  const mode = rule.triggerMode || "once";
+
+  if (!conditionMet) {
+    // Crossing rules re-arm once the condition flips back
+    if (mode === "crossing" && !rule.armed) {
+      return {
+        notify: false,
+        nextState: { armed: true, lastTriggeredAt: rule.lastTriggeredAt },
+        reason: "condition no longer met, re-arming",
+      };
+    }
+    return { notify: false, reason: "condition not met" };
+  }
+
+  switch (mode) {
+    case "once":
+    case "crossing":
+      if (!rule.armed) {
+        return {
+          notify: false,
+          reason:
+            mode === "once"
+              ? "already triggered"
+              : "already triggered, waiting for condition to reset",
+        };
+      }
+      return {
+        notify: true,
+        nextState: { armed: false, lastTriggeredAt: now },
+        reason: "condition met",
+      };
+    case "cooldown": {
+      const elapsed = now - rule.lastTriggeredAt;
+      if (rule.lastTriggeredAt > 0n && elapsed < rule.cooldownSeconds) {
+        return {
+          notify: false,
+          reason: `cooldown active (${(rule.cooldownSeconds - elapsed).toString()}s remaining)`,
+        };
+      }
+      return {
+        notify: true,
+        nextState: { armed: true, lastTriggeredAt: now },
+        reason: "condition met",
+      };
+    }
+    default:
+      return { notify: false, reason: `unknown trigger mode: ${mode}` };
+  }
+}
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+/**
+ * Builds the notification content for a triggered rule
+ * 
+ * @param rule - The rule that triggered the alert
+ * @param currentPrice - Current price of the rule's asset (8 decimals), or the current ratio of a ratio rule
+ * @param displayDecimals - Minimum decimals shown for the asset
+ * @param evm - EVM configuration of the rule's chain
+ * @param triggeredAt - UNIX timestamp (seconds) when the rule fired
+ * @param change - Observed percent change over the window (change rules only)
+ * @returns Channel-agnostic notification
+ */
+export function buildAlertNotification(
+  rule: Rule,
+  currentPrice: bigint,
+  displayDecimals: number,
+  evm: EvmConfig,
+  triggeredAt: bigint,
+  change?: bigint
+): AlertNotification {
+  // Prices and rule targets both use 8 decimals (ratios are shown with all significant decimals)
+  const decimals = rule.quoteAsset ? undefined : displayDecimals;
+  const formattedCurrentPrice = formatUsdPrice(currentPrice, decimals);
+  const formattedTargetPrice = formatUsdPrice(rule.targetPriceUsd, decimals);
+  const formattedUpperPrice = isBandCondition(rule.condition)
+    ? formatUsdPrice(rule.upperPriceUsd, decimals)
+    : undefined;
+  const currentValue = formatRuleValue(rule, currentPrice, displayDecimals);
+
+  const message =
+    change === undefined
+      ? `${describeMarket(rule)} is now ${currentValue} (alert target: ${describeTarget(rule, displayDecimals)})`
+      : `${rule.asset} moved ${formatPercent(change)} in ${formatWindow(rule.windowSeconds)} to ${currentValue} (alert: ${describeTarget(rule, displayDecimals)})`;
+
+  return {
+    title: "CRE PRICE ALERT",
+    message,
+    ruleId: rule.id,
+    payer: rule.payer,
+    asset: rule.asset,
+    quoteAsset: rule.quoteAsset || undefined,
+    condition: rule.condition,
+    priceUsd: formattedCurrentPrice,
+    targetPriceUsd: formattedTargetPrice,
+    upperPriceUsd: formattedUpperPrice,
+    changePercent: change === undefined ? undefined : formatPercent(change),
+    windowSeconds: change === undefined ? undefined : Number(rule.windowSeconds),
+    chain: evm.chainSelectorName,
+    triggeredAt: Number(triggeredAt),
+  };
+}
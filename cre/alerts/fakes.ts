@@ -0,0 +1,446 @@
+/**
+ * In-Memory Fakes
+ *
+ * Implementations of the workflow clients (see clients.ts) that keep their
+ * state in memory, so the trigger handlers can run offline, without the CRE
+ * CLI, an RPC or notification endpoints:
+ *
+ * - createFakeRuleRegistry: applies reports like RuleRegistry._processReport
+ *   (create, state, cancel, update, deactivate), including its active set
+ * - createFakePriceFeeds: Chainlink feed rounds added by the caller
+ * - createFakeNotificationEndpoint: records the request each notification would send
+ * - createFakeRuntime: workflow config, collected logs and a fixed DON time
+ *
+ * Handlers are built with the same factories as the deployed ones:
+ *
+ *   const registry = createFakeRuleRegistry();
+ *   const clients = createFakeClients({ registries: { [chain]: registry }, ... });
+ *   const onCronTrigger = createCronTriggerHandler(() => clients);
+ *   onCronTrigger(createFakeRuntime(config), { scheduledExecutionTime: ... });
+ */
+
+import {
+  type Address,
+  type Hex,
+  concat,
+  decodeAbiParameters,
+  keccak256,
+  parseAbiParameters,
+  toHex,
+  zeroAddress,
+} from "viem";
+import type { Config, PriceData, Rule } from "./types";
+import {
+  REPORT_TYPE_CANCEL,
+  REPORT_TYPE_CREATE,
+  REPORT_TYPE_DEACTIVATE,
+  REPORT_TYPE_STATE,
+  REPORT_TYPE_UPDATE,
+  RULE_COMPONENTS,
+} from "./reports";
+import {
+  type AlertNotification,
+  type NotificationChannelName,
+  buildNotificationRequest,
+} from "./notifications";
+import type {
+  ChainClients,
+  NotificationClient,
+  PriceFeedClient,
+  RuleRegistryClient,
+  WorkflowClients,
+  WorkflowRuntime,
+} from "./clients";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Report written to a fake registry
+ */
+export type FakeReport = {
+  /** Report type (one of the REPORT_TYPE_* constants) */
+  reportType: number;
+  /** ABI-encoded report data */
+  data: Hex;
+  /** Fake transaction hash returned to the writer */
+  txHash: Hex;
+};
+
+/**
+ * In-memory RuleRegistry
+ */
+export type FakeRuleRegistry = RuleRegistryClient & {
+  /** All rules, in incremental rule ID order */
+  rules: Rule[];
+  /** Reports applied so far, oldest first */
+  reports: FakeReport[];
+  /** Error message of the next writes (e.g. to simulate a reverted transaction); null to apply them */
+  writeError: string | null;
+};
+
+/**
+ * In-memory Chainlink price feeds
+ */
+export type FakePriceFeeds = PriceFeedClient & {
+  /**
+   * Adds a round to a feed (creating the feed on its first round)
+   *
+   * @param feedAddress - Price feed address
+   * @param answer - Feed answer (in the feed's decimals)
+   * @param updatedAt - UNIX timestamp (seconds) of the round
+   * @returns Round data of the new round
+   */
+  addRound(feedAddress: string, answer: bigint, updatedAt: bigint): PriceData;
+};
+
+/**
+ * Notification recorded by a fake endpoint
+ */
+export type SentNotification = {
+  /** Channel the notification was sent through */
+  channel: NotificationChannelName;
+  /** Request URL */
+  url: string;
+  /** JSON request body */
+  body: unknown;
+  /** Notification content */
+  notification: AlertNotification;
+};
+
+/**
+ * In-memory notification endpoint
+ */
+export type FakeNotificationEndpoint = NotificationClient & {
+  /** Notifications sent so far, oldest first */
+  sent: SentNotification[];
+  /** Response status of the next requests (default: 200) */
+  statusCode: number;
+  /** Response body of the next requests (default: a success reply of every channel) */
+  responseText: string;
+};
+
+/**
+ * Workflow runtime that collects its logs
+ */
+export type FakeRuntime = WorkflowRuntime & {
+  /** Logged messages, oldest first */
+  logs: string[];
+};
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Round ID of the first round of a fake feed (phase 1, aggregator round 1)
+ */
+const FIRST_ROUND_ID = (1n << 64n) | 1n;
+
+/**
+ * Response body accepted by every channel that checks it (Pushover and Telegram)
+ */
+const SUCCESS_RESPONSE = JSON.stringify({ status: 1, ok: true });
+
+// ============================================================================
+// Rule Registry
+// ============================================================================
+
+/**
+ * Creates an in-memory RuleRegistry
+ *
+ * Reports are decoded and applied with the checks of the contract, which are
+ * thrown as errors with the contract's revert messages. The active set is kept
+ * in the same order as the contract's (removal moves the last rule into the
+ * freed slot), so pagination behaves the same.
+ *
+ * @param rules - Rules already in the registry (all active unless cancelled or spent)
+ * @returns FakeRuleRegistry instance
+ */
+export function createFakeRuleRegistry(rules: Rule[] = []): FakeRuleRegistry {
+  const activeRuleIds: number[] = [];
+
+  const findRule = (id: Hex): number => {
+    const ruleId = registry.rules.findIndex((rule) => rule.id === id);
+    if (ruleId === -1) {
+      throw new Error("RuleRegistry: rule does not exist");
+    }
+    return ruleId;
+  };
+  const activate = (ruleId: number) => {
+    if (!activeRuleIds.includes(ruleId)) {
+      activeRuleIds.push(ruleId);
+    }
+  };
+  const deactivate = (ruleId: number) => {
+    const position = activeRuleIds.indexOf(ruleId);
+    if (position !== -1) {
+      activeRuleIds[position] = activeRuleIds[activeRuleIds.length - 1];
+      activeRuleIds.pop();
+    }
+  };
+  const isOnceRule = (rule: Rule) => rule.triggerMode === "once" || rule.triggerMode === "";
+  const decodeRule = (data: Hex) =>
+    decodeAbiParameters([{ type: "tuple", components: RULE_COMPONENTS }], data)[0] as Rule;
+
+  const applyReport = (reportType: number, data: Hex) => {
+    switch (reportType) {
+      case REPORT_TYPE_CREATE: {
+        const rule = decodeRule(data);
+        if (registry.rules.some((existing) => existing.id === rule.id)) {
+          throw new Error("RuleRegistry: rule already exists");
+        }
+        if (rule.payer === zeroAddress) {
+          throw new Error("RuleRegistry: missing payer");
+        }
+        if (rule.expiresAt !== 0n && rule.expiresAt <= rule.createdAt) {
+          throw new Error("RuleRegistry: invalid expiry");
+        }
+        registry.rules.push({ ...rule, armed: true, lastTriggeredAt: 0n, cancelled: false });
+        activate(registry.rules.length - 1);
+        return;
+      }
+      case REPORT_TYPE_STATE: {
+        const [id, armed, lastTriggeredAt] = decodeAbiParameters(
+          parseAbiParameters("bytes32 id, bool armed, uint256 lastTriggeredAt"),
+          data
+        );
+        const ruleId = findRule(id);
+        const rule = registry.rules[ruleId];
+        registry.rules[ruleId] = { ...rule, armed, lastTriggeredAt };
+        if (!armed && isOnceRule(rule)) {
+          deactivate(ruleId);
+        }
+        return;
+      }
+      case REPORT_TYPE_CANCEL: {
+        const [id] = decodeAbiParameters(parseAbiParameters("bytes32 id"), data);
+        const ruleId = findRule(id);
+        if (registry.rules[ruleId].cancelled) {
+          throw new Error("RuleRegistry: rule is cancelled");
+        }
+        registry.rules[ruleId] = { ...registry.rules[ruleId], cancelled: true, armed: false };
+        deactivate(ruleId);
+        return;
+      }
+      case REPORT_TYPE_UPDATE: {
+        const update = decodeRule(data);
+        const ruleId = findRule(update.id);
+        const rule = registry.rules[ruleId];
+        if (rule.cancelled) {
+          throw new Error("RuleRegistry: rule is cancelled");
+        }
+        // Payer, payment, assets, creation time and expiry are kept (see RuleRegistry.updateRule)
+        registry.rules[ruleId] = {
+          ...update,
+          payer: rule.payer,
+          paymentTxHash: rule.paymentTxHash,
+          asset: rule.asset,
+          quoteAsset: rule.quoteAsset,
+          createdAt: rule.createdAt,
+          expiresAt: rule.expiresAt,
+          armed: true,
+          lastTriggeredAt: 0n,
+          cancelled: false,
+        };
+        activate(ruleId);
+        return;
+      }
+      case REPORT_TYPE_DEACTIVATE: {
+        const [ids] = decodeAbiParameters(parseAbiParameters("bytes32[] ids"), data);
+        // Resolve every ID first: the contract reverts the whole report on an unknown one
+        ids.map(findRule).forEach(deactivate);
+        return;
+      }
+      default:
+        throw new Error("RuleRegistry: unknown report type");
+    }
+  };
+
+  const registry: FakeRuleRegistry = {
+    rules: [],
+    reports: [],
+    writeError: null,
+
+    getActiveRuleCount() {
+      return BigInt(activeRuleIds.length);
+    },
+
+    getActiveRulesRange(offset, limit) {
+      return activeRuleIds
+        .slice(Number(offset), Number(offset + limit))
+        .map((ruleId) => registry.rules[ruleId]);
+    },
+
+    getActiveRuleCountByPayer(payer: Address) {
+      const payerRuleIds = activeRuleIds.filter(
+        (ruleId) => registry.rules[ruleId].payer.toLowerCase() === payer.toLowerCase()
+      );
+      return BigInt(payerRuleIds.length);
+    },
+
+    writeReport(report) {
+      if (registry.writeError !== null) {
+        throw new Error(registry.writeError);
+      }
+      const [reportType, data] = decodeAbiParameters(
+        parseAbiParameters("uint8 reportType, bytes data"),
+        report
+      );
+      applyReport(reportType, data);
+
+      const txHash = keccak256(concat([report, toHex(registry.reports.length, { size: 32 })]));
+      registry.reports.push({ reportType, data, txHash });
+      return txHash;
+    },
+  };
+
+  for (const rule of rules) {
+    registry.rules.push(rule);
+    if (!rule.cancelled && !(isOnceRule(rule) && !rule.armed)) {
+      activate(registry.rules.length - 1);
+    }
+  }
+
+  return registry;
+}
+
+// ============================================================================
+// Price Feeds
+// ============================================================================
+
+/**
+ * Creates in-memory Chainlink price feeds
+ *
+ * Round IDs count up from the first round of phase 1, so price history reads
+ * stop at the feed's first round like on a real feed.
+ *
+ * @returns FakePriceFeeds instance
+ */
+export function createFakePriceFeeds(): FakePriceFeeds {
+  const feeds = new Map<string, PriceData[]>();
+
+  return {
+    addRound(feedAddress, answer, updatedAt) {
+      const rounds = feeds.get(feedAddress.toLowerCase()) ?? [];
+      const roundId = FIRST_ROUND_ID + BigInt(rounds.length);
+      const round = { roundId, answer, startedAt: updatedAt, updatedAt, answeredInRound: roundId };
+      rounds.push(round);
+      feeds.set(feedAddress.toLowerCase(), rounds);
+      return round;
+    },
+
+    getRoundData(feedAddress, roundId) {
+      const rounds = feeds.get(feedAddress.toLowerCase());
+      if (!rounds || rounds.length === 0) {
+        throw new Error(`No rounds for price feed ${feedAddress}`);
+      }
+      if (roundId === undefined) {
+        return rounds[rounds.length - 1];
+      }
+      const round = rounds.find((entry) => entry.roundId === roundId);
+      if (!round) {
+        throw new Error(`No round ${roundId.toString()} for price feed ${feedAddress}`);
+      }
+      return round;
+    },
+  };
+}
+
+// ============================================================================
+// Notifications
+// ============================================================================
+
+/**
+ * Creates an in-memory notification endpoint
+ *
+ * Builds each channel's request like the deployed workflow, records it, and
+ * checks the configured response the way the channel does.
+ *
+ * @returns FakeNotificationEndpoint instance
+ */
+export function createFakeNotificationEndpoint(): FakeNotificationEndpoint {
+  const endpoint: FakeNotificationEndpoint = {
+    sent: [],
+    statusCode: 200,
+    responseText: SUCCESS_RESPONSE,
+
+    send(channel, notification, destination, secrets) {
+      const request = buildNotificationRequest(channel, notification, destination, secrets);
+      if (endpoint.statusCode < 200 || endpoint.statusCode >= 300) {
+        throw new Error(`${channel.name} request failed with status: ${endpoint.statusCode}`);
+      }
+      channel.checkResponse?.(endpoint.responseText);
+
+      endpoint.sent.push({ channel: channel.name, url: request.url, body: request.body, notification });
+      return { statusCode: endpoint.statusCode };
+    },
+  };
+
+  return endpoint;
+}
+
+// ============================================================================
+// Runtime & Clients
+// ============================================================================
+
+/**
+ * Creates a workflow runtime that collects its logs
+ *
+ * @param config - Workflow configuration
+ * @param now - DON time (only used when neither simulationTimestamp nor the trigger sets the time)
+ * @returns FakeRuntime instance
+ */
+export function createFakeRuntime(config: Config, now: Date = new Date(0)): FakeRuntime {
+  const logs: string[] = [];
+
+  return {
+    config,
+    logs,
+    log(message) {
+      logs.push(message);
+    },
+    now() {
+      return now;
+    },
+  };
+}
+
+/**
+ * Creates workflow clients from fakes
+ *
+ * @param fakes - Fake registry and price feeds per chain (keyed by chain selector name),
+ *        notification endpoint and secret values
+ * @returns WorkflowClients instance
+ */
+export function createFakeClients(fakes: {
+  registries: Record<string, FakeRuleRegistry>;
+  priceFeeds: Record<string, FakePriceFeeds>;
+  notifications?: FakeNotificationEndpoint;
+  secrets?: Record<string, string>;
+}): WorkflowClients {
+  const notifications = fakes.notifications ?? createFakeNotificationEndpoint();
+  const secrets = fakes.secrets ?? {};
+
+  return {
+    chain(evm): ChainClients {
+      const registry = fakes.registries[evm.chainSelectorName];
+      const priceFeeds = fakes.priceFeeds[evm.chainSelectorName];
+      if (!registry || !priceFeeds) {
+        throw new Error(`Network not found: ${evm.chainSelectorName}`);
+      }
+      return { registry, priceFeeds };
+    },
+
+    notifications,
+
+    getSecret(id) {
+      const value = secrets[id];
+      if (value === undefined) {
+        throw new Error(`Secret not found: ${id}`);
+      }
+      return value;
+    },
+  };
+}
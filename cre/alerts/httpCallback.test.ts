@@ -0,0 +1,275 @@
+/**
+ * HTTP Trigger Tests
+ *
+ * Payloads as the server forwards them (see server/src/creDispatcher.ts) are
+ * written to the in-memory registry of fakes.ts, which applies each report
+ * with the checks of RuleRegistry.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { zeroHash } from "viem";
+import { decryptDestination } from "./destinations";
+import {
+  type FakeRuleRegistry,
+  createFakeClients,
+  createFakePriceFeeds,
+  createFakeRuleRegistry,
+  createFakeRuntime,
+} from "./fakes";
+import { createHttpTriggerHandler } from "./httpCallback";
+import { REPORT_TYPE_CANCEL, REPORT_TYPE_CREATE, REPORT_TYPE_UPDATE } from "./reports";
+import type { Config } from "./types";
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+const CHAIN = "ethereum-testnet-sepolia-base-1";
+const PAYER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const OTHER_PAYER = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+const SETTLEMENT_TX = `0x${"9a".repeat(32)}`;
+const ENCRYPTION_KEY = `0x${"01".repeat(32)}`;
+const CREATED_AT = 1765000000;
+
+const CONFIG: Config = {
+  schedule: "0 0 * * * *",
+  publicKey: "",
+  webhookUrl: "",
+  ruleTTL: 1800,
+  minRuleTTL: 300,
+  maxRuleTTL: 86400,
+  notificationChannels: ["webhook", "telegram"],
+  evms: [
+    {
+      ruleRegistryAddress: "0x9B9fC1EeF6BFC76CD07501Ae81b66f24fAB322B1",
+      chainSelectorName: CHAIN,
+      gasLimit: "1000000",
+      assets: [
+        {
+          symbol: "BTC",
+          feedAddress: "0x0FB99723Aee6f420beAD13e6bBB79b7E6F034298",
+          decimals: 8,
+          displayDecimals: 2,
+          maxStalenessSeconds: 3600,
+        },
+        {
+          symbol: "ETH",
+          feedAddress: "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1",
+          decimals: 8,
+          displayDecimals: 2,
+          maxStalenessSeconds: 3600,
+        },
+      ],
+    },
+  ],
+};
+
+/**
+ * Returns a create payload (BTC above $80,000), with fields overridden
+ */
+function alertPayload(index: number, fields: Record<string, unknown> = {}) {
+  return {
+    action: "create",
+    id: index.toString(16).padStart(64, "0"),
+    payer: PAYER,
+    settlementTxHash: SETTLEMENT_TX,
+    asset: "BTC",
+    condition: "gt",
+    targetPriceUsd: "80000",
+    createdAt: CREATED_AT,
+    expiresAt: CREATED_AT + 3600,
+    triggerMode: "once",
+    cooldownSeconds: 0,
+    chain: CHAIN,
+    ...fields,
+  };
+}
+
+/**
+ * Sends a payload to the HTTP trigger handler
+ *
+ * @returns Transaction hash returned by the handler
+ */
+function trigger(registry: FakeRuleRegistry, payload: object, config: Partial<Config> = {}): string {
+  const clients = createFakeClients({
+    registries: { [CHAIN]: registry },
+    priceFeeds: { [CHAIN]: createFakePriceFeeds() },
+    secrets: { DESTINATION_ENCRYPTION_KEY: ENCRYPTION_KEY },
+  });
+  const runtime = createFakeRuntime({ ...CONFIG, ...config });
+  return createHttpTriggerHandler(() => clients)(runtime, {
+    input: new TextEncoder().encode(JSON.stringify(payload)),
+  });
+}
+
+// ============================================================================
+// Create, Update & Cancel
+// ============================================================================
+
+describe("actions", () => {
+  test("creates a rule with its payer and settlement transaction", () => {
+    const registry = createFakeRuleRegistry();
+
+    const txHash = trigger(registry, alertPayload(1));
+
+    expect(registry.reports.map((report) => report.reportType)).toEqual([REPORT_TYPE_CREATE]);
+    expect(txHash).toBe(registry.reports[0].txHash);
+    expect(registry.rules[0]).toMatchObject({
+      id: `0x${"0".repeat(63)}1`,
+      payer: PAYER,
+      paymentTxHash: SETTLEMENT_TX,
+      targetPriceUsd: 8000000000000n,
+      createdAt: BigInt(CREATED_AT),
+      expiresAt: BigInt(CREATED_AT + 3600),
+      armed: true,
+      destination: "0x",
+    });
+    expect(registry.getActiveRuleCount()).toBe(1n);
+  });
+
+  test("records an unknown settlement as the zero hash and defaults the expiry to ruleTTL", () => {
+    const registry = createFakeRuleRegistry();
+
+    trigger(registry, alertPayload(1, { settlementTxHash: undefined, expiresAt: undefined }));
+
+    expect(registry.rules[0].paymentTxHash).toBe(zeroHash);
+    expect(registry.rules[0].expiresAt).toBe(BigInt(CREATED_AT + CONFIG.ruleTTL));
+  });
+
+  test("stores per-rule destinations encrypted", () => {
+    const registry = createFakeRuleRegistry();
+
+    trigger(registry, alertPayload(1, { channel: "telegram", destination: "-1001234567890" }));
+
+    const rule = registry.rules[0];
+    expect(rule.destination).not.toContain("1001234567890");
+    expect(decryptDestination(ENCRYPTION_KEY, rule.id, rule.destination)).toBe("-1001234567890");
+  });
+
+  test("updates a rule and re-arms it, keeping its payer and expiry", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1));
+    registry.rules[0] = { ...registry.rules[0], armed: false, lastTriggeredAt: 1n };
+
+    trigger(
+      registry,
+      alertPayload(1, {
+        action: "update",
+        payer: OTHER_PAYER,
+        condition: "between",
+        targetPriceUsd: "70000",
+        upperPriceUsd: "75000",
+        triggerMode: "crossing",
+      })
+    );
+
+    expect(registry.reports.map((report) => report.reportType)).toEqual([REPORT_TYPE_CREATE, REPORT_TYPE_UPDATE]);
+    expect(registry.rules[0]).toMatchObject({
+      payer: PAYER,
+      condition: "between",
+      targetPriceUsd: 7000000000000n,
+      upperPriceUsd: 7500000000000n,
+      triggerMode: "crossing",
+      expiresAt: BigInt(CREATED_AT + 3600),
+      armed: true,
+      lastTriggeredAt: 0n,
+    });
+  });
+
+  test("cancels a rule with only its ID", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1));
+
+    trigger(registry, { action: "cancel", id: alertPayload(1).id, chain: CHAIN });
+
+    expect(registry.reports.map((report) => report.reportType)).toEqual([REPORT_TYPE_CREATE, REPORT_TYPE_CANCEL]);
+    expect(registry.rules[0].cancelled).toBe(true);
+    expect(registry.getActiveRuleCount()).toBe(0n);
+    // Cancelled rules cannot be edited
+    expect(() => trigger(registry, alertPayload(1, { action: "update" }))).toThrow("rule is cancelled");
+  });
+
+  test("rejects duplicate creates and edits of unknown rules", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1));
+
+    expect(() => trigger(registry, alertPayload(1))).toThrow("rule already exists");
+    expect(() => trigger(registry, alertPayload(2, { action: "update" }))).toThrow("rule does not exist");
+  });
+});
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+describe("payload validation", () => {
+  test("rejects invalid payers, settlements and actions", () => {
+    const registry = createFakeRuleRegistry();
+
+    expect(() => trigger(registry, alertPayload(1, { payer: "0x1234" }))).toThrow("Invalid payer");
+    expect(() => trigger(registry, alertPayload(1, { settlementTxHash: "0x12" }))).toThrow("Invalid settlementTxHash");
+    expect(() => trigger(registry, alertPayload(1, { action: "pause" }))).toThrow("Invalid action: pause");
+    expect(registry.reports).toEqual([]);
+  });
+
+  test("rejects lifetimes outside minRuleTTL-maxRuleTTL", () => {
+    const registry = createFakeRuleRegistry();
+
+    expect(() => trigger(registry, alertPayload(1, { expiresAt: CREATED_AT + 60 }))).toThrow(
+      "The rule lifetime must be between 300 and 86400 seconds"
+    );
+    expect(() => trigger(registry, alertPayload(1, { expiresAt: CREATED_AT + 86401 }))).toThrow("Invalid expiresAt");
+  });
+
+  test("rejects invalid bands, channels and assets outside the catalog", () => {
+    const registry = createFakeRuleRegistry();
+
+    expect(() =>
+      trigger(registry, alertPayload(1, { condition: "between", targetPriceUsd: "2", upperPriceUsd: "1" }))
+    ).toThrow("upperPriceUsd must be greater than targetPriceUsd");
+    expect(() => trigger(registry, alertPayload(1, { channel: "slack" }))).toThrow("Notification channel not enabled");
+    expect(() => trigger(registry, alertPayload(1, { asset: "LINK" }))).toThrow("Unsupported asset");
+  });
+});
+
+// ============================================================================
+// Per-Payer Limit
+// ============================================================================
+
+describe("per-payer limit", () => {
+  const config = { maxActiveRulesPerPayer: 2 };
+
+  test("rejects creates beyond maxActiveRulesPerPayer", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1), config);
+    trigger(registry, alertPayload(2), config);
+
+    expect(() => trigger(registry, alertPayload(3), config)).toThrow(
+      `Payer ${PAYER} already has 2 active rules on ${CHAIN} (limit: 2)`
+    );
+    // Other payers have their own limit
+    trigger(registry, alertPayload(4, { payer: OTHER_PAYER }), config);
+    expect(registry.getActiveRuleCountByPayer(OTHER_PAYER)).toBe(1n);
+  });
+
+  test("frees a slot when a rule is cancelled", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1), config);
+    trigger(registry, alertPayload(2), config);
+
+    trigger(registry, { action: "cancel", id: alertPayload(1).id, chain: CHAIN }, config);
+
+    trigger(registry, alertPayload(3), config);
+    expect(registry.getActiveRuleCountByPayer(PAYER)).toBe(2n);
+  });
+
+  test("does not count updates against the limit", () => {
+    const registry = createFakeRuleRegistry();
+    trigger(registry, alertPayload(1), config);
+    trigger(registry, alertPayload(2), config);
+
+    expect(() =>
+      trigger(registry, alertPayload(2, { action: "update", targetPriceUsd: "90000" }), config)
+    ).not.toThrow();
+  });
+});
@@ -6,127 +6,346 @@
  * using Chainlink CRE reports.
  * 
  * Flow:
- * 1. Decode alert data from HTTP payload
+ * 1. Decode alert data from HTTP payload and select the target chain
  * 2. Encode alert data for CRE report
- * 3. Generate CRE report
- * 4. Write report to RuleRegistry contract
+ * 3. Generate CRE report and write it to RuleRegistry contract
+ *
+ * Payloads carry an action: "create" (default) writes a new rule, "update"
+ * edits it and "cancel" stops it. The server only forwards updates and
+ * cancellations signed by the alert's payer.
+ *
+ * Rules record their payer and x402 settlement transaction on-chain. With
+ * maxActiveRulesPerPayer set, a create is rejected once the payer already has
+ * that many active rules on the target chain.
+ *
+ * Registry reads and writes go through the workflow clients (see clients.ts),
+ * so the handler also runs against the fakes of fakes.ts.
  */
 
+import { type HTTPPayload, decodeJson } from "@chainlink/cre-sdk";
+import { type Hex, isAddress, zeroAddress, zeroHash } from "viem";
+import type { ChangeDirection, Condition, EvmConfig, Rule, TriggerMode } from "./types";
 import {
-  type Runtime,
-  type HTTPPayload,
-  getNetwork,
-  hexToBase64,
-  bytesToHex,
-  TxStatus,
-  encodeCallMsg,
-  decodeJson,
-} from "@chainlink/cre-sdk";
+  encodeRuleCancelReport,
+  encodeRuleCreateReport,
+  encodeRuleUpdateReport,
+} from "./reports";
+import { parsePercent, parseUsdPrice } from "./price";
+import { findEvmConfig } from "./chains";
+import { encryptDestination, validateDestination } from "./destinations";
+import { type ChannelSecrets, createSecretsLoader } from "./notifications";
 import {
-  encodeAbiParameters,
-  parseAbiParameters,
-} from "viem";
-import { cre } from "@chainlink/cre-sdk";
-import type { Config } from "./types";
+  type RuleRegistryClient,
+  type WorkflowClients,
+  type WorkflowRuntime,
+  createCreClients,
+} from "./clients";
 
 /**
- * HTTP trigger handler - receives alert data and writes it on-chain
+ * Supported price conditions
+ */
+const CONDITIONS: Condition[] = ["gt", "lt", "gte", "lte", "between", "outside", "change"];
+
+/**
+ * Conditions on a price band (targetPriceUsd is the lower bound, upperPriceUsd the upper one)
+ */
+const BAND_CONDITIONS: Condition[] = ["between", "outside"];
+
+/**
+ * Supported move directions of change rules
+ */
+const CHANGE_DIRECTIONS: ChangeDirection[] = ["up", "down", "any"];
+
+/**
+ * Supported re-notification policies
+ */
+const TRIGGER_MODES: TriggerMode[] = ["once", "crossing", "cooldown"];
+
+/**
+ * Supported payload actions
+ */
+const ACTIONS = ["create", "update", "cancel"] as const;
+
+/**
+ * Shortest rule lifetime in seconds when the config does not set minRuleTTL
+ */
+const DEFAULT_MIN_RULE_TTL = 60;
+
+/**
+ * Creates the HTTP trigger handler - receives alert data and writes it on-chain
  * 
  * Flow:
- * 1. Decode alert data from HTTP payload
- * 2. Encode alert data for CRE report
- * 3. Generate CRE report
- * 4. Write report to RuleRegistry contract
+ * 1. Decode alert data from HTTP payload and select the target chain
+ * 2. Encode alert data for CRE report (create, update or cancel)
+ * 3. Generate CRE report and write it to RuleRegistry contract
  * 
- * @param runtime - CRE runtime context
- * @param payload - HTTP request payload
- * @returns Transaction hash on success
+ * The handler takes the CRE runtime context and the HTTP request payload, and
+ * returns the transaction hash on success.
+ * 
+ * @param createClients - Creates the clients of a run from the runtime (see clients.ts)
+ * @returns HTTP trigger handler
  */
-export const onHttpTrigger = (
-  runtime: Runtime<Config>,
-  payload: HTTPPayload
-): string => {
-  if (!payload.input || payload.input.length === 0) {
-    return "Empty request";
-  }
+export function createHttpTriggerHandler<R extends WorkflowRuntime>(
+  createClients: (runtime: R) => WorkflowClients
+): (runtime: R, payload: Pick<HTTPPayload, "input">) => string {
+  return (runtime, payload) => {
+    if (!payload.input || payload.input.length === 0) {
+      return "Empty request";
+    }
+
+    runtime.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    runtime.log("CRE Workflow: HTTP Trigger");
+    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+
+    const inputData = decodeJson(payload.input);
+    // Never log the plaintext destination
+    runtime.log(
+      `[Step 1] Received alert data: ${JSON.stringify({
+        ...inputData,
+        destination: inputData.destination ? "[redacted]" : undefined,
+      })}`
+    );
+
+    // Select the target chain (payloads without one use the first configured chain)
+    const evm = findEvmConfig(runtime.config, inputData.chain);
+    const clients = createClients(runtime);
+    const { registry } = clients.chain(evm);
+    runtime.log(`  Target chain: ${evm.chainSelectorName}`);
+
+    const action = (inputData.action ?? "create") as (typeof ACTIONS)[number];
+    if (!ACTIONS.includes(action)) {
+      throw new Error(`Invalid action: ${action}`);
+    }
 
-  runtime.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  runtime.log("CRE Workflow: HTTP Trigger");
-  runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    let reportData: Hex;
+    if (action === "cancel") {
+      runtime.log(`[Step 2] Encoding cancellation of rule ${inputData.id}...`);
+      reportData = encodeRuleCancelReport(toRuleId(inputData.id));
+    } else {
+      runtime.log(`[Step 2] Encoding alert data for on-chain ${action === "update" ? "update" : "write"}...`);
+      const rule = buildRule(runtime, evm, inputData, createSecretsLoader(clients.getSecret));
+      if (action === "create") {
+        enforcePayerLimit(runtime, registry, evm, rule);
+      }
+      reportData = action === "update" ? encodeRuleUpdateReport(rule) : encodeRuleCreateReport(rule);
+    }
 
-  const inputData = decodeJson(payload.input);
-  runtime.log(`[Step 1] Received alert data: ${JSON.stringify(inputData)}`);
+    // Generate CRE report and write it to RuleRegistry contract
+    runtime.log(
+      `[Step 3] Generating CRE report and writing to RuleRegistry contract: ${evm.ruleRegistryAddress}`
+    );
+    const txHash = registry.writeReport(reportData);
 
-  // Get network and EVM client
-  const network = getNetwork({
-    chainFamily: "evm",
-    chainSelectorName: runtime.config.evms[0].chainSelectorName,
-    isTestnet: true,
-  });
+    runtime.log(`[Step 4] [SUCCESS] Transaction successful: ${txHash}`);
+    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+    return txHash;
+  };
+}
+
+/**
+ * HTTP trigger handler of the deployed workflow (CRE capabilities, see createHttpTriggerHandler)
+ */
+export const onHttpTrigger = createHttpTriggerHandler(createCreClients);
 
-  if (!network) {
-    throw new Error(`Network not found`);
+/**
+ * Ensures a rule ID has the 0x prefix of a bytes32 value
+ */
+function toRuleId(id: string): Hex {
+  return (id.startsWith("0x") ? id : `0x${id}`) as Hex;
+}
+
+/**
+ * Rejects a new rule if its payer already has the maximum number of active rules
+ *
+ * Active rules are the payer's rules in the registry's active set (neither
+ * cancelled, spent "once" rules, nor reported expired), counted by the
+ * registry itself (getActiveRuleCountByPayer), so the check reads one number
+ * however many rules the payer holds. Expired rules count until the cron
+ * trigger reports them. Does nothing unless maxActiveRulesPerPayer is set.
+ *
+ * @param runtime - Workflow runtime
+ * @param registry - RuleRegistry of the target chain
+ * @param evm - EVM configuration of the target chain
+ * @param rule - Rule to create
+ * @throws Error if the payer is at the limit
+ */
+function enforcePayerLimit(
+  runtime: WorkflowRuntime,
+  registry: RuleRegistryClient,
+  evm: EvmConfig,
+  rule: Rule
+): void {
+  const limit = runtime.config.maxActiveRulesPerPayer;
+  if (limit === undefined) {
+    return;
+  }
+
+  const active = registry.getActiveRuleCountByPayer(rule.payer);
+
+  runtime.log(`  Payer ${rule.payer}: ${active} active rule(s) (limit: ${limit})`);
+  if (active >= BigInt(limit)) {
+    throw new Error(
+      `Payer ${rule.payer} already has ${active} active rules on ${evm.chainSelectorName} (limit: ${limit})`
+    );
   }
+}
 
-  const evmClient = new cre.capabilities.EVMClient(
-    network.chainSelector.selector
-  );
+/**
+ * Validates the alert data of a create or update payload and builds the rule
+ *
+ * @param runtime - Workflow runtime
+ * @param evm - EVM configuration of the target chain
+ * @param inputData - Decoded HTTP payload
+ * @param loadSecrets - Returns the values of CRE secrets, keyed by ID
+ * @returns Rule to encode (destination encrypted)
+ * @throws Error if the alert data is invalid
+ */
+function buildRule(
+  runtime: WorkflowRuntime,
+  evm: EvmConfig,
+  inputData: any,
+  loadSecrets: (secretIds: string[]) => ChannelSecrets
+): Rule {
+  // Change rules compare the price with its own history instead of a target
+  const isChange = inputData.condition === "change";
+  if (isChange && !(Number.isInteger(inputData.windowSeconds) && inputData.windowSeconds > 0)) {
+    throw new Error(`Invalid windowSeconds for change rule: ${inputData.windowSeconds}`);
+  }
+  if (!isChange && (inputData.changePercent !== undefined || inputData.windowSeconds !== undefined)) {
+    throw new Error("changePercent and windowSeconds are only supported for change rules");
+  }
 
+  // Payloads created before trigger modes existed default to "once"
   const alert = {
     id: inputData.id,
+    // Payer and settlement transaction of the x402 payment (the settlement may be unknown)
+    payer: inputData.payer as string,
+    paymentTxHash: (inputData.settlementTxHash ?? zeroHash) as string,
     asset: inputData.asset,
-    condition: inputData.condition,
-    targetPriceUsd: inputData.targetPriceUsd,
+    // Ratio rules (e.g. ETH/BTC) name a quote asset; empty means USD prices
+    quoteAsset: (inputData.quoteAsset ?? "") as string,
+    condition: inputData.condition as Condition,
+    // Fixed-point with 8 decimals (e.g. "14.37" -> 1437000000n), also for ratios
+    targetPriceUsd: isChange ? 0n : parseUsdPrice(inputData.targetPriceUsd),
+    // Only band conditions have an upper bound (0 on-chain otherwise)
+    upperPriceUsd:
+      inputData.upperPriceUsd !== undefined ? parseUsdPrice(inputData.upperPriceUsd) : 0n,
+    // Percent threshold with 8 decimals (e.g. "8" -> 800000000n)
+    changePercent: isChange ? parsePercent(inputData.changePercent) : 0n,
+    windowSeconds: isChange ? BigInt(inputData.windowSeconds) : 0n,
+    direction: (isChange ? inputData.direction ?? "any" : "") as ChangeDirection | "",
     createdAt: inputData.createdAt,
+    // Payloads without an expiry get the default ruleTTL
+    expiresAt: inputData.expiresAt ?? inputData.createdAt + runtime.config.ruleTTL,
+    triggerMode: (inputData.triggerMode ?? "once") as TriggerMode,
+    cooldownSeconds: inputData.cooldownSeconds ?? 0,
+    // Empty channel means the workflow's default channel
+    channel: (inputData.channel ?? "") as string,
+    destination: (inputData.destination ?? "") as string,
   };
 
-  // Ensure ID has 0x prefix for bytes32
-  const idBytes32 = alert.id.startsWith("0x") ? alert.id : `0x${alert.id}`;
-
-  runtime.log(`[Step 2] Encoding alert data for on-chain write...`);
-
-  // Encode alert data as ABI parameters
-  const reportData = encodeAbiParameters(
-    parseAbiParameters(
-      "bytes32 id, string asset, string condition, uint256 targetPriceUsd, uint256 createdAt"
-    ),
-    [idBytes32, alert.asset, alert.condition, alert.targetPriceUsd, alert.createdAt]
-  );
-
-  // Generate CRE report
-  runtime.log(`[Step 3] Generating CRE report...`);
-  const reportResponse = runtime
-    .report({
-      encodedPayload: hexToBase64(reportData),
-      encoderName: "evm",
-      signingAlgo: "ecdsa",
-      hashingAlgo: "keccak256",
-    })
-    .result();
-
-  // Write report to RuleRegistry contract
-  runtime.log(
-    `[Step 4] Writing to RuleRegistry contract: ${runtime.config.evms[0].ruleRegistryAddress}`
-  );
-  const writeResult = evmClient
-    .writeReport(runtime, {
-      receiver: runtime.config.evms[0].ruleRegistryAddress,
-      report: reportResponse,
-      gasConfig: {
-        gasLimit: runtime.config.evms[0].gasLimit,
-      },
-    })
-    .result();
-
-  if (writeResult.txStatus === TxStatus.SUCCESS) {
-    const txHash = bytesToHex(writeResult.txHash || new Uint8Array(32));
-    runtime.log(`[Step 5] [SUCCESS] Transaction successful: ${txHash}`);
-    runtime.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
-    return txHash;
+  const idBytes32 = toRuleId(alert.id);
+
+  if (typeof alert.payer !== "string" || !isAddress(alert.payer) || alert.payer === zeroAddress) {
+    throw new Error(`Invalid payer: ${alert.payer}`);
+  }
+  if (typeof alert.paymentTxHash !== "string" || !/^0x[0-9a-fA-F]{64}$/.test(alert.paymentTxHash)) {
+    throw new Error(`Invalid settlementTxHash: ${alert.paymentTxHash}`);
+  }
+
+  if (!CONDITIONS.includes(alert.condition)) {
+    throw new Error(`Invalid condition: ${alert.condition}`);
   }
 
-  throw new Error(
-    `Transaction failed with status: ${writeResult.txStatus}`
-  );
-};
+  if (BAND_CONDITIONS.includes(alert.condition)) {
+    if (alert.upperPriceUsd <= alert.targetPriceUsd) {
+      throw new Error(
+        `Invalid price band for ${alert.condition}: upperPriceUsd must be greater than targetPriceUsd`
+      );
+    }
+  } else if (alert.upperPriceUsd !== 0n) {
+    throw new Error(`upperPriceUsd is only supported for between and outside conditions`);
+  }
+
+  if (isChange && !CHANGE_DIRECTIONS.includes(alert.direction as ChangeDirection)) {
+    throw new Error(`Invalid change direction: ${alert.direction}`);
+  }
+
+  if (alert.quoteAsset) {
+    if (alert.quoteAsset === alert.asset) {
+      throw new Error(`quoteAsset must differ from asset: ${alert.asset}`);
+    }
+    if (isChange) {
+      throw new Error("quoteAsset is not supported for change rules");
+    }
+  }
+
+  if (!TRIGGER_MODES.includes(alert.triggerMode)) {
+    throw new Error(`Invalid trigger mode: ${alert.triggerMode}`);
+  }
+
+  // The lifetime is chosen per alert, within the configured bounds
+  const minRuleTTL = runtime.config.minRuleTTL ?? DEFAULT_MIN_RULE_TTL;
+  const maxRuleTTL = runtime.config.maxRuleTTL ?? runtime.config.ruleTTL;
+  const lifetime = alert.expiresAt - alert.createdAt;
+  if (!Number.isInteger(alert.expiresAt) || !(lifetime >= minRuleTTL && lifetime <= maxRuleTTL)) {
+    throw new Error(
+      `Invalid expiresAt: ${alert.expiresAt}. The rule lifetime must be between ${minRuleTTL} and ${maxRuleTTL} seconds`
+    );
+  }
+
+  if (alert.channel && !runtime.config.notificationChannels.includes(alert.channel)) {
+    throw new Error(
+      `Notification channel not enabled: ${alert.channel}. Must be one of: ${runtime.config.notificationChannels.join(", ")}`
+    );
+  }
+
+  // Per-rule destinations are stored encrypted (see destinations.ts)
+  let encryptedDestination: Hex = "0x";
+  if (alert.destination) {
+    validateDestination(
+      alert.channel || runtime.config.notificationChannels[0],
+      alert.destination
+    );
+    const { DESTINATION_ENCRYPTION_KEY } = loadSecrets(["DESTINATION_ENCRYPTION_KEY"]);
+    encryptedDestination = encryptDestination(
+      DESTINATION_ENCRYPTION_KEY,
+      idBytes32,
+      alert.destination
+    );
+  }
+
+  // Only assets in the chain's catalog can be monitored by the cron trigger
+  const supported = evm.assets.map((asset) => asset.symbol);
+  for (const symbol of alert.quoteAsset ? [alert.asset, alert.quoteAsset] : [alert.asset]) {
+    if (!supported.includes(symbol)) {
+      throw new Error(
+        `Unsupported asset on ${evm.chainSelectorName}: ${symbol}. Must be one of: ${supported.join(", ")}`
+      );
+    }
+  }
 
+  // The contract starts new and edited rules armed
+  return {
+    id: idBytes32,
+    payer: alert.payer as Hex,
+    paymentTxHash: alert.paymentTxHash as Hex,
+    asset: alert.asset,
+    quoteAsset: alert.quoteAsset,
+    condition: alert.condition,
+    targetPriceUsd: alert.targetPriceUsd,
+    upperPriceUsd: alert.upperPriceUsd,
+    changePercent: alert.changePercent,
+    windowSeconds: alert.windowSeconds,
+    direction: alert.direction,
+    createdAt: BigInt(alert.createdAt),
+    expiresAt: BigInt(alert.expiresAt),
+    triggerMode: alert.triggerMode,
+    cooldownSeconds: BigInt(alert.cooldownSeconds),
+    armed: true,
+    lastTriggeredAt: 0n,
+    cancelled: false,
+    channel: alert.channel,
+    destination: encryptedDestination,
+  };
+}
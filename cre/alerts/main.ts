@@ -3,7 +3,7 @@
  * 
  * This is the main entry point for the CRE workflow that handles:
  * 1. HTTP Trigger: Receives alert data from server and writes it on-chain to RuleRegistry
- * 2. Cron Trigger: Periodically checks price conditions and sends Pushover notifications
+ * 2. Cron Trigger: Periodically checks price conditions and sends notifications (webhook, Slack, Discord, Telegram, Pushover)
  * 
  * Architecture:
  * - HTTP Trigger (evm.ts): Writes alerts to RuleRegistry contract via CRE reports
@@ -11,7 +11,7 @@
  * 
  * Flow:
  * 1. server → HTTP Trigger → RuleRegistry contract (on-chain storage)
- * 2. Cron job → Fetch prices → Check rules → Send Pushover notifications
+ * 2. Cron job → Fetch prices → Check rules → Send notifications
  */
 
 import { cre, Runner } from "@chainlink/cre-sdk";
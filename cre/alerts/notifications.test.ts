@@ -0,0 +1,243 @@
+/**
+ * Notification Channel Tests
+ *
+ * Every channel's request is delivered to a local stand-in that checks it the
+ * way the real API would (Slack and Discord webhooks, the Telegram Bot API,
+ * the Pushover messages API, a generic JSON webhook) and answers like it.
+ * Requests to the fixed Telegram and Pushover hosts are redirected to the
+ * stand-in by keeping only their path.
+ */
+
+import { afterAll, beforeEach, describe, expect, test } from "bun:test";
+import type { HTTPSendRequester } from "@chainlink/cre-sdk";
+import {
+  type AlertNotification,
+  buildNotificationRequest,
+  createSecretsLoader,
+  NOTIFICATION_CHANNELS,
+  type NotificationChannelName,
+  resolveChannel,
+  sendNotification,
+} from "./notifications";
+import type { Config } from "./types";
+
+// ============================================================================
+// Stand-in Channel APIs
+// ============================================================================
+
+const SECRETS = { TELEGRAM_BOT_TOKEN: "123:telegram-token", PUSHOVER_API_KEY: "pushover-app-token" };
+
+/**
+ * Request received by the stand-in
+ */
+type ReceivedRequest = { path: string; body: any };
+
+let received: ReceivedRequest[] = [];
+
+/**
+ * Checks a request body against the channel API behind a path
+ *
+ * @returns Status and JSON response of the API
+ */
+function handleChannelRequest(path: string, body: any): { status: number; response: object } {
+  if (path === "/hooks/webhook") {
+    return typeof body.ruleId === "string" && typeof body.message === "string"
+      ? { status: 200, response: { received: true } }
+      : { status: 400, response: { error: "not an alert notification" } };
+  }
+  if (path === "/hooks/slack") {
+    return typeof body.text === "string" && body.text.length > 0
+      ? { status: 200, response: {} }
+      : { status: 400, response: { error: "no_text" } };
+  }
+  if (path === "/hooks/discord") {
+    return typeof body.content === "string" && body.content.length > 0
+      ? { status: 204, response: {} }
+      : { status: 400, response: { message: "Cannot send an empty message" } };
+  }
+  if (path === `/bot${SECRETS.TELEGRAM_BOT_TOKEN}/sendMessage`) {
+    // The Bot API reports unknown chats with ok: false
+    return body.chat_id === "42" && typeof body.text === "string"
+      ? { status: 200, response: { ok: true, result: { message_id: 1 } } }
+      : { status: 200, response: { ok: false, description: "Bad Request: chat not found" } };
+  }
+  if (path === "/1/messages.json") {
+    return body.token === SECRETS.PUSHOVER_API_KEY && body.user === "user-key" && body.message
+      ? { status: 200, response: { status: 1, request: "r1" } }
+      : { status: 200, response: { status: 0, errors: ["user identifier is invalid"] } };
+  }
+  return { status: 404, response: { error: "not found" } };
+}
+
+const standIn = Bun.serve({
+  port: 0,
+  async fetch(request) {
+    const path = new URL(request.url).pathname;
+    const body = await request.json();
+    received.push({ path, body });
+    const { status, response } = handleChannelRequest(path, body);
+    return status === 204 ? new Response(null, { status }) : Response.json(response, { status });
+  },
+});
+
+afterAll(() => {
+  standIn.stop(true);
+});
+
+beforeEach(() => {
+  received = [];
+});
+
+/**
+ * Destination of each channel on the stand-in
+ */
+const DESTINATIONS: Record<NotificationChannelName, string> = {
+  webhook: `${standIn.url}hooks/webhook`,
+  slack: `${standIn.url}hooks/slack`,
+  discord: `${standIn.url}hooks/discord`,
+  telegram: "42",
+  pushover: "user-key",
+};
+
+const NOTIFICATION: AlertNotification = {
+  title: "BTC price alert",
+  message: "BTC is now $60,000.00 (alert target: > $59,000.00)",
+  ruleId: "0x01",
+  payer: "0x000000000000000000000000000000000000dEaD",
+  asset: "BTC",
+  condition: "gt",
+  priceUsd: "60,000.00",
+  targetPriceUsd: "59,000.00",
+  chain: "ethereum-testnet-sepolia-base-1",
+  triggeredAt: 1765000000,
+};
+
+/**
+ * Creates an HTTP send requester that delivers requests to the stand-in
+ *
+ * The CRE HTTP capability sends requests synchronously from the workflow's
+ * point of view; here each request is delivered first and its response
+ * replayed, so the requester stays synchronous.
+ */
+async function deliverToStandIn(
+  channelName: NotificationChannelName,
+  destination = DESTINATIONS[channelName]
+): Promise<{ requester: HTTPSendRequester; sentUrl: string }> {
+  const channel = NOTIFICATION_CHANNELS[channelName];
+  const request = buildNotificationRequest(channel, NOTIFICATION, destination, SECRETS);
+  const response = await fetch(new URL(new URL(request.url).pathname, standIn.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(request.body),
+  });
+  const responseBody = new Uint8Array(await response.arrayBuffer());
+
+  const requester = {
+    sendRequest: (req: { body: string }) => {
+      // The capability sends the same JSON body, base64 encoded
+      expect(JSON.parse(Buffer.from(req.body, "base64").toString("utf8"))).toEqual(request.body);
+      return { result: () => ({ statusCode: response.status, body: responseBody, headers: {} }) };
+    },
+  } as unknown as HTTPSendRequester;
+
+  return { requester, sentUrl: request.url };
+}
+
+/**
+ * Sends the test notification through a channel via the stand-in
+ */
+async function send(channelName: NotificationChannelName, destination?: string) {
+  const { requester, sentUrl } = await deliverToStandIn(channelName, destination);
+  const channel = NOTIFICATION_CHANNELS[channelName];
+  const result = sendNotification(channel, NOTIFICATION, destination ?? DESTINATIONS[channelName], SECRETS)(
+    requester,
+    {} as Config
+  );
+  return { result, sentUrl };
+}
+
+// ============================================================================
+// Delivery
+// ============================================================================
+
+describe("channel delivery", () => {
+  test("webhook posts the notification as JSON", async () => {
+    const { result } = await send("webhook");
+
+    expect(result.statusCode).toBe(200);
+    expect(received[0].body).toEqual(NOTIFICATION);
+  });
+
+  test("slack posts a formatted text", async () => {
+    await send("slack");
+
+    expect(received[0].body).toEqual({ text: `*${NOTIFICATION.title}*\n${NOTIFICATION.message}` });
+  });
+
+  test("discord posts the content and accepts 204", async () => {
+    const { result } = await send("discord");
+
+    expect(result.statusCode).toBe(204);
+    expect(received[0].body).toEqual({ content: `**${NOTIFICATION.title}**\n${NOTIFICATION.message}` });
+  });
+
+  test("telegram calls sendMessage with the bot token and chat ID", async () => {
+    const { sentUrl } = await send("telegram");
+
+    expect(sentUrl).toBe(`https://api.telegram.org/bot${SECRETS.TELEGRAM_BOT_TOKEN}/sendMessage`);
+    expect(received[0].body.chat_id).toBe("42");
+  });
+
+  test("pushover posts the app token and user key", async () => {
+    const { sentUrl } = await send("pushover");
+
+    expect(sentUrl).toBe("https://api.pushover.net/1/messages.json");
+    expect(received[0].body).toMatchObject({ token: SECRETS.PUSHOVER_API_KEY, user: "user-key" });
+  });
+});
+
+describe("delivery errors", () => {
+  test("fails on non-2xx responses", async () => {
+    await expect(send("slack", `${standIn.url}hooks/unknown`)).rejects.toThrow("slack request failed with status: 404");
+  });
+
+  test("fails on API errors returned with a 2xx status", async () => {
+    await expect(send("telegram", "7")).rejects.toThrow("Telegram API returned error");
+    await expect(send("pushover", "other-user")).rejects.toThrow("Pushover API returned error");
+  });
+
+  test("requires a destination", () => {
+    expect(() => buildNotificationRequest(NOTIFICATION_CHANNELS.slack, NOTIFICATION, "", SECRETS)).toThrow(
+      "No destination configured for slack notifications"
+    );
+  });
+});
+
+// ============================================================================
+// Channel Selection & Secrets
+// ============================================================================
+
+describe("channel selection", () => {
+  const config = { notificationChannels: ["telegram", "slack"] } as Config;
+
+  test("uses the first enabled channel for rules without one", () => {
+    expect(resolveChannel(config, "").name).toBe("telegram");
+    expect(resolveChannel(config, "slack").name).toBe("slack");
+  });
+
+  test("rejects channels that are not enabled", () => {
+    expect(() => resolveChannel(config, "discord")).toThrow("Notification channel not enabled: discord");
+  });
+
+  test("reads each secret once per run", () => {
+    const reads: string[] = [];
+    const loadSecrets = createSecretsLoader((id) => {
+      reads.push(id);
+      return `${id}-value`;
+    });
+
+    expect(loadSecrets(["TELEGRAM_BOT_TOKEN"])).toEqual({ TELEGRAM_BOT_TOKEN: "TELEGRAM_BOT_TOKEN-value" });
+    loadSecrets(["TELEGRAM_BOT_TOKEN", "TELEGRAM_CHAT_ID"]);
+    expect(reads).toEqual(["TELEGRAM_BOT_TOKEN", "TELEGRAM_CHAT_ID"]);
+  });
+});
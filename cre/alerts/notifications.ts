@@ -0,0 +1,311 @@
+/**
+ * Notification Channels
+ *
+ * This module defines the channels the cron trigger can deliver alerts to.
+ * Every channel turns an AlertNotification into a single HTTP request sent to
+ * a destination (webhook URL, Telegram chat ID, Pushover user key). Rules may
+ * carry their own destination (see destinations.ts); otherwise the channel's
+ * default destination secret is used. Credentials and default destinations
+ * are read from CRE secrets (see WorkflowClients.getSecret in clients.ts).
+ *
+ * Supported channels:
+ * - webhook: generic JSON webhook (POSTs the AlertNotification as JSON)
+ * - slack: Slack-compatible incoming webhook ({ text })
+ * - discord: Discord webhook ({ content })
+ * - telegram: Telegram Bot API sendMessage
+ * - pushover: Pushover messages API
+ *
+ * Adding a channel only requires a new entry in NOTIFICATION_CHANNELS and its
+ * secrets in secrets.yaml.
+ */
+
+import {
+  type HTTPSendRequester,
+  ok,
+} from "@chainlink/cre-sdk";
+import type { Config, PostResponse } from "./types";
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Name of a notification channel
+ */
+export type NotificationChannelName =
+  | "webhook"
+  | "slack"
+  | "discord"
+  | "telegram"
+  | "pushover";
+
+/**
+ * Channel-agnostic content of a triggered alert
+ */
+export type AlertNotification = {
+  /** Notification title */
+  title: string;
+  /** Human-readable message (e.g. "BTC is now $60,000.00 (alert target: > $59,000.00)") */
+  message: string;
+  /** Deterministic rule ID */
+  ruleId: string;
+  /** Address that paid for the rule (lets webhook receivers route notifications per payer) */
+  payer: string;
+  /** Asset symbol */
+  asset: string;
+  /** Quote asset of a ratio rule (prices and targets are then ratios, e.g. ETH/BTC) */
+  quoteAsset?: string;
+  /** Price condition (gt, lt, gte, lte, between, outside, change) */
+  condition: string;
+  /** Current price in USD (formatted decimal string); the current ratio for ratio rules */
+  priceUsd: string;
+  /** Target price in USD (formatted decimal string); lower bound for between/outside */
+  targetPriceUsd: string;
+  /** Upper bound in USD for between/outside (formatted decimal string) */
+  upperPriceUsd?: string;
+  /** Observed move of a change rule over its window (formatted percent, e.g. "+8.50%") */
+  changePercent?: string;
+  /** Time window of a change rule in seconds */
+  windowSeconds?: number;
+  /** Chain selector name of the rule's RuleRegistry */
+  chain: string;
+  /** UNIX timestamp (seconds) when the rule fired */
+  triggeredAt: number;
+};
+
+/**
+ * Secret values, keyed by secret ID
+ */
+export type ChannelSecrets = Record<string, string>;
+
+/**
+ * HTTP request produced by a channel
+ */
+export type ChannelRequest = {
+  /** Request URL */
+  url: string;
+  /** JSON request body */
+  body: unknown;
+};
+
+/**
+ * Notification channel definition
+ */
+export type NotificationChannel = {
+  /** Channel name (as stored on rules and in the workflow config) */
+  name: NotificationChannelName;
+  /** CRE secret IDs of the channel credentials (declared in secrets.yaml) */
+  secretIds: string[];
+  /** CRE secret ID of the default destination, used for rules without their own */
+  destinationSecretId: string;
+  /** Builds the HTTP request that delivers the notification to a destination */
+  buildRequest: (
+    notification: AlertNotification,
+    destination: string,
+    secrets: ChannelSecrets
+  ) => ChannelRequest;
+  /** Validates the response body for APIs that report errors with a 2xx status */
+  checkResponse?: (responseText: string) => void;
+};
+
+// ============================================================================
+// Channels
+// ============================================================================
+
+/**
+ * Supported notification channels, keyed by name
+ */
+export const NOTIFICATION_CHANNELS: Record<NotificationChannelName, NotificationChannel> = {
+  webhook: {
+    name: "webhook",
+    secretIds: [],
+    destinationSecretId: "WEBHOOK_URL",
+    buildRequest: (notification, destination) => ({
+      url: destination,
+      body: notification,
+    }),
+  },
+  slack: {
+    name: "slack",
+    secretIds: [],
+    destinationSecretId: "SLACK_WEBHOOK_URL",
+    buildRequest: (notification, destination) => ({
+      url: destination,
+      body: { text: `*${notification.title}*\n${notification.message}` },
+    }),
+  },
+  discord: {
+    name: "discord",
+    secretIds: [],
+    destinationSecretId: "DISCORD_WEBHOOK_URL",
+    buildRequest: (notification, destination) => ({
+      url: destination,
+      body: { content: `**${notification.title}**\n${notification.message}` },
+    }),
+  },
+  telegram: {
+    name: "telegram",
+    secretIds: ["TELEGRAM_BOT_TOKEN"],
+    destinationSecretId: "TELEGRAM_CHAT_ID",
+    buildRequest: (notification, destination, secrets) => ({
+      url: `https://api.telegram.org/bot${secrets.TELEGRAM_BOT_TOKEN}/sendMessage`,
+      body: {
+        chat_id: destination,
+        text: `${notification.title}\n${notification.message}`,
+      },
+    }),
+    checkResponse: (responseText) => {
+      const responseBody = JSON.parse(responseText);
+      if (responseBody.ok !== true) {
+        throw new Error(`Telegram API returned error: ${responseText}`);
+      }
+    },
+  },
+  pushover: {
+    name: "pushover",
+    secretIds: ["PUSHOVER_API_KEY"],
+    destinationSecretId: "PUSHOVER_USER_KEY",
+    buildRequest: (notification, destination, secrets) => ({
+      url: "https://api.pushover.net/1/messages.json",
+      body: {
+        token: secrets.PUSHOVER_API_KEY,
+        user: destination,
+        message: notification.message,
+        title: notification.title,
+      },
+    }),
+    checkResponse: (responseText) => {
+      const responseBody = JSON.parse(responseText);
+      if (responseBody.status !== 1) {
+        throw new Error(`Pushover API returned error: ${responseText}`);
+      }
+    },
+  },
+};
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Resolves the channel of a rule
+ *
+ * Rules without a channel use the first channel enabled in the workflow config.
+ *
+ * @param config - Workflow configuration
+ * @param channelName - Channel stored on the rule (may be empty)
+ * @returns Notification channel
+ * @throws Error if the channel is unknown or not enabled in the config
+ */
+export function resolveChannel(
+  config: Config,
+  channelName: string
+): NotificationChannel {
+  const name = channelName || config.notificationChannels[0];
+  if (!config.notificationChannels.includes(name)) {
+    throw new Error(
+      `Notification channel not enabled: ${name}. Enabled: ${config.notificationChannels.join(", ")}`
+    );
+  }
+  const channel = NOTIFICATION_CHANNELS[name as NotificationChannelName];
+  if (!channel) {
+    throw new Error(`Unknown notification channel: ${name}`);
+  }
+  return channel;
+}
+
+/**
+ * Creates a secrets loader that reads each secret once per run
+ *
+ * Secrets are only requested when they are actually used, so deployments do
+ * not need to define secrets for channels they never enable, nor default
+ * destinations when every rule carries its own.
+ *
+ * @param getSecret - Reads a CRE secret (see WorkflowClients.getSecret)
+ * @returns Function returning the values of the requested secrets, keyed by ID
+ */
+export function createSecretsLoader(
+  getSecret: (id: string) => string
+): (secretIds: string[]) => ChannelSecrets {
+  const cache: ChannelSecrets = {};
+  return (secretIds) => {
+    const secrets: ChannelSecrets = {};
+    for (const id of secretIds) {
+      if (cache[id] === undefined) {
+        cache[id] = getSecret(id);
+      }
+      secrets[id] = cache[id];
+    }
+    return secrets;
+  };
+}
+
+/**
+ * Builds the HTTP request that delivers a notification through a channel
+ *
+ * @param channel - Notification channel
+ * @param notification - Alert notification content
+ * @param destination - Rule destination or the channel's default destination
+ * @param secrets - Channel credentials
+ * @returns HTTP request
+ * @throws Error if there is no destination
+ */
+export function buildNotificationRequest(
+  channel: NotificationChannel,
+  notification: AlertNotification,
+  destination: string,
+  secrets: ChannelSecrets
+): ChannelRequest {
+  if (!destination) {
+    throw new Error(`No destination configured for ${channel.name} notifications`);
+  }
+  return channel.buildRequest(notification, destination, secrets);
+}
+
+/**
+ * Sends a notification through a channel
+ *
+ * @param channel - Notification channel
+ * @param notification - Alert notification content
+ * @param destination - Rule destination or the channel's default destination
+ * @param secrets - Channel credentials
+ * @returns Function that sends the HTTP request
+ */
+export const sendNotification =
+  (
+    channel: NotificationChannel,
+    notification: AlertNotification,
+    destination: string,
+    secrets: ChannelSecrets
+  ) =>
+  (sendRequester: HTTPSendRequester, config: Config): PostResponse => {
+    const request = buildNotificationRequest(channel, notification, destination, secrets);
+
+    const bodyBytes = new TextEncoder().encode(JSON.stringify(request.body));
+    const body = Buffer.from(bodyBytes).toString("base64");
+
+    const req = {
+      url: request.url,
+      method: "POST" as const,
+      body,
+      headers: {
+        "Content-Type": "application/json",
+      },
+      cacheSettings: {
+        store: true,
+        maxAge: "60s", // Accept cached responses up to 60 seconds old (Duration format: "60s")
+      },
+    };
+
+    const resp = sendRequester.sendRequest(req).result();
+
+    if (!ok(resp)) {
+      throw new Error(
+        `${channel.name} request failed with status: ${resp.statusCode}`
+      );
+    }
+
+    channel.checkResponse?.(new TextDecoder().decode(resp.body));
+
+    return { statusCode: resp.statusCode };
+  };
@@ -0,0 +1,84 @@
+/**
+ * Fixed-Point Price Tests
+ *
+ * Boundary cases of the 8-decimal price representation: parsing of payload
+ * prices, condition checks on fractional prices and display formatting.
+ */
+
+import { describe, expect, test } from "bun:test";
+import { checkCondition } from "./evaluation";
+import { formatUsdPrice, parsePercent, parseUsdPrice, percentChange, priceRatio } from "./price";
+
+describe("parseUsdPrice", () => {
+  test("parses cent and sub-cent prices from strings and numbers", () => {
+    expect(parseUsdPrice("14.37")).toBe(1437000000n);
+    expect(parseUsdPrice(14.37)).toBe(1437000000n);
+    expect(parseUsdPrice("0.00000001")).toBe(1n);
+    expect(parseUsdPrice(1e-8)).toBe(1n);
+  });
+
+  test("rejects zero, more than 8 decimals and malformed prices", () => {
+    expect(() => parseUsdPrice("0")).toThrow("greater than zero");
+    expect(() => parseUsdPrice("0.000000001")).toThrow("Invalid target price");
+    expect(() => parseUsdPrice(1e-9)).toThrow("Invalid target price");
+    expect(() => parseUsdPrice("-1")).toThrow("Invalid target price");
+    expect(() => parseUsdPrice(undefined)).toThrow("Invalid target price");
+  });
+
+  test("parses change percents with the same precision", () => {
+    expect(parsePercent("8")).toBe(800000000n);
+    expect(parsePercent("0.5")).toBe(50000000n);
+    expect(() => parsePercent("0")).toThrow("Change percent must be greater than zero");
+  });
+});
+
+describe("checkCondition", () => {
+  const target = parseUsdPrice("14.37");
+
+  test("compares fractional prices exactly at the target", () => {
+    expect(checkCondition(target, target, 0n, "gt")).toBe(false);
+    expect(checkCondition(target + 1n, target, 0n, "gt")).toBe(true);
+    expect(checkCondition(target, target, 0n, "gte")).toBe(true);
+    expect(checkCondition(target - 1n, target, 0n, "gte")).toBe(false);
+    expect(checkCondition(target, target, 0n, "lt")).toBe(false);
+    expect(checkCondition(target - 1n, target, 0n, "lt")).toBe(true);
+    expect(checkCondition(target, target, 0n, "lte")).toBe(true);
+  });
+
+  test("does not truncate to whole dollars", () => {
+    // $14.99 is above $14.37, although both are $14 in whole dollars
+    expect(checkCondition(parseUsdPrice("14.99"), target, 0n, "gt")).toBe(true);
+    expect(checkCondition(parseUsdPrice("14.01"), target, 0n, "gt")).toBe(false);
+  });
+
+  test("matches every price by exactly one of between and outside", () => {
+    const upper = parseUsdPrice("15.5");
+    for (const price of [target - 1n, target, target + 1n, upper - 1n, upper, upper + 1n]) {
+      expect(checkCondition(price, target, upper, "between")).toBe(!checkCondition(price, target, upper, "outside"));
+    }
+    expect(checkCondition(target, target, upper, "between")).toBe(true);
+    expect(checkCondition(upper + 1n, target, upper, "outside")).toBe(true);
+  });
+
+  test("rejects unknown conditions", () => {
+    expect(checkCondition(target, target, 0n, "eq")).toBe(false);
+  });
+});
+
+describe("derived values", () => {
+  test("computes signed percent changes with 8 decimals", () => {
+    expect(percentChange(parseUsdPrice("100"), parseUsdPrice("108.5"))).toBe(parsePercent("8.5"));
+    expect(percentChange(parseUsdPrice("100"), parseUsdPrice("97.5"))).toBe(-parsePercent("2.5"));
+  });
+
+  test("rounds ratios down to 8 decimals", () => {
+    expect(priceRatio(parseUsdPrice("3000"), parseUsdPrice("60000"))).toBe(parseUsdPrice("0.05"));
+    expect(priceRatio(1n, 3n)).toBe(33333333n);
+  });
+
+  test("formats sub-cent prices without rounding them away", () => {
+    expect(formatUsdPrice(parseUsdPrice("60000"))).toBe("60,000.00");
+    expect(formatUsdPrice(parseUsdPrice("14.37"), 4)).toBe("14.3700");
+    expect(formatUsdPrice(parseUsdPrice("0.00012345"))).toBe("0.00012345");
+  });
+});
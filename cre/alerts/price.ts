@@ -0,0 +1,150 @@
+/**
+ * Fixed-Point Price Helpers
+ *
+ * Prices are handled as bigint fixed-point values with 8 decimals, matching the
+ * Chainlink USD price feeds (e.g. $14.37 = 1437000000n). Rule targets are stored
+ * on-chain with the same scale, so conditions compare feed answers directly
+ * without truncating the fractional price.
+ */
+
+/**
+ * Number of decimals used for prices (matches Chainlink USD feeds)
+ */
+export const PRICE_DECIMALS = 8;
+
+/**
+ * Scale factor for PRICE_DECIMALS (10^8)
+ */
+const PRICE_SCALE = 10n ** BigInt(PRICE_DECIMALS);
+
+/**
+ * Parses a positive decimal into fixed-point with PRICE_DECIMALS decimals
+ *
+ * @param value - Decimal string or number
+ * @param label - Name of the value for error messages (e.g. "target price")
+ * @returns Fixed-point value
+ * @throws Error if the value is not a positive decimal with at most 8 decimals
+ */
+function parseFixedPoint(value: unknown, label: string): bigint {
+  let text = typeof value === "string" ? value.trim() : "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    // Small and large numbers stringify in exponent notation (e.g. 1e-8)
+    text = String(value);
+    if (text.includes("e") && Number(value.toFixed(PRICE_DECIMALS)) === value) {
+      text = value.toFixed(PRICE_DECIMALS);
+    }
+  }
+
+  const match = new RegExp(`^(\\d+)(?:\\.(\\d{1,${PRICE_DECIMALS}}))?$`).exec(text);
+  if (!match) {
+    throw new Error(`Invalid ${label}: ${String(value)}`);
+  }
+
+  const parsed =
+    BigInt(match[1]) * PRICE_SCALE +
+    BigInt((match[2] ?? "").padEnd(PRICE_DECIMALS, "0"));
+  if (parsed <= 0n) {
+    throw new Error(
+      `${label.charAt(0).toUpperCase()}${label.slice(1)} must be greater than zero: ${String(value)}`
+    );
+  }
+
+  return parsed;
+}
+
+/**
+ * Parses a USD price from the HTTP trigger payload into fixed-point
+ *
+ * The server sends target prices as canonical decimal strings (e.g. "14.37").
+ * Plain JSON numbers are accepted for payloads typed by hand in the CRE CLI.
+ *
+ * @param value - Price as a decimal string or number
+ * @returns Fixed-point price with PRICE_DECIMALS decimals
+ * @throws Error if the value is not a positive decimal with at most 8 decimals
+ */
+export function parseUsdPrice(value: unknown): bigint {
+  return parseFixedPoint(value, "target price");
+}
+
+/**
+ * Parses the percent threshold of a change rule into fixed-point (e.g. "8" -> 800000000n)
+ *
+ * @param value - Percent as a decimal string or number
+ * @returns Fixed-point percent with PRICE_DECIMALS decimals
+ * @throws Error if the value is not a positive decimal with at most 8 decimals
+ */
+export function parsePercent(value: unknown): bigint {
+  return parseFixedPoint(value, "change percent");
+}
+
+/**
+ * Computes the percent change between two prices
+ *
+ * @param reference - Earlier price (8 decimals, positive)
+ * @param current - Current price (8 decimals)
+ * @returns Signed percent change with PRICE_DECIMALS decimals (e.g. -250000000n = -2.5%)
+ */
+export function percentChange(reference: bigint, current: bigint): bigint {
+  return ((current - reference) * 100n * PRICE_SCALE) / reference;
+}
+
+/**
+ * Computes the price of one asset in units of another (e.g. ETH/BTC)
+ *
+ * @param basePrice - USD price of the asset (8 decimals)
+ * @param quotePrice - USD price of the quote asset (8 decimals, positive)
+ * @returns Ratio with PRICE_DECIMALS decimals, rounded down (e.g. 4500000n = 0.045)
+ */
+export function priceRatio(basePrice: bigint, quotePrice: bigint): bigint {
+  return (basePrice * PRICE_SCALE) / quotePrice;
+}
+
+/**
+ * Scales a price feed answer to PRICE_DECIMALS
+ *
+ * @param answer - Raw feed answer
+ * @param feedDecimals - Decimals of the feed (from the asset catalog)
+ * @returns Fixed-point price with PRICE_DECIMALS decimals
+ */
+export function normalizeFeedAnswer(answer: bigint, feedDecimals: number): bigint {
+  if (feedDecimals === PRICE_DECIMALS) {
+    return answer;
+  }
+  return feedDecimals > PRICE_DECIMALS
+    ? answer / 10n ** BigInt(feedDecimals - PRICE_DECIMALS)
+    : answer * 10n ** BigInt(PRICE_DECIMALS - feedDecimals);
+}
+
+/**
+ * Formats a fixed-point percent with a sign (e.g. "+8.50%", "-2.25%")
+ *
+ * @param percent - Fixed-point percent with PRICE_DECIMALS decimals
+ * @returns Formatted percent
+ */
+export function formatPercent(percent: bigint): string {
+  return `${percent > 0n ? "+" : ""}${formatUsdPrice(percent)}%`;
+}
+
+/**
+ * Formats a fixed-point price as a USD string with thousands separators
+ *
+ * Shows at least `minDecimals` decimals and up to 8 (trailing zeros trimmed),
+ * so sub-cent prices are not rounded away.
+ *
+ * @param price - Fixed-point price with PRICE_DECIMALS decimals
+ * @param minDecimals - Minimum decimals to show (asset display precision, default: 2)
+ * @returns Formatted price without currency symbol (e.g. "60,000.00", "0.00012345")
+ */
+export function formatUsdPrice(price: bigint, minDecimals: number = 2): string {
+  const negative = price < 0n;
+  const abs = negative ? -price : price;
+  const whole = (abs / PRICE_SCALE)
+    .toString()
+    .replace(/\B(?=(\d{3})+(?!\d))/g, ",");
+  const fraction = (abs % PRICE_SCALE)
+    .toString()
+    .padStart(PRICE_DECIMALS, "0")
+    .replace(/0+$/, "")
+    .padEnd(minDecimals, "0");
+  return `${negative ? "-" : ""}${whole}.${fraction}`;
+}
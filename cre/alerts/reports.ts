@@ -0,0 +1,213 @@
+/**
+ * RuleRegistry Report Helpers
+ *
+ * This module encodes and writes CRE reports consumed by
+ * RuleRegistry._processReport. Every report is wrapped as
+ * (uint8 reportType, bytes data) so the contract can route it:
+ *
+ * - REPORT_TYPE_CREATE: new rule, the ABI-encoded Rule struct (sent by the HTTP trigger)
+ * - REPORT_TYPE_STATE: trigger state update (sent by the cron trigger)
+ * - REPORT_TYPE_CANCEL: rule cancelled by its payer (sent by the HTTP trigger)
+ * - REPORT_TYPE_UPDATE: rule edited by its payer, the ABI-encoded Rule struct (sent by the HTTP trigger)
+ * - REPORT_TYPE_DEACTIVATE: expired rules removed from the active set (sent by the cron trigger)
+ */
+
+import {
+  type Runtime,
+  hexToBase64,
+  bytesToHex,
+  TxStatus,
+} from "@chainlink/cre-sdk";
+import {
+  type Hex,
+  encodeAbiParameters,
+  parseAbiParameters,
+} from "viem";
+import { cre } from "@chainlink/cre-sdk";
+import type { Config, EvmConfig, Rule } from "./types";
+
+// ============================================================================
+// Report Types
+// ============================================================================
+
+/** Report type for creating a new rule (matches RuleRegistry.REPORT_TYPE_CREATE) */
+export const REPORT_TYPE_CREATE = 0;
+
+/** Report type for updating rule trigger state (matches RuleRegistry.REPORT_TYPE_STATE) */
+export const REPORT_TYPE_STATE = 1;
+
+/** Report type for cancelling a rule (matches RuleRegistry.REPORT_TYPE_CANCEL) */
+export const REPORT_TYPE_CANCEL = 2;
+
+/** Report type for editing a rule (matches RuleRegistry.REPORT_TYPE_UPDATE) */
+export const REPORT_TYPE_UPDATE = 3;
+
+/** Report type for removing rules from the active set (matches RuleRegistry.REPORT_TYPE_DEACTIVATE) */
+export const REPORT_TYPE_DEACTIVATE = 4;
+
+/**
+ * ABI components of the RuleRegistry Rule struct (field order matters)
+ *
+ * Shared by the registry read ABI and the create and update report encoding.
+ */
+export const RULE_COMPONENTS = [
+  { name: "id", type: "bytes32" },
+  { name: "payer", type: "address" },
+  { name: "paymentTxHash", type: "bytes32" },
+  { name: "asset", type: "string" },
+  { name: "quoteAsset", type: "string" },
+  { name: "condition", type: "string" },
+  { name: "targetPriceUsd", type: "uint256" },
+  { name: "upperPriceUsd", type: "uint256" },
+  { name: "changePercent", type: "uint256" },
+  { name: "windowSeconds", type: "uint256" },
+  { name: "direction", type: "string" },
+  { name: "createdAt", type: "uint256" },
+  { name: "expiresAt", type: "uint256" },
+  { name: "triggerMode", type: "string" },
+  { name: "cooldownSeconds", type: "uint256" },
+  { name: "armed", type: "bool" },
+  { name: "lastTriggeredAt", type: "uint256" },
+  { name: "cancelled", type: "bool" },
+  { name: "channel", type: "string" },
+  { name: "destination", type: "bytes" },
+] as const;
+
+// ============================================================================
+// Encoding
+// ============================================================================
+
+/**
+ * Wraps report data with its report type discriminator
+ *
+ * @param reportType - One of the REPORT_TYPE_* constants
+ * @param data - ABI-encoded report data
+ * @returns ABI-encoded (uint8 reportType, bytes data)
+ */
+export function encodeReport(reportType: number, data: Hex): Hex {
+  return encodeAbiParameters(parseAbiParameters("uint8 reportType, bytes data"), [
+    reportType,
+    data,
+  ]);
+}
+
+/**
+ * Encodes a rule creation report
+ *
+ * The report data is the Rule struct as a single tuple, which the contract
+ * decodes with abi.decode(data, (Rule)). The contract resets armed and
+ * lastTriggeredAt, so new rules always start armed.
+ *
+ * @param rule - Rule to create (destination already encrypted)
+ * @returns Encoded REPORT_TYPE_CREATE report
+ */
+export function encodeRuleCreateReport(rule: Rule): Hex {
+  const data = encodeAbiParameters([{ type: "tuple", components: RULE_COMPONENTS }], [rule]);
+  return encodeReport(REPORT_TYPE_CREATE, data);
+}
+
+/**
+ * Encodes a rule update report
+ *
+ * Same data format as the create report. The contract looks the rule up by
+ * its ID, keeps its payer, payment, asset, creation time and expiry, and
+ * re-arms it.
+ *
+ * @param rule - Edited rule (destination already encrypted)
+ * @returns Encoded REPORT_TYPE_UPDATE report
+ */
+export function encodeRuleUpdateReport(rule: Rule): Hex {
+  const data = encodeAbiParameters([{ type: "tuple", components: RULE_COMPONENTS }], [rule]);
+  return encodeReport(REPORT_TYPE_UPDATE, data);
+}
+
+/**
+ * Encodes a rule cancellation report
+ *
+ * @param id - Deterministic rule ID (bytes32)
+ * @returns Encoded REPORT_TYPE_CANCEL report
+ */
+export function encodeRuleCancelReport(id: Hex): Hex {
+  const data = encodeAbiParameters(parseAbiParameters("bytes32 id"), [id]);
+  return encodeReport(REPORT_TYPE_CANCEL, data);
+}
+
+/**
+ * Encodes a rule state update report
+ *
+ * @param id - Deterministic rule ID (bytes32)
+ * @param armed - Whether the rule may fire on the next matching check
+ * @param lastTriggeredAt - UNIX timestamp (seconds) of the last notification
+ * @returns Encoded REPORT_TYPE_STATE report
+ */
+export function encodeRuleStateReport(
+  id: Hex,
+  armed: boolean,
+  lastTriggeredAt: bigint
+): Hex {
+  const data = encodeAbiParameters(
+    parseAbiParameters("bytes32 id, bool armed, uint256 lastTriggeredAt"),
+    [id, armed, lastTriggeredAt]
+  );
+  return encodeReport(REPORT_TYPE_STATE, data);
+}
+
+/**
+ * Encodes a rule deactivation report
+ *
+ * The contract removes the rules from its active set, so later cron runs no
+ * longer read them. Rules that are already inactive are ignored.
+ *
+ * @param ids - Deterministic rule IDs (bytes32)
+ * @returns Encoded REPORT_TYPE_DEACTIVATE report
+ */
+export function encodeRuleDeactivateReport(ids: Hex[]): Hex {
+  const data = encodeAbiParameters(parseAbiParameters("bytes32[] ids"), [ids]);
+  return encodeReport(REPORT_TYPE_DEACTIVATE, data);
+}
+
+// ============================================================================
+// Writing
+// ============================================================================
+
+/**
+ * Generates a CRE report and writes it to the RuleRegistry contract
+ *
+ * @param runtime - CRE runtime context
+ * @param evmClient - EVM client for the target chain
+ * @param evm - EVM configuration holding the registry address and gas limit
+ * @param reportData - Encoded report (see encodeReport)
+ * @returns Transaction hash on success
+ * @throws Error if the transaction does not succeed
+ */
+export function writeRegistryReport(
+  runtime: Runtime<Config>,
+  evmClient: InstanceType<typeof cre.capabilities.EVMClient>,
+  evm: EvmConfig,
+  reportData: Hex
+): string {
+  const reportResponse = runtime
+    .report({
+      encodedPayload: hexToBase64(reportData),
+      encoderName: "evm",
+      signingAlgo: "ecdsa",
+      hashingAlgo: "keccak256",
+    })
+    .result();
+
+  const writeResult = evmClient
+    .writeReport(runtime, {
+      receiver: evm.ruleRegistryAddress,
+      report: reportResponse,
+      gasConfig: {
+        gasLimit: evm.gasLimit,
+      },
+    })
+    .result();
+
+  if (writeResult.txStatus !== TxStatus.SUCCESS) {
+    throw new Error(`Transaction failed with status: ${writeResult.txStatus}`);
+  }
+
+  return bytesToHex(writeResult.txHash || new Uint8Array(32));
+}
@@ -15,27 +15,96 @@ export type Config = {
   publicKey: string;
   /** Webhook URL (deprecated, kept for compatibility) */
   webhookUrl: string;
-  /** Rule TTL in seconds (rules older than this will be skipped) */
+  /** Default rule lifetime in seconds, for alerts that do not choose an expiresAt */
   ruleTTL: number;
-  /** EVM network configuration */
-  evms: Array<{
-    /** RuleRegistry contract address */
-    ruleRegistryAddress: string;
-    /** Chain selector name (e.g., "ethereum-testnet-sepolia-base-1") */
-    chainSelectorName: string;
-    /** Gas limit for on-chain writes */
-    gasLimit: string;
-    /** Chainlink price feed addresses */
-    dataFeeds?: {
-      BTC?: string;
-      ETH?: string;
-      LINK?: string;
-    };
-  }>;
+  /** Shortest rule lifetime in seconds an alert may choose (default: 60) */
+  minRuleTTL?: number;
+  /** Longest rule lifetime in seconds an alert may choose (default: ruleTTL) */
+  maxRuleTTL?: number;
+  /** Maximum feed rounds read back per asset to find the start price of "change" rules (default: 50) */
+  maxHistoryRounds?: number;
+  /** Maximum active (not cancelled, expired or spent) rules per payer and chain (default: unlimited) */
+  maxActiveRulesPerPayer?: number;
+  /** Active rules read per RuleRegistry call by the cron trigger (default: 50) */
+  rulePageSize?: number;
+  /** Maximum pages of active rules read per chain and cron run (default: 5) */
+  maxRulePages?: number;
+  /** Marks a config used with `cre workflow simulate`, which may replay a fixed time (unset when deployed) */
+  simulation?: boolean;
+  /** Fixed UNIX timestamp (seconds) used as the current time, to replay a simulation run (ignored unless simulation is true) */
+  simulationTimestamp?: number;
+  /** Enabled notification channels (webhook, slack, discord, telegram, pushover); the first is the default */
+  notificationChannels: Array<string>;
+  /** EVM network configuration, one entry per chain (the first is the default alert target) */
+  evms: Array<EvmConfig>;
 };
 
 /**
- * HTTP response type for Pushover API
+ * EVM network configuration entry
+ */
+export type EvmConfig = {
+  /** RuleRegistry contract address */
+  ruleRegistryAddress: string;
+  /** Chain selector name (e.g., "ethereum-testnet-sepolia-base-1") */
+  chainSelectorName: string;
+  /** Gas limit for on-chain writes */
+  gasLimit: string;
+  /** Asset catalog: supported assets and their Chainlink price feeds */
+  assets: Array<AssetConfig>;
+};
+
+/**
+ * Asset catalog entry
+ *
+ * Adding an asset only requires a new entry here; the server reads the same
+ * catalog for request validation and the Gemini tool enum.
+ */
+export type AssetConfig = {
+  /** Asset symbol used in rules (e.g., "BTC") */
+  symbol: string;
+  /** Chainlink USD price feed address */
+  feedAddress: string;
+  /** Decimals of the price feed answer (8 for Chainlink USD feeds) */
+  decimals: number;
+  /** Minimum number of decimals shown in notifications and logs */
+  displayDecimals: number;
+  /** Maximum age (seconds) of the latest feed update before the price is rejected as stale */
+  maxStalenessSeconds: number;
+};
+
+/**
+ * Re-notification policy of a rule
+ *
+ * - once: notify the first time the condition is met, then never again
+ * - crossing: notify each time the condition becomes true (re-armed when it flips back)
+ * - cooldown: notify whenever the condition is met, at most once per cooldown period
+ */
+export type TriggerMode = "once" | "crossing" | "cooldown";
+
+/**
+ * Price condition of a rule
+ *
+ * - gt, lt, gte, lte: compare the price with targetPriceUsd
+ * - between: price inside [targetPriceUsd, upperPriceUsd], bounds included
+ * - outside: price outside [targetPriceUsd, upperPriceUsd], bounds excluded
+ * - change: price moved by at least changePercent within the last windowSeconds
+ *
+ * Rules with a quote asset compare the ratio of the two prices (e.g. ETH/BTC)
+ * instead of the USD price; change rules only watch USD prices.
+ */
+export type Condition = "gt" | "lt" | "gte" | "lte" | "between" | "outside" | "change";
+
+/**
+ * Move direction of a "change" rule
+ *
+ * - up: the price rose by at least the threshold
+ * - down: the price fell by at least the threshold
+ * - any: the price moved by at least the threshold either way
+ */
+export type ChangeDirection = "up" | "down" | "any";
+
+/**
+ * HTTP response type for notification channels
  */
 export type PostResponse = {
   statusCode: number;
@@ -49,14 +118,44 @@ export type PostResponse = {
 export type Rule = {
   /** Deterministic rule ID (bytes32 hash of alert data) */
   id: `0x${string}`;
-  /** Cryptocurrency asset symbol (BTC, ETH, LINK) */
+  /** Address that paid for the rule (from the x402 payment authorization) */
+  payer: `0x${string}`;
+  /** Settlement transaction hash of the x402 payment (zero hash if unknown) */
+  paymentTxHash: `0x${string}`;
+  /** Cryptocurrency asset symbol (from the asset catalog) */
   asset: string;
-  /** Price condition string (gt, lt, gte, lte) */
+  /** Quote asset of a ratio rule (e.g. "BTC" for ETH/BTC; empty for USD prices) */
+  quoteAsset: string;
+  /** Price condition string (gt, lt, gte, lte, between, outside, change) */
   condition: string;
-  /** Target price in USD (as bigint, no decimals) */
+  /** Target price in USD (fixed-point bigint with 8 decimals, e.g. 1437000000n = $14.37); lower bound for bands; a ratio for ratio rules */
   targetPriceUsd: bigint;
+  /** Upper bound in USD for between/outside (8 decimals, 0 for the other conditions) */
+  upperPriceUsd: bigint;
+  /** Percent move that fires a change rule (8 decimals, e.g. 800000000n = 8%; 0 otherwise) */
+  changePercent: bigint;
+  /** Time window of a change rule in seconds (0 otherwise) */
+  windowSeconds: bigint;
+  /** Move direction of a change rule (up, down, any; empty otherwise) */
+  direction: string;
   /** UNIX timestamp when rule was created (seconds) */
   createdAt: bigint;
+  /** UNIX timestamp after which the rule is no longer checked (seconds, 0 for the default ruleTTL) */
+  expiresAt: bigint;
+  /** Re-notification policy (once, crossing, cooldown) */
+  triggerMode: string;
+  /** Minimum seconds between notifications (cooldown mode only) */
+  cooldownSeconds: bigint;
+  /** Whether the rule may fire on the next matching check */
+  armed: boolean;
+  /** UNIX timestamp of the last notification (seconds, 0 if never) */
+  lastTriggeredAt: bigint;
+  /** Whether the payer cancelled the rule (never checked again) */
+  cancelled: boolean;
+  /** Notification channel (empty for the workflow's default channel) */
+  channel: string;
+  /** Encrypted notification destination ("0x" for the channel's default destination) */
+  destination: `0x${string}`;
 };
 
 /**
@@ -77,3 +176,24 @@ export type PriceData = {
   answeredInRound: bigint;
 };
 
+/**
+ * Historical price of an asset (one feed round)
+ */
+export type PricePoint = {
+  /** Timestamp when the round was updated */
+  updatedAt: bigint;
+  /** Price in USD, normalized to 8 decimals */
+  price: bigint;
+};
+
+/**
+ * Latest price of a catalog asset
+ */
+export type AssetPrice = {
+  /** Asset catalog entry */
+  asset: AssetConfig;
+  /** Raw price feed round data */
+  data: PriceData;
+  /** Price in USD, normalized to 8 decimals */
+  price: bigint;
+};
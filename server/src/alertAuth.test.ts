@@ -0,0 +1,116 @@
+import { afterEach, beforeEach, describe, expect, test, setSystemTime } from "bun:test";
+import { privateKeyToAccount } from "viem/accounts";
+import { buildAlertActionMessage, canonicalJson, SIGNATURE_MAX_AGE_SECONDS, verifyAlertAction } from "./alertAuth";
+import type { AlertAction, SignedAlertAction } from "./alertAuth";
+
+/**
+ * Alert Authorization Tests
+ *
+ * Payer signatures over cancel and update messages, signed with well-known
+ * local test keys and verified against a pinned clock.
+ */
+
+const NOW = 1_765_000_000;
+const ALERT_ID = "ab".repeat(32);
+
+const payer = privateKeyToAccount("0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d");
+const stranger = privateKeyToAccount("0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a");
+
+/**
+ * Signs an alert action like a client would
+ */
+async function sign(
+  account: typeof payer,
+  action: AlertAction,
+  timestamp: number,
+  changes?: object
+): Promise<SignedAlertAction> {
+  const signature = await account.signMessage({
+    message: buildAlertActionMessage(action, ALERT_ID, timestamp, changes),
+  });
+  return { action, alertId: ALERT_ID, timestamp, changes, signature };
+}
+
+beforeEach(() => {
+  setSystemTime(new Date(NOW * 1000));
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+describe("messages", () => {
+  test("adds the canonical changes to update messages only", () => {
+    expect(buildAlertActionMessage("cancel", ALERT_ID, NOW)).toBe(
+      `x402 CRE Price Alerts\nAction: cancel\nAlert: ${ALERT_ID}\nTimestamp: ${NOW}`
+    );
+    expect(buildAlertActionMessage("update", ALERT_ID, NOW, { targetPriceUsd: "61000", condition: "lt" })).toEndWith(
+      '\nChanges: {"condition":"lt","targetPriceUsd":"61000"}'
+    );
+  });
+
+  test("serializes changes with sorted keys and without undefined fields", () => {
+    expect(canonicalJson({ b: [2, { d: 1, c: null }], a: undefined, e: "x" })).toBe(
+      '{"b":[2,{"c":null,"d":1}],"e":"x"}'
+    );
+  });
+});
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+describe("verifyAlertAction", () => {
+  test("accepts a cancel and an update signed by the payer", async () => {
+    expect(await verifyAlertAction(await sign(payer, "cancel", NOW), payer.address)).toBeNull();
+    const changes = { targetPriceUsd: "61000" };
+    expect(await verifyAlertAction(await sign(payer, "update", NOW - 10, changes), payer.address, NOW - 60)).toBeNull();
+  });
+
+  test("rejects a signature by another wallet", async () => {
+    expect(await verifyAlertAction(await sign(stranger, "cancel", NOW), payer.address)).toBe(
+      "Signature does not match the alert's payer"
+    );
+  });
+
+  test("rejects an expired timestamp", async () => {
+    const signed = await sign(payer, "cancel", NOW - SIGNATURE_MAX_AGE_SECONDS - 1);
+
+    expect(await verifyAlertAction(signed, payer.address)).toBe(
+      `Signature expired (older than ${SIGNATURE_MAX_AGE_SECONDS}s)`
+    );
+  });
+
+  test("accepts small clock skew but rejects timestamps further in the future", async () => {
+    expect(await verifyAlertAction(await sign(payer, "cancel", NOW + 30), payer.address)).toBeNull();
+    expect(await verifyAlertAction(await sign(payer, "cancel", NOW + 31), payer.address)).toBe(
+      "Invalid signature timestamp"
+    );
+  });
+
+  test("rejects a replayed timestamp", async () => {
+    const signed = await sign(payer, "cancel", NOW - 10);
+
+    expect(await verifyAlertAction(signed, payer.address, NOW - 10)).toBe(
+      "Signature timestamp must be newer than the last change of the alert"
+    );
+  });
+
+  test("rejects an update whose changes were tampered with", async () => {
+    const signed = await sign(payer, "update", NOW, { targetPriceUsd: "61000" });
+
+    expect(await verifyAlertAction({ ...signed, changes: { targetPriceUsd: "1" } }, payer.address)).toBe(
+      "Signature does not match the alert's payer"
+    );
+  });
+
+  test("rejects actions on alerts without a known payer", async () => {
+    expect(await verifyAlertAction(await sign(payer, "cancel", NOW), "unknown")).toBe(
+      "The alert has no known payer, so it cannot be changed"
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { verifyMessage, type Hex } from "viem";
+
+/**
+ * Payer Authorization for Alert Changes
+ *
+ * Alerts are paid with x402, so the payer address recorded from the payment
+ * owns the alert. DELETE /alerts/:id and PATCH /alerts/:id are only accepted
+ * with an EIP-191 personal signature of that address over a plain-text
+ * message describing the change:
+ *
+ *   x402 CRE Price Alerts
+ *   Action: update
+ *   Alert: <alert ID>
+ *   Timestamp: <UNIX seconds>
+ *   Changes: {"targetPriceUsd":"61000"}
+ *
+ * The Changes line (update only) is the request body as canonical JSON
+ * (object keys sorted, no whitespace), so a signature cannot be reused with
+ * different changes. Signatures expire after a few minutes and must be newer
+ * than the last accepted one, so a captured request cannot be replayed.
+ *
+ * The signature and timestamp are sent in the X-Alert-Signature and
+ * X-Alert-Timestamp headers.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Payer action on an existing alert
+ */
+export type AlertAction = "cancel" | "update";
+
+/**
+ * Signed alert action to verify
+ */
+export interface SignedAlertAction {
+  /** Requested action */
+  action: AlertAction;
+  /** Alert ID */
+  alertId: string;
+  /** Changes of an update (request body) */
+  changes?: object;
+  /** UNIX timestamp in seconds the payer signed */
+  timestamp: number;
+  /** EIP-191 signature (hex) */
+  signature: string;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Maximum age (seconds) of a signed alert action
+ */
+export const SIGNATURE_MAX_AGE_SECONDS = 300;
+
+/**
+ * Maximum clock skew (seconds) accepted for timestamps in the future
+ */
+const MAX_CLOCK_SKEW_SECONDS = 30;
+
+// ============================================================================
+// Messages
+// ============================================================================
+
+/**
+ * Serializes a value as canonical JSON (object keys sorted, no whitespace)
+ */
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(",")}]`;
+  }
+  if (value !== null && typeof value === "object") {
+    const entries = Object.entries(value)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Builds the message the payer signs for an alert action
+ *
+ * @param action - Requested action
+ * @param alertId - Alert ID
+ * @param timestamp - UNIX timestamp in seconds
+ * @param changes - Changes of an update (request body)
+ * @returns Plain-text message for an EIP-191 personal signature
+ */
+export function buildAlertActionMessage(
+  action: AlertAction,
+  alertId: string,
+  timestamp: number,
+  changes?: object
+): string {
+  const lines = ["x402 CRE Price Alerts", `Action: ${action}`, `Alert: ${alertId}`, `Timestamp: ${timestamp}`];
+  if (action === "update") {
+    lines.push(`Changes: ${canonicalJson(changes ?? {})}`);
+  }
+  return lines.join("\n");
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Verifies that an alert action was signed by the alert's payer
+ *
+ * @param signed - Signed action
+ * @param payer - Payer address of the alert
+ * @param lastSignedAt - Timestamp of the last accepted action on the alert (if any)
+ * @returns Error message, or null if the signature is valid
+ */
+export async function verifyAlertAction(
+  signed: SignedAlertAction,
+  payer: string,
+  lastSignedAt?: number
+): Promise<string | null> {
+  if (!/^0x[0-9a-fA-F]{40}$/.test(payer)) {
+    return "The alert has no known payer, so it cannot be changed";
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!Number.isInteger(signed.timestamp) || signed.timestamp > now + MAX_CLOCK_SKEW_SECONDS) {
+    return "Invalid signature timestamp";
+  }
+  if (now - signed.timestamp > SIGNATURE_MAX_AGE_SECONDS) {
+    return `Signature expired (older than ${SIGNATURE_MAX_AGE_SECONDS}s)`;
+  }
+  if (lastSignedAt !== undefined && signed.timestamp <= lastSignedAt) {
+    return "Signature timestamp must be newer than the last change of the alert";
+  }
+  if (!/^0x[0-9a-fA-F]+$/.test(signed.signature)) {
+    return "Invalid signature";
+  }
+
+  let valid = false;
+  try {
+    valid = await verifyMessage({
+      address: payer as Hex,
+      message: buildAlertActionMessage(signed.action, signed.alertId, signed.timestamp, signed.changes),
+      signature: signed.signature as Hex,
+    });
+  } catch {
+    valid = false;
+  }
+  return valid ? null : "Signature does not match the alert's payer";
+}
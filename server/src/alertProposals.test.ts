@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, test, setSystemTime } from "bun:test";
+import { createAlertProposalStore } from "./alertProposals";
+import type { PriceAlertPayload } from "./x402Client";
+
+/**
+ * Alert Proposal Tests
+ *
+ * Single-use confirmation tokens and proposal expiry, with the system clock
+ * pinned per test.
+ */
+
+const NOW = 1_765_000_000;
+const ALERT: PriceAlertPayload = { asset: "BTC", condition: "lt", targetPriceUsd: "60000" };
+
+/**
+ * Sets the clock to a number of seconds after NOW
+ */
+function setClock(seconds: number): void {
+  setSystemTime(new Date((NOW + seconds) * 1000));
+}
+
+beforeEach(() => {
+  setClock(0);
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("proposals", () => {
+  test("returns a proposal once for its token", () => {
+    const store = createAlertProposalStore(300);
+    const proposal = store.create(ALERT, "$0.01", "session-1");
+
+    expect(proposal).toMatchObject({ alert: ALERT, priceUsd: "$0.01", sessionId: "session-1", expiresAt: NOW + 300 });
+    expect(store.take(proposal.token)).toBe(proposal);
+    expect(store.take(proposal.token)).toBeUndefined();
+  });
+
+  test("expires a proposal after ttlSeconds", () => {
+    const store = createAlertProposalStore(300);
+    const confirmed = store.create(ALERT, "$0.01", "session-1");
+    const late = store.create(ALERT, "$0.01", "session-1");
+
+    setClock(300);
+    expect(store.take(confirmed.token)).toBe(confirmed);
+    setClock(301);
+    expect(store.take(late.token)).toBeUndefined();
+  });
+
+  test("issues a different token for each proposal", () => {
+    const store = createAlertProposalStore(300);
+
+    expect(store.create(ALERT, "$0.01", "session-1").token).not.toBe(store.create(ALERT, "$0.01", "session-1").token);
+    expect(store.take("unknown")).toBeUndefined();
+  });
+});
@@ -0,0 +1,101 @@
+import { randomBytes } from "node:crypto";
+import type { PriceAlertPayload } from "./x402Client";
+
+/**
+ * Alert Proposals
+ *
+ * POST /chat never pays on its own: when the LLM extracts an alert, the server
+ * stores it as a proposal and returns a confirmation token with the quoted
+ * price. Only POST /chat/confirm with that token runs the paid creation, so a
+ * misparsed price or a hallucinated function call cannot spend USDC from the
+ * agent wallet without a human check.
+ *
+ * Tokens are single-use and proposals expire after a short time. Proposals
+ * live in process memory only: an unconfirmed proposal is simply dropped.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Alert awaiting confirmation before payment
+ */
+export interface AlertProposal {
+  /** Random single-use confirmation token */
+  token: string;
+  /** Validated alert parameters, sent to /alerts as-is on confirmation */
+  alert: PriceAlertPayload;
+  /** Quoted x402 price of the alert (e.g. "$0.01") */
+  priceUsd: string;
+  /** Chat session that produced the proposal */
+  sessionId: string;
+  /** UNIX timestamp in seconds after which the proposal cannot be confirmed */
+  expiresAt: number;
+}
+
+/**
+ * Alert proposal store interface
+ */
+export interface AlertProposalStore {
+  /** Stores a new proposal and returns it with its confirmation token */
+  create(alert: PriceAlertPayload, priceUsd: string, sessionId: string): AlertProposal;
+  /** Removes and returns a live proposal, or undefined if the token is unknown or expired */
+  take(token: string): AlertProposal | undefined;
+}
+
+// ============================================================================
+// Store Implementation
+// ============================================================================
+
+/**
+ * Creates an in-memory alert proposal store
+ *
+ * @param ttlSeconds - Seconds a proposal can be confirmed for
+ * @returns AlertProposalStore instance
+ */
+export function createAlertProposalStore(ttlSeconds: number): AlertProposalStore {
+  const proposals = new Map<string, AlertProposal>();
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const evictExpired = () => {
+    for (const [token, proposal] of proposals) {
+      if (now() > proposal.expiresAt) {
+        proposals.delete(token);
+      }
+    }
+  };
+
+  return {
+    create(alert, priceUsd, sessionId) {
+      evictExpired();
+      const proposal: AlertProposal = {
+        token: randomBytes(16).toString("hex"),
+        alert,
+        priceUsd,
+        sessionId,
+        expiresAt: now() + ttlSeconds,
+      };
+      proposals.set(proposal.token, proposal);
+      return proposal;
+    },
+
+    take(token) {
+      evictExpired();
+      const proposal = proposals.get(token);
+      proposals.delete(token);
+      return proposal;
+    },
+  };
+}
+
+/**
+ * Creates an alert proposal store from environment variables
+ *
+ * @requires CHAT_PROPOSAL_TTL_SECONDS - Seconds a proposal can be confirmed for (default: 300)
+ * @returns AlertProposalStore instance
+ */
+export function createAlertProposalStoreFromEnv(): AlertProposalStore {
+  return createAlertProposalStore(Number(process.env.CHAT_PROPOSAL_TTL_SECONDS ?? 300));
+}
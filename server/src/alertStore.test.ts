@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, test, setSystemTime } from "bun:test";
+import { createMemoryAlertStore } from "./alertStore";
+import type { StoredAlert } from "./types";
+
+/**
+ * Alert Store Tests
+ *
+ * Lifecycle expiry of stored alerts, with the system clock set per test, and
+ * the compare-and-set that records signed cancels and edits.
+ */
+
+const CREATED_AT = 1_765_000_000;
+
+/**
+ * Creates an alert created at CREATED_AT with a one hour lifetime
+ */
+function createAlert(overrides: Partial<StoredAlert> = {}): StoredAlert {
+  return {
+    id: "a1",
+    payer: "0x000000000000000000000000000000000000dEaD",
+    asset: "BTC",
+    condition: "gt",
+    targetPriceUsd: "60000",
+    chain: "ethereum-testnet-sepolia-base-1",
+    channel: "pushover",
+    createdAt: CREATED_AT,
+    expiresAt: CREATED_AT + 3600,
+    status: "paid",
+    updatedAt: CREATED_AT,
+    delivery: { status: "skipped", attempts: 0 },
+    ...overrides,
+  };
+}
+
+/**
+ * Sets the clock to a number of seconds after CREATED_AT
+ */
+function setClock(secondsAfterCreation: number): void {
+  setSystemTime(new Date((CREATED_AT + secondsAfterCreation) * 1000));
+}
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("expiry", () => {
+  test("expires an alert once its expiresAt has passed", async () => {
+    const store = createMemoryAlertStore({ ttlSeconds: 1800, pendingPaymentSeconds: 600 }, undefined, [
+      createAlert({ status: "onchain" }),
+    ]);
+
+    setClock(3600);
+    expect((await store.get("a1"))?.status).toBe("onchain");
+    setClock(3601);
+    expect((await store.get("a1"))?.status).toBe("expired");
+  });
+
+  test("expires an alert whose payment did not settle within pendingPaymentSeconds", async () => {
+    const store = createMemoryAlertStore({ ttlSeconds: 1800, pendingPaymentSeconds: 600 }, undefined, [
+      createAlert({ status: "pending_payment" }),
+    ]);
+
+    setClock(600);
+    expect((await store.get("a1"))?.status).toBe("pending_payment");
+    setClock(601);
+    expect((await store.list({ status: "expired" })).map((alert) => alert.id)).toEqual(["a1"]);
+  });
+
+  test("keeps cancelled alerts cancelled", async () => {
+    const store = createMemoryAlertStore({ ttlSeconds: 1800, pendingPaymentSeconds: 600 }, undefined, [
+      createAlert({ status: "cancelled" }),
+    ]);
+
+    setClock(7200);
+    expect((await store.get("a1"))?.status).toBe("cancelled");
+  });
+
+  test("persists the alerts a list expires in one write", async () => {
+    const writes: string[][] = [];
+    const store = createMemoryAlertStore(
+      { ttlSeconds: 1800, pendingPaymentSeconds: 600 },
+      (alerts) => writes.push(alerts.map((alert) => alert.status)),
+      [createAlert({ id: "a1" }), createAlert({ id: "a2" }), createAlert({ id: "a3", expiresAt: CREATED_AT + 7200 })]
+    );
+
+    setClock(3601);
+    await store.list();
+    await store.list();
+
+    expect(writes).toEqual([["expired", "expired", "paid"]]);
+  });
+});
+
+describe("compareAndUpdate", () => {
+  test("applies the patch only while the alert has the expected values", async () => {
+    const store = createMemoryAlertStore({ ttlSeconds: 1800, pendingPaymentSeconds: 600 }, undefined, [
+      createAlert({ lastSignedAt: CREATED_AT + 10 }),
+    ]);
+    setClock(60);
+
+    const first = await store.compareAndUpdate("a1", { lastSignedAt: CREATED_AT + 10 }, {
+      status: "cancelled",
+      lastSignedAt: CREATED_AT + 50,
+    });
+    // A second request that checked the same signature loses the race
+    const second = await store.compareAndUpdate("a1", { lastSignedAt: CREATED_AT + 10 }, {
+      condition: "lt",
+      lastSignedAt: CREATED_AT + 55,
+    });
+
+    expect(first?.status).toBe("cancelled");
+    expect(second).toBeNull();
+    expect(await store.get("a1")).toMatchObject({ condition: "gt", lastSignedAt: CREATED_AT + 50 });
+  });
+
+  test("matches an alert that was never signed for by an undefined value", async () => {
+    const store = createMemoryAlertStore({ ttlSeconds: 1800, pendingPaymentSeconds: 600 }, undefined, [createAlert()]);
+    setClock(60);
+
+    expect(await store.compareAndUpdate("missing", { lastSignedAt: undefined }, { status: "cancelled" })).toBeNull();
+    expect((await store.compareAndUpdate("a1", { lastSignedAt: undefined }, { status: "cancelled" }))?.status).toBe(
+      "cancelled"
+    );
+  });
+});
@@ -0,0 +1,262 @@
+import fs from "node:fs";
+import path from "node:path";
+import type { AlertStatus, StoredAlert } from "./types";
+
+/**
+ * Alert Store
+ *
+ * This module persists alerts created through POST /alerts so the server can
+ * answer "what happened to my alert?" after the initial response.
+ *
+ * Each alert keeps its payer, settlement transaction hash, CRE delivery record
+ * and lifecycle status (pending_payment → paid → dispatched → onchain →
+ * triggered, expired once its expiresAt passes or if its payment never
+ * settles, or cancelled by the payer).
+ *
+ * Implementations:
+ * - File store (default): JSON file on disk, rewritten atomically on each change
+ * - Memory store: process-local map, lost on restart (useful for demos)
+ *
+ * Any other backend (SQLite, Postgres, ...) can be plugged in by implementing
+ * the AlertStore interface.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Filter for listing alerts (all fields optional, combined with AND)
+ */
+export interface AlertFilter {
+  /** Payer wallet address (case-insensitive) */
+  payer?: string;
+  /** Asset symbol (case-insensitive) */
+  asset?: string;
+  /** Chain selector name */
+  chain?: string;
+  /** Lifecycle status */
+  status?: AlertStatus;
+}
+
+/**
+ * Alert persistence interface
+ */
+export interface AlertStore {
+  /** Inserts or replaces an alert */
+  put(alert: StoredAlert): Promise<void>;
+  /** Returns an alert by ID, or null if it does not exist */
+  get(id: string): Promise<StoredAlert | null>;
+  /** Returns all alerts matching the filter, newest first */
+  list(filter?: AlertFilter): Promise<StoredAlert[]>;
+  /** Applies a partial update to an alert and returns the updated alert */
+  update(id: string, patch: Partial<Omit<StoredAlert, "id">>): Promise<StoredAlert | null>;
+  /**
+   * Applies a partial update only if the alert still has the expected field
+   * values (compare-and-set), and returns the updated alert, or null if the
+   * alert does not exist or changed
+   */
+  compareAndUpdate(
+    id: string,
+    expected: Partial<StoredAlert>,
+    patch: Partial<Omit<StoredAlert, "id">>
+  ): Promise<StoredAlert | null>;
+}
+
+/**
+ * Options shared by the built-in stores
+ */
+export interface AlertStoreOptions {
+  /** Lifetime (seconds) of alerts stored without an expiresAt, after which they are reported as expired */
+  ttlSeconds: number;
+  /** Seconds an alert can stay pending_payment before its payment is considered failed and it is reported as expired */
+  pendingPaymentSeconds: number;
+}
+
+/**
+ * Lifecycle statuses after which an alert can no longer expire
+ */
+const FINAL_STATUSES: AlertStatus[] = ["expired", "cancelled"];
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Marks an alert as expired once its expiresAt has passed, or once it has
+ * waited longer than pendingPaymentSeconds for its payment to settle (the
+ * server stopped before settlement, or its status was never updated)
+ *
+ * @param alert - Alert to check
+ * @param options - Store options
+ * @returns true if the alert status was changed
+ */
+function applyExpiry(alert: StoredAlert, options: AlertStoreOptions): boolean {
+  const now = Math.floor(Date.now() / 1000);
+  const expiresAt =
+    alert.status === "pending_payment"
+      ? Math.min(alert.createdAt + options.pendingPaymentSeconds, alert.expiresAt ?? Infinity)
+      : alert.expiresAt ?? alert.createdAt + options.ttlSeconds;
+  if (FINAL_STATUSES.includes(alert.status) || now <= expiresAt) {
+    return false;
+  }
+  alert.status = "expired";
+  alert.updatedAt = now;
+  return true;
+}
+
+/**
+ * Returns true if an alert matches a filter
+ */
+function matchesFilter(alert: StoredAlert, filter: AlertFilter): boolean {
+  if (filter.payer && alert.payer.toLowerCase() !== filter.payer.toLowerCase()) {
+    return false;
+  }
+  if (filter.asset && alert.asset.toUpperCase() !== filter.asset.toUpperCase()) {
+    return false;
+  }
+  if (filter.chain && alert.chain !== filter.chain) {
+    return false;
+  }
+  if (filter.status && alert.status !== filter.status) {
+    return false;
+  }
+  return true;
+}
+
+// ============================================================================
+// Store Implementations
+// ============================================================================
+
+/**
+ * Creates an in-memory alert store
+ *
+ * @param options - Store options
+ * @param onChange - Optional callback invoked with all alerts after each change
+ * @param initial - Optional alerts to seed the store with
+ * @returns AlertStore instance
+ */
+export function createMemoryAlertStore(
+  options: AlertStoreOptions,
+  onChange?: (alerts: StoredAlert[]) => void,
+  initial: StoredAlert[] = []
+): AlertStore {
+  const alerts = new Map<string, StoredAlert>(initial.map((alert) => [alert.id, alert]));
+
+  const changed = () => onChange?.([...alerts.values()]);
+
+  /**
+   * Applies expiry to an alert and persists the change if needed
+   */
+  const refresh = (alert: StoredAlert): StoredAlert => {
+    if (applyExpiry(alert, options)) {
+      changed();
+    }
+    return { ...alert };
+  };
+
+  return {
+    async put(alert) {
+      alerts.set(alert.id, { ...alert });
+      changed();
+    },
+
+    async get(id) {
+      const alert = alerts.get(id);
+      return alert ? refresh(alert) : null;
+    },
+
+    async list(filter = {}) {
+      // Expiry is applied to every alert before persisting, so the changes are written once
+      const all = [...alerts.values()];
+      if (all.filter((alert) => applyExpiry(alert, options)).length > 0) {
+        changed();
+      }
+      return all
+        .filter((alert) => matchesFilter(alert, filter))
+        .map((alert) => ({ ...alert }))
+        .sort((a, b) => b.createdAt - a.createdAt);
+    },
+
+    async update(id, patch) {
+      const alert = alerts.get(id);
+      if (!alert) {
+        return null;
+      }
+      Object.assign(alert, patch, { updatedAt: Math.floor(Date.now() / 1000) });
+      changed();
+      return { ...alert };
+    },
+
+    async compareAndUpdate(id, expected, patch) {
+      const alert = alerts.get(id);
+      const fields = Object.entries(expected) as [keyof StoredAlert, unknown][];
+      if (!alert || fields.some(([field, value]) => alert[field] !== value)) {
+        return null;
+      }
+      Object.assign(alert, patch, { updatedAt: Math.floor(Date.now() / 1000) });
+      changed();
+      return { ...alert };
+    },
+  };
+}
+
+/**
+ * Creates a file-backed alert store
+ *
+ * Alerts are held in memory and the whole set is written to a JSON file after
+ * every change (via a temporary file + rename, so a crash never leaves a
+ * half-written file behind).
+ *
+ * @param filePath - Path of the JSON file (created if it does not exist)
+ * @param options - Store options
+ * @returns AlertStore instance
+ */
+export function createFileAlertStore(filePath: string, options: AlertStoreOptions): AlertStore {
+  let initial: StoredAlert[] = [];
+  if (fs.existsSync(filePath)) {
+    initial = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  return createMemoryAlertStore(
+    options,
+    (alerts) => {
+      const tmpPath = `${filePath}.tmp`;
+      fs.writeFileSync(tmpPath, JSON.stringify(alerts, null, 2));
+      fs.renameSync(tmpPath, filePath);
+    },
+    initial
+  );
+}
+
+/**
+ * Creates an alert store from environment variables
+ *
+ * @requires ALERT_STORE - "file" (default) or "memory"
+ * @requires ALERT_STORE_PATH - JSON file path for the file store (default: server/data/alerts.json)
+ * @requires ALERT_TTL_SECONDS - Lifetime in seconds of alerts stored without an expiresAt (default: 1800)
+ * @requires ALERT_PENDING_PAYMENT_SECONDS - Seconds an alert can wait for its payment to settle (default: 600)
+ * @returns AlertStore instance
+ * @throws Error if ALERT_STORE names an unknown backend
+ */
+export function createAlertStoreFromEnv(): AlertStore {
+  const options: AlertStoreOptions = {
+    ttlSeconds: Number(process.env.ALERT_TTL_SECONDS ?? 1800),
+    pendingPaymentSeconds: Number(process.env.ALERT_PENDING_PAYMENT_SECONDS ?? 600),
+  };
+
+  const backend = process.env.ALERT_STORE || "file";
+  switch (backend) {
+    case "file":
+      return createFileAlertStore(
+        process.env.ALERT_STORE_PATH || path.resolve(__dirname, "../data/alerts.json"),
+        options
+      );
+    case "memory":
+      return createMemoryAlertStore(options);
+    default:
+      throw new Error(`Unknown ALERT_STORE "${backend}". Must be one of: file, memory`);
+  }
+}
@@ -0,0 +1,193 @@
+import fs from "node:fs";
+import path from "node:path";
+
+/**
+ * Asset Catalog
+ *
+ * The supported assets are defined once, in the `assets` list of the CRE
+ * workflow config (cre/alerts/config.*.json), together with their Chainlink
+ * feed addresses and decimals. The server reads the same file so request
+ * validation and the Gemini tool enum always match what the cron trigger
+ * can monitor. Adding an asset only requires a config change.
+ *
+ * Each `evms` entry is one chain with its own catalog, so an alert's asset is
+ * validated against the catalog of the chain it targets.
+ *
+ * The enabled notification channels and the rule lifetime bounds are read
+ * from the same config.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Asset catalog entry (matches AssetConfig in cre/alerts/types.ts)
+ */
+export interface AssetConfig {
+  /** Asset symbol used in alerts (e.g., "BTC") */
+  symbol: string;
+  /** Chainlink USD price feed address */
+  feedAddress: string;
+  /** Decimals of the price feed answer */
+  decimals: number;
+  /** Minimum number of decimals shown when displaying prices */
+  displayDecimals: number;
+  /** Maximum age (seconds) of a feed answer before the workflow rejects it */
+  maxStalenessSeconds: number;
+}
+
+/**
+ * Rule lifetime settings of the workflow config (ruleTTL, minRuleTTL, maxRuleTTL in cre/alerts/types.ts)
+ */
+export interface RuleLifetimeConfig {
+  /** Lifetime in seconds of alerts that do not choose an expiresAt */
+  defaultSeconds: number;
+  /** Shortest lifetime in seconds an alert may choose */
+  minSeconds: number;
+  /** Longest lifetime in seconds an alert may choose */
+  maxSeconds: number;
+}
+
+/**
+ * Chain entry of the workflow config (matches EvmConfig in cre/alerts/types.ts)
+ */
+export interface ChainConfig {
+  /** Chain selector name (e.g., "ethereum-testnet-sepolia-base-1") */
+  chainSelectorName: string;
+  /** RuleRegistry contract the workflow writes this chain's rules to */
+  ruleRegistryAddress?: string;
+  /** Assets monitored on this chain */
+  assets: AssetConfig[];
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Resolves the workflow config path
+ *
+ * Uses CRE_WORKFLOW_CONFIG if set, otherwise the config file matching
+ * CRE_TARGET (production-settings → config.production.json, anything else →
+ * config.staging.json), mirroring cre/alerts/workflow.yaml.
+ */
+function resolveWorkflowConfigPath(): string {
+  if (process.env.CRE_WORKFLOW_CONFIG) {
+    return path.resolve(process.env.CRE_WORKFLOW_CONFIG);
+  }
+  const file = process.env.CRE_TARGET === "production-settings" ? "config.production.json" : "config.staging.json";
+  return path.resolve(__dirname, "../../cre/alerts", file);
+}
+
+/**
+ * Validates an asset catalog entry
+ *
+ * @throws Error if the symbol is not uppercase or the decimals are not integers
+ */
+function validateAsset(asset: AssetConfig, configPath: string): void {
+  if (typeof asset.symbol !== "string" || !/^[A-Z0-9]+$/.test(asset.symbol)) {
+    throw new Error(`Invalid asset symbol "${asset.symbol}" in ${configPath} (must be uppercase)`);
+  }
+  if (!Number.isInteger(asset.decimals) || !Number.isInteger(asset.displayDecimals)) {
+    throw new Error(`Asset "${asset.symbol}" in ${configPath} must define integer decimals and displayDecimals`);
+  }
+}
+
+/**
+ * Loads the configured chains and their asset catalogs from the CRE workflow config
+ *
+ * The first chain is the default target for alerts that do not name one.
+ *
+ * @returns Chain entries, in config order
+ * @throws Error if the config cannot be read or contains no chain with assets
+ */
+export function loadChainCatalog(): ChainConfig[] {
+  const configPath = resolveWorkflowConfigPath();
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  const chains: ChainConfig[] = [];
+  for (const evm of config.evms ?? []) {
+    if (typeof evm.chainSelectorName !== "string" || !evm.chainSelectorName) {
+      throw new Error(`Missing chainSelectorName in ${configPath}`);
+    }
+    if (chains.some((chain) => chain.chainSelectorName === evm.chainSelectorName)) {
+      throw new Error(`Duplicate chain "${evm.chainSelectorName}" in ${configPath}`);
+    }
+    const assets: AssetConfig[] = evm.assets ?? [];
+    assets.forEach((asset) => validateAsset(asset, configPath));
+    chains.push({ chainSelectorName: evm.chainSelectorName, ruleRegistryAddress: evm.ruleRegistryAddress, assets });
+  }
+
+  if (!chains.some((chain) => chain.assets.length > 0)) {
+    throw new Error(`No assets configured in ${configPath}`);
+  }
+
+  return chains;
+}
+
+/**
+ * Loads the asset catalog from the CRE workflow config
+ *
+ * Assets are merged across all chains by symbol.
+ *
+ * @param chains - Chain catalog (default: loaded from the workflow config)
+ * @returns Asset catalog entries
+ * @throws Error if the config cannot be read or contains no valid assets
+ */
+export function loadAssetCatalog(chains: ChainConfig[] = loadChainCatalog()): AssetConfig[] {
+  const catalog = new Map<string, AssetConfig>();
+  for (const chain of chains) {
+    for (const asset of chain.assets) {
+      catalog.set(asset.symbol, asset);
+    }
+  }
+  return [...catalog.values()];
+}
+
+/**
+ * Loads the notification channels enabled in the CRE workflow config
+ *
+ * The first channel is the default for alerts that do not choose one.
+ *
+ * @returns Enabled channel names (e.g. ["pushover", "slack"])
+ * @throws Error if the config cannot be read or enables no channel
+ */
+export function loadNotificationChannels(): string[] {
+  const configPath = resolveWorkflowConfigPath();
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  const channels = config.notificationChannels;
+  if (!Array.isArray(channels) || channels.length === 0 || !channels.every((c) => typeof c === "string")) {
+    throw new Error(`notificationChannels in ${configPath} must be a non-empty list of channel names`);
+  }
+  return channels;
+}
+
+/**
+ * Loads the rule lifetime bounds from the CRE workflow config
+ *
+ * Uses the same defaults as the workflow: minRuleTTL 60 seconds, maxRuleTTL
+ * equal to ruleTTL (so alerts cannot outlive the default unless configured).
+ *
+ * @returns Default, shortest and longest rule lifetime in seconds
+ * @throws Error if the config cannot be read or the bounds are invalid
+ */
+export function loadRuleLifetime(): RuleLifetimeConfig {
+  const configPath = resolveWorkflowConfigPath();
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  const lifetime: RuleLifetimeConfig = {
+    defaultSeconds: config.ruleTTL,
+    minSeconds: config.minRuleTTL ?? 60,
+    maxSeconds: config.maxRuleTTL ?? config.ruleTTL,
+  };
+  if (
+    !Object.values(lifetime).every((seconds) => Number.isInteger(seconds) && seconds > 0) ||
+    lifetime.minSeconds > lifetime.defaultSeconds ||
+    lifetime.defaultSeconds > lifetime.maxSeconds
+  ) {
+    throw new Error(`ruleTTL, minRuleTTL and maxRuleTTL in ${configPath} must be positive integers with minRuleTTL <= ruleTTL <= maxRuleTTL`);
+  }
+  return lifetime;
+}
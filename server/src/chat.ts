@@ -5,10 +5,17 @@
  * the price alert system. Users can type messages directly instead of using curl.
  * 
  * The chat interface makes HTTP requests to the server's /chat endpoint
- * and displays responses in a user-friendly format.
+ * and displays responses in a user-friendly format. The session ID returned
+ * by the server is sent with every following message, so the conversation
+ * keeps its context until the user types 'new'.
+ *
+ * Alerts are never paid for without confirmation: /chat returns a proposal,
+ * and answering 'yes' sends its confirmation token to /chat/confirm.
  */
 
 import { createInterface } from "readline";
+import { buildWorkflowPayload } from "./creDispatcher";
+import { maskDestination } from "./destinations";
 
 /**
  * Starts an interactive chat interface in the terminal
@@ -28,9 +35,16 @@ export function startChatInterface(port: number = 3000): void {
 
   const SERVER_URL = `http://localhost:${port}`;
 
+  // Conversation session ID (assigned by the server on the first message)
+  let sessionId: string | undefined;
+
+  // Confirmation token of the alert proposal awaiting a yes/no answer
+  let pendingToken: string | undefined;
+
   console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
   console.log("Interactive Chat Enabled");
   console.log("Type your message and press Enter (type 'exit' or 'quit' to leave)");
+  console.log("Type 'new' to start a new conversation");
   console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
 
   rl.prompt();
@@ -45,36 +59,98 @@ export function startChatInterface(port: number = 3000): void {
       return;
     }
 
+    // Start a new conversation
+    if (message === "new") {
+      sessionId = undefined;
+      pendingToken = undefined;
+      console.log("\nStarted a new conversation.\n");
+      rl.prompt();
+      return;
+    }
+
     // Skip empty messages
     if (!message) {
       rl.prompt();
       return;
     }
 
-    // Send message to /chat endpoint
+    // Answer to a pending proposal: 'yes' pays for the alert, 'no' discards it
+    const answer = message.toLowerCase();
+    if (pendingToken && (answer === "no" || answer === "n" || answer === "cancel")) {
+      pendingToken = undefined;
+      console.log("\nProposal discarded. Nothing was paid.\n");
+      rl.prompt();
+      return;
+    }
+    const confirmationToken = pendingToken && (answer === "yes" || answer === "y" || answer === "confirm")
+      ? pendingToken
+      : undefined;
+    // Any other message supersedes the pending proposal
+    pendingToken = undefined;
+
+    // Send message to /chat endpoint (or the confirmation to /chat/confirm)
     try {
-      const response = await fetch(`${SERVER_URL}/chat`, {
+      const response = await fetch(`${SERVER_URL}${confirmationToken ? "/chat/confirm" : "/chat"}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json"
         },
-        body: JSON.stringify({ message })
+        body: JSON.stringify(confirmationToken ? { confirmationToken } : { message, sessionId })
       });
 
       if (!response.ok) {
         const error = await response.json().catch(() => ({ error: response.statusText }));
+        // Keep the session so the request can be corrected in the next message
+        sessionId = error.sessionId ?? sessionId;
         console.log(`\n[ERROR] ${error.error || response.statusText}\n`);
         rl.prompt();
         return;
       }
 
       const data = await response.json();
+      sessionId = data.sessionId ?? sessionId;
 
       // Display reply
       if (data.reply) {
         console.log(`\n${data.reply}\n`);
       }
 
+      // Display proposal and ask for confirmation
+      if (data.proposal) {
+        pendingToken = data.proposal.confirmationToken;
+        const expiresAt = new Date(data.proposal.expiresAt * 1000).toLocaleTimeString();
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+        console.log("Proposed Alert:");
+        console.log(`  Asset: ${data.proposal.alert.asset}`);
+        console.log(`  Condition: ${data.proposal.alert.condition}`);
+        if (data.proposal.alert.changePercent !== undefined) {
+          console.log(`  Change: ${data.proposal.alert.direction} ${data.proposal.alert.changePercent}% within ${data.proposal.alert.windowSeconds}s`);
+        } else if (data.proposal.alert.quoteAsset !== undefined) {
+          const ratio = data.proposal.alert.upperPriceUsd !== undefined ? `${data.proposal.targetPriceUsd} - ${data.proposal.alert.upperPriceUsd}` : data.proposal.targetPriceUsd;
+          console.log(`  Ratio: ${data.proposal.alert.asset}/${data.proposal.alert.quoteAsset} ${ratio}`);
+        } else if (data.proposal.alert.upperPriceUsd !== undefined) {
+          console.log(`  Price Band: $${data.proposal.targetPriceUsd} - $${data.proposal.alert.upperPriceUsd}`);
+        } else {
+          console.log(`  Target Price: $${data.proposal.targetPriceUsd}`);
+        }
+        if (data.proposal.alert.relativeTarget) {
+          const { type, value } = data.proposal.alert.relativeTarget;
+          console.log(`  Relative Target: ${type === "percent" ? `${value}%` : `$${value}`} from $${data.proposal.alert.referencePriceUsd}`);
+        }
+        if (data.proposal.alert.chain) {
+          console.log(`  Chain: ${data.proposal.alert.chain}`);
+        }
+        if (data.proposal.alert.channel) {
+          console.log(`  Notification Channel: ${data.proposal.alert.channel}`);
+        }
+        if (data.proposal.alert.expiresInSeconds) {
+          console.log(`  Active For: ${(data.proposal.alert.expiresInSeconds / 3600).toFixed(1)} hours after creation`);
+        }
+        console.log(`  Price: ${data.proposal.priceUsd}`);
+        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+        console.log(`\nType 'yes' to pay and create it, or 'no' to discard (expires at ${expiresAt})\n`);
+      }
+
       // Display alert details if created
       if (data.alert) {
         console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
@@ -82,23 +158,50 @@ export function startChatInterface(port: number = 3000): void {
         console.log(`  ID: ${data.alert.id}`);
         console.log(`  Asset: ${data.alert.asset}`);
         console.log(`  Condition: ${data.alert.condition}`);
-        console.log(`  Target Price: $${data.alert.targetPriceUsd.toLocaleString()}`);
+        if (data.alert.changePercent !== undefined) {
+          console.log(`  Change: ${data.alert.direction} ${data.alert.changePercent}% within ${data.alert.windowSeconds}s`);
+        } else if (data.alert.quoteAsset !== undefined) {
+          const ratio = data.alert.upperPriceUsd !== undefined ? `${data.alert.targetPriceUsd} - ${data.alert.upperPriceUsd}` : data.alert.targetPriceUsd;
+          console.log(`  Ratio: ${data.alert.asset}/${data.alert.quoteAsset} ${ratio}`);
+        } else if (data.alert.upperPriceUsd !== undefined) {
+          console.log(`  Price Band: $${data.alert.targetPriceUsd} - $${data.alert.upperPriceUsd}`);
+        } else {
+          console.log(`  Target Price: $${data.alert.targetPriceUsd}`);
+        }
+        if (data.alert.relativeTarget) {
+          const { type, value } = data.alert.relativeTarget;
+          console.log(`  Relative Target: ${type === "percent" ? `${value}%` : `$${value}`} from $${data.alert.referencePriceUsd}`);
+        }
+        console.log(`  Chain: ${data.alert.chain}`);
+        console.log(`  Notification Channel: ${data.alert.channel}`);
+        console.log(`  Active Until: ${new Date(data.alert.expiresAt * 1000).toLocaleString()}`);
+        if (data.alert.priceUsd) {
+          console.log(`  Paid: ${data.alert.priceUsd}`);
+        }
         if (data.transactionHash) {
           console.log(`  Transaction: ${data.transactionHash}`);
         }
         console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-        
-        // Output CRE workflow payload
-        const workflowPayload = {
-          id: data.alert.id,
-          asset: data.alert.asset,
-          condition: data.alert.condition,
-          targetPriceUsd: data.alert.targetPriceUsd,
-          createdAt: data.alert.createdAt
-        };
-        console.log("\nCRE Workflow Payload (copy for HTTP trigger):\n");
-        console.log(JSON.stringify(workflowPayload));
-        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+        // Payload is forwarded automatically when the server has a CRE HTTP trigger configured
+        if (data.alert.delivery && data.alert.delivery.status !== "skipped") {
+          console.log(`\nCRE HTTP trigger delivery: ${data.alert.delivery.status}\n`);
+        } else {
+          // Output the CRE workflow payload the server would dispatch; the alert
+          // was returned before settlement, so the settlement hash comes from
+          // the payment response. The destination is masked before printing.
+          const workflowPayload = buildWorkflowPayload({
+            ...data.alert,
+            destination: data.alert.destination && maskDestination(data.alert.destination),
+            settlementTxHash: data.alert.settlementTxHash ?? data.transactionHash,
+          });
+          console.log("\nCRE Workflow Payload (copy for HTTP trigger):\n");
+          console.log(JSON.stringify(workflowPayload));
+          if (data.alert.destination) {
+            console.log("\nThe destination is masked here; the server log holds the payload with the full destination.");
+          }
+          console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+        }
       }
     } catch (error: any) {
       console.log(`\n[ERROR] ${error.message}\n`);
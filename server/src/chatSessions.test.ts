@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, test, setSystemTime } from "bun:test";
+import { createChatSessionStore, type ChatMessage } from "./chatSessions";
+
+/**
+ * Chat Session Tests
+ *
+ * Bounded history, inactivity expiry and eviction of chat sessions, with the
+ * system clock pinned per test.
+ */
+
+const NOW = 1_765_000_000;
+
+/**
+ * Sets the clock to a number of seconds after NOW
+ */
+function setClock(seconds: number): void {
+  setSystemTime(new Date((NOW + seconds) * 1000));
+}
+
+/**
+ * Returns a user and assistant turn
+ */
+function turn(index: number): ChatMessage[] {
+  return [
+    { role: "user", content: `question ${index}` },
+    { role: "assistant", content: `answer ${index}` },
+  ];
+}
+
+beforeEach(() => {
+  setClock(0);
+});
+
+afterEach(() => {
+  setSystemTime();
+});
+
+describe("history", () => {
+  test("keeps the most recent messages, starting with a user turn", () => {
+    const store = createChatSessionStore({ maxMessages: 5, ttlSeconds: 1800, maxSessions: 10 });
+    const session = store.get();
+
+    store.append(session, ...turn(1), ...turn(2), ...turn(3));
+
+    // Five messages would start with "answer 1", so it is dropped as well
+    expect(session.messages.map((message) => message.content)).toEqual([
+      "question 2",
+      "answer 2",
+      "question 3",
+      "answer 3",
+    ]);
+  });
+
+  test("does not keep a tool result without the call that requested it", () => {
+    const store = createChatSessionStore({ maxMessages: 3, ttlSeconds: 1800, maxSessions: 10 });
+    const session = store.get();
+
+    store.append(
+      session,
+      { role: "user", content: "BTC below 60k" },
+      {
+        role: "assistant",
+        content: null,
+        tool_calls: [{ id: "call_1", type: "function", function: { name: "create_price_alert", arguments: "{}" } }],
+      },
+      { role: "tool", tool_call_id: "call_1", content: "{}" },
+      { role: "assistant", content: "Confirm?" }
+    );
+
+    expect(session.messages).toEqual([]);
+  });
+});
+
+describe("expiry", () => {
+  test("returns the same session until it was inactive for ttlSeconds", () => {
+    const store = createChatSessionStore({ maxMessages: 20, ttlSeconds: 1800, maxSessions: 10 });
+    const session = store.get();
+    store.append(session, ...turn(1));
+
+    setClock(1800);
+    expect(store.get(session.id)).toBe(session);
+    store.append(session, ...turn(2));
+    setClock(3600);
+    expect(store.get(session.id)).toBe(session);
+    setClock(3601);
+    const next = store.get(session.id);
+    expect(next.id).not.toBe(session.id);
+    expect(next.messages).toEqual([]);
+  });
+
+  test("starts a new session for unknown IDs", () => {
+    const store = createChatSessionStore({ maxMessages: 20, ttlSeconds: 1800, maxSessions: 10 });
+
+    expect(store.get("unknown").id).not.toBe("unknown");
+  });
+
+  test("evicts the least recently used session over maxSessions", () => {
+    const store = createChatSessionStore({ maxMessages: 20, ttlSeconds: 1800, maxSessions: 2 });
+    const first = store.get();
+    const second = store.get();
+    store.append(first, ...turn(1));
+
+    store.get();
+
+    expect(store.get(first.id)).toBe(first);
+    expect(store.get(second.id)).not.toBe(second);
+  });
+});
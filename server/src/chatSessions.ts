@@ -0,0 +1,137 @@
+import { randomUUID } from "node:crypto";
+import type OpenAI from "openai";
+
+/**
+ * Chat Sessions
+ *
+ * This module keeps the conversation history of POST /chat so follow-up turns
+ * ("make that ETH instead", "what about 5% lower?") can refer to earlier ones.
+ *
+ * Sessions are keyed by a random session ID returned to the client, which sends
+ * it back with the next message. History is bounded (oldest turns are dropped
+ * first) and sessions expire after a period of inactivity. Sessions live in
+ * process memory only: they are short-lived and never hold payment data.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Message in a chat session (OpenAI-compatible format sent to the LLM)
+ */
+export type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+/**
+ * Conversation state of a single client
+ */
+export interface ChatSession {
+  /** Random session ID (UUID) */
+  id: string;
+  /** Conversation history, oldest first (system prompt excluded) */
+  messages: ChatMessage[];
+  /** UNIX timestamp in seconds of the last activity */
+  updatedAt: number;
+}
+
+/**
+ * Chat session store options
+ */
+export interface ChatSessionStoreOptions {
+  /** Maximum number of history messages kept per session */
+  maxMessages: number;
+  /** Sessions inactive for longer than this (seconds) are discarded */
+  ttlSeconds: number;
+  /** Maximum number of live sessions (least recently used are evicted first) */
+  maxSessions: number;
+}
+
+/**
+ * Chat session store interface
+ */
+export interface ChatSessionStore {
+  /** Returns a live session by ID, or a new session if the ID is missing, unknown or expired */
+  get(id?: string): ChatSession;
+  /** Appends messages to a session, trims its history and refreshes its expiry */
+  append(session: ChatSession, ...messages: ChatMessage[]): void;
+}
+
+// ============================================================================
+// Store Implementation
+// ============================================================================
+
+/**
+ * Drops the oldest messages until the history fits and starts with a user turn
+ *
+ * Trimming never leaves a tool result without the assistant message that
+ * requested it, which the LLM API would reject.
+ */
+function trimHistory(messages: ChatMessage[], maxMessages: number): ChatMessage[] {
+  let start = Math.max(0, messages.length - maxMessages);
+  while (start < messages.length && messages[start].role !== "user") {
+    start++;
+  }
+  return messages.slice(start);
+}
+
+/**
+ * Creates an in-memory chat session store
+ *
+ * @param options - Store options
+ * @returns ChatSessionStore instance
+ */
+export function createChatSessionStore(options: ChatSessionStoreOptions): ChatSessionStore {
+  // Map iteration order doubles as least-recently-used order
+  const sessions = new Map<string, ChatSession>();
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const evictExpired = () => {
+    for (const [id, session] of sessions) {
+      if (now() - session.updatedAt > options.ttlSeconds) {
+        sessions.delete(id);
+      }
+    }
+  };
+
+  return {
+    get(id) {
+      evictExpired();
+      const existing = id ? sessions.get(id) : undefined;
+      if (existing) {
+        return existing;
+      }
+
+      const session: ChatSession = { id: randomUUID(), messages: [], updatedAt: now() };
+      sessions.set(session.id, session);
+      if (sessions.size > options.maxSessions) {
+        sessions.delete(sessions.keys().next().value as string);
+      }
+      return session;
+    },
+
+    append(session, ...messages) {
+      session.messages = trimHistory([...session.messages, ...messages], options.maxMessages);
+      session.updatedAt = now();
+      // Re-insert to mark the session as most recently used
+      sessions.delete(session.id);
+      sessions.set(session.id, session);
+    },
+  };
+}
+
+/**
+ * Creates a chat session store from environment variables
+ *
+ * @requires CHAT_SESSION_TTL_SECONDS - Inactivity timeout in seconds (default: 1800)
+ * @requires CHAT_SESSION_MAX_MESSAGES - History messages kept per session (default: 20)
+ * @requires CHAT_SESSION_MAX_SESSIONS - Maximum live sessions (default: 1000)
+ * @returns ChatSessionStore instance
+ */
+export function createChatSessionStoreFromEnv(): ChatSessionStore {
+  return createChatSessionStore({
+    ttlSeconds: Number(process.env.CHAT_SESSION_TTL_SECONDS ?? 1800),
+    maxMessages: Number(process.env.CHAT_SESSION_MAX_MESSAGES ?? 20),
+    maxSessions: Number(process.env.CHAT_SESSION_MAX_SESSIONS ?? 1000),
+  });
+}
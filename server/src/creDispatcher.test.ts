@@ -0,0 +1,242 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import {
+  buildWorkflowPayload,
+  createCreDispatcher,
+  createTriggerJwt,
+  verifyTriggerJwt,
+  type DeliveryRecord,
+} from "./creDispatcher";
+import type { StoredAlert } from "./types";
+
+/**
+ * CRE HTTP Trigger Dispatcher Tests
+ *
+ * The dispatcher posts to a local stand-in trigger that checks each request
+ * the way the CRE gateway does: the JWT must be signed by the workflow's
+ * publicKey and bound to the request body. Its responses are scripted per test.
+ */
+
+// ============================================================================
+// Stand-in Trigger
+// ============================================================================
+
+const PRIVATE_KEY: Hex = "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d";
+const OTHER_PRIVATE_KEY: Hex = "0x5de4111afa1a4b94908f83103eb1f1706367c2e68ca870fc3fb9a804cdab365a";
+const PUBLIC_KEY = privateKeyToAccount(PRIVATE_KEY).address;
+
+/**
+ * Request received by the stand-in trigger
+ */
+interface ReceivedRequest {
+  /** Parsed JSON-RPC body */
+  body: any;
+  /** Signer recovered from the JWT, or the verification error */
+  signer?: string;
+  error?: string;
+}
+
+/**
+ * Scripted response of the stand-in trigger (status and JSON body)
+ */
+type ScriptedResponse = { status: number; body?: object };
+
+let server: Server;
+let triggerUrl: string;
+let received: ReceivedRequest[];
+let responses: ScriptedResponse[];
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.text({ type: "*/*" }));
+  app.post("/", async (req, res) => {
+    const request: ReceivedRequest = { body: JSON.parse(req.body) };
+    received.push(request);
+
+    try {
+      const jwt = (req.header("authorization") ?? "").replace(/^Bearer /, "");
+      request.signer = await verifyTriggerJwt(jwt, req.body);
+    } catch (error: unknown) {
+      request.error = error instanceof Error ? error.message : String(error);
+    }
+    if (request.signer !== PUBLIC_KEY) {
+      return res.status(401).json({ error: request.error ?? "Signer is not authorized" });
+    }
+
+    const response = responses.shift() ?? { status: 200, body: { jsonrpc: "2.0", result: {} } };
+    return res.status(response.status).json(response.body ?? {});
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  triggerUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  received = [];
+  responses = [];
+});
+
+/**
+ * Creates a dispatcher posting to the stand-in trigger without backoff delays
+ */
+function createTestDispatcher(privateKey = PRIVATE_KEY, maxAttempts = 3) {
+  return createCreDispatcher({ triggerUrl, workflowId: "workflow-1", privateKey, maxAttempts, backoffMs: 1 });
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+describe("request signing", () => {
+  test("delivers a workflows.execute call signed by the publicKey", async () => {
+    const dispatcher = createTestDispatcher();
+    const record = await dispatcher.dispatch({ action: "create", id: "abc" });
+
+    expect(dispatcher.signer).toBe(PUBLIC_KEY);
+    expect(record.status).toBe("delivered");
+    expect(record.attempts).toBe(1);
+    expect(received).toHaveLength(1);
+    expect(received[0].signer).toBe(PUBLIC_KEY);
+    expect(received[0].body.method).toBe("workflows.execute");
+    expect(received[0].body.params).toEqual({
+      input: { action: "create", id: "abc" },
+      workflow: { workflowID: "workflow-1" },
+    });
+  });
+
+  test("is rejected by the trigger when signed by another key", async () => {
+    const record = await createTestDispatcher(OTHER_PRIVATE_KEY).dispatch({ id: "abc" });
+
+    expect(record.status).toBe("failed");
+    expect(record.attempts).toBe(1);
+    expect(record.lastError).toContain("401");
+  });
+
+  test("binds the JWT to the request body", async () => {
+    const account = privateKeyToAccount(PRIVATE_KEY);
+    const jwt = await createTriggerJwt(account, '{"id":"abc"}');
+
+    expect(await verifyTriggerJwt(jwt, '{"id":"abc"}')).toBe(PUBLIC_KEY);
+    await expect(verifyTriggerJwt(jwt, '{"id":"abd"}')).rejects.toThrow("digest");
+    await expect(verifyTriggerJwt(jwt, '{"id":"abc"}', Math.floor(Date.now() / 1000) + 3600)).rejects.toThrow(
+      "expired"
+    );
+  });
+
+  test("rejects a JWT whose signature was replaced", async () => {
+    const body = '{"id":"abc"}';
+    const [header, claims] = (await createTriggerJwt(privateKeyToAccount(PRIVATE_KEY), body)).split(".");
+    const [, , foreignSignature] = (await createTriggerJwt(privateKeyToAccount(OTHER_PRIVATE_KEY), body)).split(".");
+
+    await expect(verifyTriggerJwt(`${header}.${claims}.${foreignSignature}`, body)).rejects.toThrow("issuer");
+    await expect(verifyTriggerJwt("not-a-jwt", body)).rejects.toThrow("Malformed");
+  });
+});
+
+// ============================================================================
+// Retries
+// ============================================================================
+
+describe("retries", () => {
+  test("retries transient failures and reports each attempt", async () => {
+    responses = [{ status: 503 }, { status: 429 }];
+    const updates: DeliveryRecord[] = [];
+    const record = await createTestDispatcher().dispatch({ id: "abc" }, (update) => updates.push(update));
+
+    expect(record.status).toBe("delivered");
+    expect(record.attempts).toBe(3);
+    expect(record.lastError).toBeUndefined();
+    expect(updates.map((update) => update.status)).toEqual(["pending", "pending", "delivered"]);
+    expect(updates[0].lastError).toContain("503");
+    // Every attempt is a new, separately signed request
+    expect(new Set(received.map((request) => request.body.id)).size).toBe(3);
+  });
+
+  test("gives up after maxAttempts", async () => {
+    responses = [{ status: 500 }, { status: 502 }, { status: 503 }, { status: 200 }];
+    const record = await createTestDispatcher().dispatch({ id: "abc" });
+
+    expect(record.status).toBe("failed");
+    expect(record.attempts).toBe(3);
+    expect(record.lastError).toContain("503");
+    expect(received).toHaveLength(3);
+  });
+
+  test("does not retry client errors", async () => {
+    responses = [{ status: 400, body: { error: "bad input" } }];
+    const record = await createTestDispatcher().dispatch({ id: "abc" });
+
+    expect(record.status).toBe("failed");
+    expect(record.attempts).toBe(1);
+    expect(record.lastError).toContain("bad input");
+  });
+
+  test("does not retry JSON-RPC errors returned with HTTP 200", async () => {
+    responses = [{ status: 200, body: { jsonrpc: "2.0", error: { code: -32602, message: "invalid params" } } }];
+    const record = await createTestDispatcher().dispatch({ id: "abc" });
+
+    expect(record.status).toBe("failed");
+    expect(record.attempts).toBe(1);
+    expect(record.lastError).toContain("invalid params");
+  });
+
+  test("retries network errors", async () => {
+    const dispatcher = createCreDispatcher({
+      triggerUrl: "http://127.0.0.1:1/",
+      workflowId: "workflow-1",
+      privateKey: PRIVATE_KEY,
+      maxAttempts: 2,
+      backoffMs: 1,
+    });
+    const record = await dispatcher.dispatch({ id: "abc" });
+
+    expect(record.status).toBe("failed");
+    expect(record.attempts).toBe(2);
+    expect(record.lastError).toBeDefined();
+  });
+});
+
+// ============================================================================
+// Workflow Payload
+// ============================================================================
+
+describe("buildWorkflowPayload", () => {
+  const alert: StoredAlert = {
+    id: "abc",
+    payer: "0x000000000000000000000000000000000000dEaD",
+    settlementTxHash: "0x1234",
+    asset: "BTC",
+    condition: "gt",
+    targetPriceUsd: "60000",
+    chain: "ethereum-testnet-sepolia-base-1",
+    channel: "webhook",
+    createdAt: 1765000000,
+    expiresAt: 1765001800,
+    status: "paid",
+    updatedAt: 1765000000,
+    delivery: { status: "pending", attempts: 0 },
+  };
+
+  test("carries the payer and settlement transaction of creates and updates", () => {
+    expect(buildWorkflowPayload(alert)).toMatchObject({
+      action: "create",
+      id: "abc",
+      payer: alert.payer,
+      settlementTxHash: "0x1234",
+    });
+    expect(buildWorkflowPayload(alert, "update")).toMatchObject({ action: "update", payer: alert.payer });
+  });
+
+  test("only identifies the rule of a cancellation", () => {
+    expect(buildWorkflowPayload(alert, "cancel")).toEqual({ action: "cancel", id: "abc", chain: alert.chain });
+  });
+});
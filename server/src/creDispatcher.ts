@@ -0,0 +1,349 @@
+import { createHash, randomUUID } from "node:crypto";
+import { privateKeyToAccount, type PrivateKeyAccount } from "viem/accounts";
+import { Hex, recoverMessageAddress } from "viem";
+import type { AlertAction } from "./alertAuth";
+import type { StoredAlert } from "./types";
+
+/**
+ * CRE HTTP Trigger Dispatcher
+ *
+ * This module forwards paid alerts from the server to the HTTP trigger of a
+ * deployed CRE workflow, so alerts no longer have to be pasted into the CRE CLI
+ * by hand.
+ *
+ * Key Features:
+ * - Signs every request with the ECDSA key whose address is configured as
+ *   `publicKey` in the workflow config (cre/alerts/config.*.json)
+ * - Retries transient failures (network errors, 429, 5xx) with exponential backoff
+ * - Reports a delivery record (status, attempts, last error) for each alert
+ *
+ * Request Format:
+ * - Body: JSON-RPC 2.0 `workflows.execute` call with the alert payload as `input`
+ * - Header: `Authorization: Bearer <JWT>` where the JWT carries the SHA256 digest
+ *   of the body and is signed with an EIP-191 personal signature
+ *
+ * verifyTriggerJwt performs the gateway's check of that header, for local
+ * stand-in triggers and tests. buildWorkflowPayload builds the alert payload,
+ * for the dispatcher and for manual runs of the CRE CLI alike.
+ *
+ * If CRE_HTTP_TRIGGER_URL is not set the dispatcher is disabled and alerts keep
+ * the local-simulation behaviour (payload is logged for manual execution).
+ *
+ * @see https://docs.chain.link/cre/guides/workflow/using-triggers/http-trigger/overview-ts
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Delivery status of an alert to the CRE HTTP trigger
+ *
+ * - pending: dispatch has been scheduled but not yet completed
+ * - delivered: the trigger accepted the request
+ * - failed: all attempts failed (or a non-retryable error was returned)
+ * - skipped: dispatcher is disabled (local simulation mode)
+ */
+export type DeliveryStatus = "pending" | "delivered" | "failed" | "skipped";
+
+/**
+ * Delivery record attached to each alert
+ */
+export interface DeliveryRecord {
+  /** Current delivery status */
+  status: DeliveryStatus;
+  /** Number of HTTP attempts made so far */
+  attempts: number;
+  /** Error message of the last failed attempt (if any) */
+  lastError?: string;
+  /** UNIX timestamp in seconds when the trigger accepted the request */
+  deliveredAt?: number;
+}
+
+/**
+ * Dispatcher configuration
+ */
+export interface CreDispatcherOptions {
+  /** CRE gateway URL that receives HTTP trigger requests */
+  triggerUrl: string;
+  /** Deployed workflow ID the request is addressed to */
+  workflowId: string;
+  /** Private key matching `publicKey` in the workflow config */
+  privateKey: Hex;
+  /** Maximum number of attempts per alert (default: 5) */
+  maxAttempts?: number;
+  /** Initial backoff delay in milliseconds, doubled after each attempt (default: 1000) */
+  backoffMs?: number;
+  /** Per-attempt request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * CRE HTTP trigger dispatcher
+ */
+export interface CreDispatcher {
+  /** Address of the signing key (must equal `publicKey` in the workflow config) */
+  signer: string;
+  /**
+   * Sends a payload to the CRE HTTP trigger, retrying transient failures
+   *
+   * @param payload - Workflow payload (decoded by onHttpTrigger)
+   * @param onUpdate - Optional callback invoked with the delivery record after each attempt
+   * @returns Final delivery record
+   */
+  dispatch(payload: object, onUpdate?: (record: DeliveryRecord) => void): Promise<DeliveryRecord>;
+}
+
+// ============================================================================
+// Workflow Payload
+// ============================================================================
+
+/**
+ * Builds the HTTP trigger payload of an alert action
+ *
+ * The workflow records the payer and settlement transaction of created
+ * rules, and checks updates against the payer's other rules, so both are
+ * part of every create and update payload.
+ *
+ * @param alert - Paid alert (already updated for update and cancel)
+ * @param action - Workflow action: create (default), update or cancel
+ * @returns Workflow input
+ */
+export function buildWorkflowPayload(alert: StoredAlert, action: "create" | AlertAction = "create"): object {
+  // Cancellations only need the rule ID and its chain
+  if (action === "cancel") {
+    return { action, id: alert.id, chain: alert.chain };
+  }
+  return {
+    action,
+    id: alert.id,
+    payer: alert.payer,
+    settlementTxHash: alert.settlementTxHash,
+    asset: alert.asset,
+    quoteAsset: alert.quoteAsset,
+    condition: alert.condition,
+    targetPriceUsd: alert.targetPriceUsd,
+    upperPriceUsd: alert.upperPriceUsd,
+    changePercent: alert.changePercent,
+    windowSeconds: alert.windowSeconds,
+    direction: alert.direction,
+    createdAt: alert.createdAt,
+    expiresAt: alert.expiresAt,
+    triggerMode: alert.triggerMode,
+    cooldownSeconds: alert.cooldownSeconds,
+    chain: alert.chain,
+    channel: alert.channel,
+    destination: alert.destination,
+  };
+}
+
+// ============================================================================
+// Request Signing
+// ============================================================================
+
+/**
+ * Encodes a string or byte array as base64url (no padding)
+ */
+function base64url(input: string | Uint8Array): string {
+  return Buffer.from(input).toString("base64url");
+}
+
+/**
+ * Creates the JWT used to authorize an HTTP trigger request
+ *
+ * The JWT binds the request body through its SHA256 digest, so a captured token
+ * cannot be replayed with a different payload. It is signed with an EIP-191
+ * personal signature, which the gateway verifies against the authorized key.
+ *
+ * @param account - Signing account
+ * @param body - Serialized JSON-RPC request body
+ * @returns Signed JWT string
+ */
+export async function createTriggerJwt(account: PrivateKeyAccount, body: string): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: "ETH", typ: "JWT" }));
+  const claims = base64url(
+    JSON.stringify({
+      digest: `0x${createHash("sha256").update(body).digest("hex")}`,
+      iss: account.address,
+      iat: now,
+      exp: now + 300,
+      jti: randomUUID(),
+    })
+  );
+
+  const signature = await account.signMessage({ message: `${header}.${claims}` });
+  return `${header}.${claims}.${base64url(Buffer.from(signature.slice(2), "hex"))}`;
+}
+
+/**
+ * Verifies the JWT of an HTTP trigger request
+ *
+ * Checks that the token is well-formed and unexpired, that its digest matches
+ * the request body, and that it is signed by its issuer.
+ *
+ * @param jwt - Token from the Authorization header (without "Bearer ")
+ * @param body - Raw request body the token was sent with
+ * @param now - Current UNIX timestamp in seconds (default: wall clock)
+ * @returns Address of the signer
+ * @throws Error if the token is malformed, expired, bound to another body or not signed by its issuer
+ */
+export async function verifyTriggerJwt(
+  jwt: string,
+  body: string,
+  now = Math.floor(Date.now() / 1000)
+): Promise<Hex> {
+  const [header, claims, signature] = jwt.split(".");
+  if (!header || !claims || !signature) {
+    throw new Error("Malformed trigger JWT");
+  }
+
+  let payload: { digest?: string; iss?: string; iat?: number; exp?: number };
+  try {
+    payload = JSON.parse(Buffer.from(claims, "base64url").toString("utf8"));
+  } catch {
+    throw new Error("Malformed trigger JWT claims");
+  }
+
+  if (typeof payload.exp !== "number" || payload.exp < now) {
+    throw new Error("Trigger JWT has expired");
+  }
+  if (payload.digest !== `0x${createHash("sha256").update(body).digest("hex")}`) {
+    throw new Error("Trigger JWT digest does not match the request body");
+  }
+
+  const signer = await recoverMessageAddress({
+    message: `${header}.${claims}`,
+    signature: `0x${Buffer.from(signature, "base64url").toString("hex")}`,
+  });
+  if (signer.toLowerCase() !== payload.iss?.toLowerCase()) {
+    throw new Error("Trigger JWT is not signed by its issuer");
+  }
+  return signer;
+}
+
+// ============================================================================
+// Dispatcher
+// ============================================================================
+
+/**
+ * Returns true if an HTTP status code is worth retrying
+ */
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Creates a CRE HTTP trigger dispatcher
+ *
+ * @param options - Dispatcher configuration
+ * @returns Dispatcher instance
+ */
+export function createCreDispatcher(options: CreDispatcherOptions): CreDispatcher {
+  const account = privateKeyToAccount(options.privateKey);
+  const maxAttempts = options.maxAttempts ?? 5;
+  const backoffMs = options.backoffMs ?? 1000;
+  const timeoutMs = options.timeoutMs ?? 10000;
+
+  const dispatch = async (
+    payload: object,
+    onUpdate?: (record: DeliveryRecord) => void
+  ): Promise<DeliveryRecord> => {
+    const record: DeliveryRecord = { status: "pending", attempts: 0 };
+
+    while (record.attempts < maxAttempts) {
+      record.attempts++;
+
+      const body = JSON.stringify({
+        jsonrpc: "2.0",
+        id: randomUUID(),
+        method: "workflows.execute",
+        params: {
+          input: payload,
+          workflow: { workflowID: options.workflowId },
+        },
+      });
+
+      let retryable = true;
+      try {
+        const jwt = await createTriggerJwt(account, body);
+        const res = await fetch(options.triggerUrl, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${jwt}`,
+          },
+          body,
+          signal: AbortSignal.timeout(timeoutMs),
+        });
+
+        if (res.ok) {
+          const result = await res.json().catch(() => null);
+          // JSON-RPC errors are returned with HTTP 200
+          if (result?.error) {
+            retryable = false;
+            throw new Error(`Trigger rejected request: ${JSON.stringify(result.error)}`);
+          }
+          record.status = "delivered";
+          record.deliveredAt = Math.floor(Date.now() / 1000);
+          delete record.lastError;
+          onUpdate?.({ ...record });
+          return record;
+        }
+
+        retryable = isRetryableStatus(res.status);
+        const errorBody = await res.text().catch(() => "");
+        throw new Error(`Trigger responded ${res.status} ${res.statusText}${errorBody ? `: ${errorBody}` : ""}`);
+      } catch (error: any) {
+        record.lastError = error.message;
+      }
+
+      if (!retryable || record.attempts >= maxAttempts) {
+        break;
+      }
+
+      onUpdate?.({ ...record });
+      const delay = backoffMs * 2 ** (record.attempts - 1);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    record.status = "failed";
+    onUpdate?.({ ...record });
+    return record;
+  };
+
+  return { signer: account.address, dispatch };
+}
+
+/**
+ * Creates a dispatcher from environment variables
+ *
+ * @requires CRE_HTTP_TRIGGER_URL - CRE gateway URL (dispatcher disabled if unset)
+ * @requires CRE_WORKFLOW_ID - Deployed workflow ID
+ * @requires CRE_HTTP_TRIGGER_PRIVATE_KEY - Key matching `publicKey` in the workflow config
+ * @returns Dispatcher instance, or null if dispatching is disabled
+ * @throws Error if the trigger URL is set but the workflow ID or key is missing
+ */
+export function createCreDispatcherFromEnv(): CreDispatcher | null {
+  const triggerUrl = process.env.CRE_HTTP_TRIGGER_URL;
+  if (!triggerUrl) {
+    return null;
+  }
+
+  const workflowId = process.env.CRE_WORKFLOW_ID;
+  const privateKey = process.env.CRE_HTTP_TRIGGER_PRIVATE_KEY as Hex | undefined;
+  if (!workflowId) {
+    throw new Error("CRE_WORKFLOW_ID environment variable is required when CRE_HTTP_TRIGGER_URL is set");
+  }
+  if (!privateKey) {
+    throw new Error("CRE_HTTP_TRIGGER_PRIVATE_KEY environment variable is required when CRE_HTTP_TRIGGER_URL is set");
+  }
+
+  return createCreDispatcher({
+    triggerUrl,
+    workflowId,
+    privateKey,
+    maxAttempts: process.env.CRE_DISPATCH_MAX_ATTEMPTS ? Number(process.env.CRE_DISPATCH_MAX_ATTEMPTS) : undefined,
+    backoffMs: process.env.CRE_DISPATCH_BACKOFF_MS ? Number(process.env.CRE_DISPATCH_BACKOFF_MS) : undefined,
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * Notification Destinations
+ *
+ * An alert can name its own notification destination: a webhook URL for the
+ * webhook, slack and discord channels, a chat ID for telegram, or a user key
+ * for pushover. The destination is set by the payer in the paid POST /alerts
+ * request and forwarded to the CRE workflow, which stores it encrypted on-chain
+ * (see cre/alerts/destinations.ts). Read routes only return a masked form.
+ */
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Maximum destination length (characters)
+ */
+const MAX_DESTINATION_LENGTH = 512;
+
+/**
+ * Expected destination format per channel (matches cre/alerts/destinations.ts)
+ */
+const DESTINATION_FORMATS: Record<string, { pattern: RegExp; description: string }> = {
+  webhook: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// webhook URL" },
+  slack: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// incoming webhook URL" },
+  discord: { pattern: /^https:\/\/[^\s/?#]+\S*$/, description: "an https:// Discord webhook URL" },
+  telegram: { pattern: /^(-?\d+|@[A-Za-z0-9_]{5,})$/, description: "a Telegram chat ID or @channel name" },
+  pushover: { pattern: /^[A-Za-z0-9]{30}$/, description: "a 30-character Pushover user or group key" },
+};
+
+/**
+ * Validates a notification destination for a channel
+ *
+ * @param channel - Notification channel name
+ * @param destination - Destination from the alert request
+ * @returns Error message, or null if the destination is valid
+ */
+export function validateDestination(channel: string, destination: unknown): string | null {
+  if (typeof destination !== "string" || destination.length === 0) {
+    return "destination must be a non-empty string";
+  }
+  const format = DESTINATION_FORMATS[channel];
+  if (!format) {
+    return `Channel "${channel}" does not support custom destinations`;
+  }
+  if (destination.length > MAX_DESTINATION_LENGTH || !format.pattern.test(destination)) {
+    return `Invalid ${channel} destination: must be ${format.description}`;
+  }
+  return null;
+}
+
+// ============================================================================
+// Masking
+// ============================================================================
+
+/**
+ * Masks a destination for API responses and logs
+ *
+ * Keeps only the last 4 characters so payers can recognize their destination.
+ *
+ * @param destination - Plaintext destination
+ * @returns Masked destination (e.g. "****x9Yz")
+ */
+export function maskDestination(destination: string): string {
+  return `****${destination.slice(-4)}`;
+}
@@ -0,0 +1,172 @@
+import { describe, expect, test } from "bun:test";
+import {
+  checkPaidRequest,
+  createPaidRequestIndex,
+  hashAlertRequest,
+  paymentNonceKey,
+  validateIdempotencyKey,
+} from "./idempotency";
+import type { StoredAlert } from "./types";
+
+/**
+ * Idempotency Tests
+ *
+ * Claims of Idempotency-Keys and payment nonces, their release after an
+ * unsettled payment, the index rebuilt from stored alerts, and the retry and
+ * conflict checks POST /alerts answers with 200, 409 or 422.
+ */
+
+const PAYER = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const NONCE = `0x${"5e".repeat(32)}`;
+const BODY = { asset: "BTC", condition: "gt", targetPriceUsd: 60000 };
+
+/**
+ * Creates a stored alert claimed by an Idempotency-Key and payment nonce
+ */
+function createAlert(overrides: Partial<StoredAlert> = {}): StoredAlert {
+  return {
+    id: "a1",
+    payer: PAYER,
+    asset: "BTC",
+    condition: "gt",
+    targetPriceUsd: "60000",
+    chain: "ethereum-testnet-sepolia-base-1",
+    channel: "pushover",
+    createdAt: 1_765_000_000,
+    status: "onchain",
+    updatedAt: 1_765_000_000,
+    settlementTxHash: `0x${"9a".repeat(32)}`,
+    paymentNonce: NONCE,
+    idempotencyKey: "key-1",
+    requestHash: hashAlertRequest(BODY),
+    delivery: { status: "delivered", attempts: 1 },
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Claims
+// ============================================================================
+
+describe("claims", () => {
+  test("lets only the first of two concurrent requests claim a key", () => {
+    const index = createPaidRequestIndex();
+    const first = { idempotencyKey: "key-1", paymentNonce: paymentNonceKey(PAYER, NONCE) };
+    const second = { idempotencyKey: "key-1", paymentNonce: paymentNonceKey(PAYER, `0x${"6f".repeat(32)}`) };
+
+    expect(index.claim(first, { alertId: "a1", requestHash: "h1" })).toBe(true);
+    expect(index.claim(second, { alertId: "a2", requestHash: "h1" })).toBe(false);
+    // The losing request claims nothing, not even its own nonce
+    expect(index.find({ paymentNonce: second.paymentNonce })).toBeNull();
+    expect(index.find(second)).toEqual({ alertId: "a1", requestHash: "h1" });
+  });
+
+  test("releases the claims of a payment that did not settle, so it can be retried", () => {
+    const index = createPaidRequestIndex();
+    const claims = { idempotencyKey: "key-1", paymentNonce: paymentNonceKey(PAYER, NONCE) };
+    index.claim(claims, { alertId: "a1", requestHash: "h1" });
+
+    index.release(claims);
+
+    expect(index.find(claims)).toBeNull();
+    expect(index.claim(claims, { alertId: "a2", requestHash: "h1" })).toBe(true);
+  });
+
+  test("keys payment nonces by payer, case-insensitively", () => {
+    expect(paymentNonceKey(PAYER, NONCE)).toBe(paymentNonceKey(PAYER.toLowerCase(), NONCE.toUpperCase()));
+    expect(paymentNonceKey(PAYER, NONCE)).not.toBe(paymentNonceKey("0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC", NONCE));
+  });
+});
+
+describe("load", () => {
+  test("rebuilds the claims of paid alerts from the store", () => {
+    const index = createPaidRequestIndex();
+
+    index.load([createAlert()]);
+
+    const record = { alertId: "a1", requestHash: hashAlertRequest(BODY) };
+    expect(index.find({ idempotencyKey: "key-1" })).toEqual(record);
+    expect(index.find({ paymentNonce: paymentNonceKey(PAYER, NONCE) })).toEqual(record);
+  });
+
+  test("skips alerts whose payment never settled", () => {
+    const index = createPaidRequestIndex();
+
+    index.load([
+      createAlert({ id: "pending", idempotencyKey: "key-pending", status: "pending_payment" }),
+      createAlert({ id: "unpaid", idempotencyKey: "key-unpaid", status: "expired", settlementTxHash: undefined }),
+      createAlert({ id: "legacy", idempotencyKey: "key-legacy", requestHash: undefined }),
+      createAlert({ id: "paid", idempotencyKey: "key-paid", status: "expired", paymentNonce: undefined }),
+    ]);
+
+    expect(index.find({ idempotencyKey: "key-pending" })).toBeNull();
+    expect(index.find({ idempotencyKey: "key-unpaid" })).toBeNull();
+    expect(index.find({ idempotencyKey: "key-legacy" })).toBeNull();
+    expect(index.find({ idempotencyKey: "key-paid" })?.alertId).toBe("paid");
+  });
+});
+
+// ============================================================================
+// Retries & Conflicts
+// ============================================================================
+
+describe("checkPaidRequest", () => {
+  const index = createPaidRequestIndex();
+  index.load([createAlert()]);
+  const requestHash = hashAlertRequest(BODY);
+
+  test("lets requests with unclaimed keys and nonces through", () => {
+    expect(checkPaidRequest(index, { idempotencyKey: "key-2" }, requestHash)).toEqual({ outcome: "new" });
+    expect(checkPaidRequest(index, {}, requestHash)).toEqual({ outcome: "new" });
+  });
+
+  test("recognizes retries by Idempotency-Key or payment nonce", () => {
+    const record = { alertId: "a1", requestHash };
+
+    expect(checkPaidRequest(index, { idempotencyKey: "key-1" }, requestHash)).toEqual({
+      outcome: "replay",
+      record,
+      byKey: true,
+    });
+    expect(checkPaidRequest(index, { paymentNonce: paymentNonceKey(PAYER, NONCE) }, requestHash)).toEqual({
+      outcome: "replay",
+      record,
+      byKey: false,
+    });
+  });
+
+  test("rejects a reused Idempotency-Key with a different body (422)", () => {
+    const changed = hashAlertRequest({ ...BODY, targetPriceUsd: 61000 });
+
+    expect(checkPaidRequest(index, { idempotencyKey: "key-1" }, changed)).toEqual({
+      outcome: "conflict",
+      status: 422,
+      error: "Idempotency-Key was already used with a different request",
+    });
+  });
+
+  test("rejects a replayed payment with a different body (409)", () => {
+    const changed = hashAlertRequest({ ...BODY, asset: "ETH" });
+
+    expect(
+      checkPaidRequest(index, { idempotencyKey: "key-2", paymentNonce: paymentNonceKey(PAYER, NONCE) }, changed)
+    ).toEqual({
+      outcome: "conflict",
+      status: 409,
+      error: "This payment authorization was already used for another request",
+    });
+  });
+});
+
+describe("request hashing and keys", () => {
+  test("hashes bodies independently of their key order", () => {
+    expect(hashAlertRequest({ targetPriceUsd: 60000, condition: "gt", asset: "BTC" })).toBe(hashAlertRequest(BODY));
+  });
+
+  test("accepts printable ASCII keys up to 255 characters", () => {
+    expect(validateIdempotencyKey(undefined)).toBeNull();
+    expect(validateIdempotencyKey("6f1c0c8e-2b1d-4d8f-9a53-3c0e2f8b9d11")).toBeNull();
+    expect(validateIdempotencyKey("has space")).toContain("printable ASCII");
+    expect(validateIdempotencyKey("k".repeat(256))).toContain("1-255");
+  });
+});
@@ -0,0 +1,208 @@
+import { createHash } from "node:crypto";
+import { canonicalJson } from "./alertAuth";
+import type { StoredAlert } from "./types";
+
+/**
+ * Idempotent Alert Creation
+ *
+ * POST /alerts is paid, so a retried request must not create a second alert
+ * or charge the payer twice. Each paid alert claims:
+ *
+ * - its Idempotency-Key header (optional, chosen by the client, e.g. a UUID)
+ * - the nonce of its x402 payment authorization (EIP-3009 nonces are single-use
+ *   per payer), so the same X-PAYMENT header cannot be replayed
+ *
+ * A request presenting a claimed key or nonce with the same body (compared by
+ * SHA256 of its canonical JSON) is answered with the original alert before the
+ * payment middleware runs, so nothing is charged. With a different body it is
+ * rejected.
+ *
+ * The index is kept in memory so the paid handler can claim synchronously, and
+ * rebuilt from the alert store (idempotencyKey, paymentNonce and requestHash
+ * of each alert) before the server starts listening. Claims of payments that
+ * do not settle are released, so the request can be retried.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Alert claimed by an Idempotency-Key or payment nonce
+ */
+export interface PaidRequestRecord {
+  /** ID of the alert created by the request */
+  alertId: string;
+  /** SHA256 of the canonical request body */
+  requestHash: string;
+}
+
+/**
+ * Claims of an alert request
+ */
+export interface PaidRequestClaims {
+  /** Idempotency-Key header of the request */
+  idempotencyKey?: string;
+  /** Payment nonce of the request (see paymentNonceKey) */
+  paymentNonce?: string;
+}
+
+/**
+ * Result of checking a request against the claimed keys and nonces
+ *
+ * - new: nothing it presents is claimed
+ * - replay: a retry of the request that claimed them (same body)
+ * - conflict: claimed by a request with a different body (422 for a reused
+ *   Idempotency-Key, 409 for a reused payment)
+ */
+export type PaidRequestCheck =
+  | { outcome: "new" }
+  | { outcome: "replay"; record: PaidRequestRecord; byKey: boolean }
+  | { outcome: "conflict"; status: 409 | 422; error: string };
+
+/**
+ * Index of claimed Idempotency-Keys and payment nonces
+ */
+export interface PaidRequestIndex {
+  /** Returns the record claimed by the Idempotency-Key, else by the payment nonce, or null if neither is claimed */
+  find(claims: PaidRequestClaims): PaidRequestRecord | null;
+  /** Claims the Idempotency-Key and payment nonce for an alert; returns false (claiming nothing) if either is taken */
+  claim(claims: PaidRequestClaims, record: PaidRequestRecord): boolean;
+  /** Releases the claims of a request whose payment did not settle */
+  release(claims: PaidRequestClaims): void;
+  /** Claims the keys and nonces of stored alerts (on startup) */
+  load(alerts: StoredAlert[]): void;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Accepted Idempotency-Key format (printable ASCII, at most 255 characters)
+ */
+const IDEMPOTENCY_KEY_PATTERN = /^[\x21-\x7e]{1,255}$/;
+
+/**
+ * Validates an Idempotency-Key header
+ *
+ * @param key - Header value (undefined if absent)
+ * @returns Error message, or null if the key is absent or valid
+ */
+export function validateIdempotencyKey(key: string | undefined): string | null {
+  if (key === undefined || IDEMPOTENCY_KEY_PATTERN.test(key)) {
+    return null;
+  }
+  return "Idempotency-Key must be 1-255 printable ASCII characters without spaces";
+}
+
+/**
+ * Hashes an alert request body (SHA256 of its canonical JSON)
+ *
+ * @param body - Request body
+ * @returns Hex digest
+ */
+export function hashAlertRequest(body: object): string {
+  return createHash("sha256").update(canonicalJson(body ?? {})).digest("hex");
+}
+
+/**
+ * Returns the key of a payment nonce (nonces are only unique per payer)
+ *
+ * @param payer - Payer address of the authorization
+ * @param nonce - Authorization nonce (bytes32 hex)
+ * @returns "<payer>:<nonce>" in lowercase
+ */
+export function paymentNonceKey(payer: string, nonce: string): string {
+  return `${payer}:${nonce}`.toLowerCase();
+}
+
+/**
+ * Checks whether a request is new, a retry, or reuses another request's claims
+ *
+ * @param index - Paid request index
+ * @param claims - Claims of the request
+ * @param requestHash - Hash of the request body (see hashAlertRequest)
+ * @returns Check result
+ */
+export function checkPaidRequest(index: PaidRequestIndex, claims: PaidRequestClaims, requestHash: string): PaidRequestCheck {
+  const record = index.find(claims);
+  if (!record) {
+    return { outcome: "new" };
+  }
+
+  const byKey = claims.idempotencyKey !== undefined && index.find({ idempotencyKey: claims.idempotencyKey }) === record;
+  if (record.requestHash !== requestHash) {
+    return byKey
+      ? { outcome: "conflict", status: 422, error: "Idempotency-Key was already used with a different request" }
+      : { outcome: "conflict", status: 409, error: "This payment authorization was already used for another request" };
+  }
+  return { outcome: "replay", record, byKey };
+}
+
+// ============================================================================
+// Index
+// ============================================================================
+
+/**
+ * Creates an in-memory index of claimed Idempotency-Keys and payment nonces
+ *
+ * @returns PaidRequestIndex instance
+ */
+export function createPaidRequestIndex(): PaidRequestIndex {
+  const keys = new Map<string, PaidRequestRecord>();
+  const nonces = new Map<string, PaidRequestRecord>();
+
+  return {
+    find({ idempotencyKey, paymentNonce }) {
+      return (
+        (idempotencyKey !== undefined ? keys.get(idempotencyKey) : undefined) ??
+        (paymentNonce !== undefined ? nonces.get(paymentNonce) : undefined) ??
+        null
+      );
+    },
+
+    claim({ idempotencyKey, paymentNonce }, record) {
+      if ((idempotencyKey !== undefined && keys.has(idempotencyKey)) || (paymentNonce !== undefined && nonces.has(paymentNonce))) {
+        return false;
+      }
+      if (idempotencyKey !== undefined) {
+        keys.set(idempotencyKey, record);
+      }
+      if (paymentNonce !== undefined) {
+        nonces.set(paymentNonce, record);
+      }
+      return true;
+    },
+
+    release({ idempotencyKey, paymentNonce }) {
+      if (idempotencyKey !== undefined) {
+        keys.delete(idempotencyKey);
+      }
+      if (paymentNonce !== undefined) {
+        nonces.delete(paymentNonce);
+      }
+    },
+
+    load(alerts) {
+      for (const alert of alerts) {
+        // Alerts still pending_payment never settled before the restart, and
+        // alerts that expired without a settlement were never paid
+        if (
+          alert.status === "pending_payment" ||
+          (alert.status === "expired" && !alert.settlementTxHash) ||
+          !alert.requestHash
+        ) {
+          continue;
+        }
+        const record = { alertId: alert.id, requestHash: alert.requestHash };
+        if (alert.idempotencyKey) {
+          keys.set(alert.idempotencyKey, record);
+        }
+        if (alert.paymentNonce) {
+          nonces.set(paymentNonceKey(alert.payer, alert.paymentNonce), record);
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,52 @@
+import { describe, expect, spyOn, test } from "bun:test";
+import OpenAI from "openai";
+import { withFallback, type LlmProvider, type LlmRequest } from "./llmProviders";
+
+/**
+ * LLM Provider Tests
+ *
+ * Fallback from a failing provider to the rule-based parser, for API errors
+ * (with an HTTP status) and other thrown values.
+ */
+
+/**
+ * Creates a provider that fails with the given value
+ */
+function createFailingProvider(error: unknown): LlmProvider {
+  return {
+    name: "primary",
+    async complete() {
+      throw error;
+    },
+  };
+}
+
+const REQUEST: LlmRequest = { messages: [], tools: [] };
+
+const fallback: LlmProvider = {
+  name: "rules",
+  async complete() {
+    return { content: "from rules" };
+  },
+};
+
+describe("withFallback", () => {
+  test("falls back on API errors and logs their status", async () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    const rateLimited = new OpenAI.APIError(429, undefined, "Rate limited", undefined);
+    const provider = withFallback(createFailingProvider(rateLimited), fallback);
+
+    expect(await provider.complete(REQUEST)).toEqual({ content: "from rules" });
+    expect(log.mock.calls[0][0]).toContain("primary failed (429)");
+    log.mockRestore();
+  });
+
+  test("falls back on values that are not errors", async () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+    const provider = withFallback(createFailingProvider("socket hang up"), fallback);
+
+    expect(await provider.complete(REQUEST)).toEqual({ content: "from rules" });
+    expect(log.mock.calls[0][0]).toContain("primary failed: socket hang up. Using rules");
+    log.mockRestore();
+  });
+});
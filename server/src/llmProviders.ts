@@ -0,0 +1,186 @@
+import OpenAI from "openai";
+import type { ChatMessage } from "./chatSessions";
+import { createRuleBasedParser, type RuleBasedParserOptions } from "./ruleBasedParser";
+
+/**
+ * LLM Providers
+ *
+ * /chat extracts alert parameters through a provider that takes an
+ * OpenAI-compatible conversation (messages + tools) and returns the assistant
+ * reply: either text or a create_price_alert function call.
+ *
+ * Providers (selected with LLM_PROVIDER):
+ * - gemini: Gemini through its OpenAI compatibility endpoint
+ * - openai: any OpenAI-compatible endpoint, including local model servers
+ *   (e.g. Ollama or llama.cpp at http://localhost:11434/v1)
+ * - rules: deterministic rule-based parser, no network (see ruleBasedParser.ts)
+ *
+ * LLM providers fall back to the rule-based parser when the request fails
+ * (rate limit, network or API error), unless LLM_FALLBACK=none.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Conversation sent to a provider
+ */
+export interface LlmRequest {
+  /** Messages, oldest first (system prompt first, user message last) */
+  messages: ChatMessage[];
+  /** Functions the provider may call */
+  tools: OpenAI.Chat.Completions.ChatCompletionTool[];
+}
+
+/**
+ * Assistant reply of a provider
+ */
+export interface LlmReply {
+  /** Text reply (null when the reply is a function call only) */
+  content: string | null;
+  /** Function calls requested by the provider */
+  tool_calls?: OpenAI.Chat.Completions.ChatCompletionMessageToolCall[];
+}
+
+/**
+ * LLM provider interface
+ */
+export interface LlmProvider {
+  /** Provider name (for logs) */
+  name: string;
+  /** Returns the assistant reply to a conversation */
+  complete(request: LlmRequest): Promise<LlmReply>;
+}
+
+/**
+ * OpenAI-compatible provider options
+ */
+export interface OpenAiCompatibleOptions {
+  /** Provider name (for logs) */
+  name: string;
+  /** API base URL (e.g. https://api.openai.com/v1) */
+  baseURL: string;
+  /** API key (local model servers usually accept any value) */
+  apiKey: string;
+  /** Model name */
+  model: string;
+}
+
+// ============================================================================
+// Providers
+// ============================================================================
+
+/**
+ * Gemini OpenAI compatibility endpoint
+ */
+const GEMINI_BASE_URL = "https://generativelanguage.googleapis.com/v1beta/openai/";
+
+/**
+ * Creates a provider for an OpenAI-compatible chat completions endpoint
+ *
+ * @param options - Endpoint, credentials and model
+ * @returns LlmProvider instance
+ */
+export function createOpenAiCompatibleProvider(options: OpenAiCompatibleOptions): LlmProvider {
+  const client = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL });
+
+  return {
+    name: `${options.name} (${options.model})`,
+
+    async complete({ messages, tools }) {
+      const response = await client.chat.completions.create({
+        model: options.model,
+        messages,
+        tools,
+        // Note: tool_choice is intentionally not set to "required"
+        // This allows the model to respond with text when unsupported assets are requested,
+        // rather than forcing a function call that would fail validation
+      });
+
+      const message = response.choices[0]?.message;
+      if (!message) {
+        throw new Error(`No response from ${options.name}`);
+      }
+      return { content: message.content, tool_calls: message.tool_calls };
+    },
+  };
+}
+
+/**
+ * Wraps a provider so failed requests are answered by a fallback provider
+ *
+ * @param primary - Provider tried first
+ * @param fallback - Provider used when the primary throws
+ * @returns LlmProvider instance
+ */
+export function withFallback(primary: LlmProvider, fallback: LlmProvider): LlmProvider {
+  return {
+    name: `${primary.name}, falling back to ${fallback.name}`,
+
+    async complete(request) {
+      try {
+        return await primary.complete(request);
+      } catch (error: unknown) {
+        // API errors carry the HTTP status (e.g. 429); network errors do not
+        const status = error instanceof OpenAI.APIError ? error.status : undefined;
+        const message = error instanceof Error ? error.message : String(error);
+        console.log(
+          `  [WARN] ${primary.name} failed${status ? ` (${status})` : ""}: ${message}. Using ${fallback.name}`
+        );
+        return fallback.complete(request);
+      }
+    },
+  };
+}
+
+/**
+ * Creates the provider selected by environment variables
+ *
+ * @param parserOptions - Supported assets and channels (for the rule-based parser)
+ * @requires LLM_PROVIDER - gemini, openai or rules (default: gemini if GEMINI_API_KEY is set, otherwise rules)
+ * @requires GEMINI_API_KEY - Gemini API key (gemini provider)
+ * @requires GEMINI_MODEL - Gemini model (default: gemini-2.0-flash-lite)
+ * @requires LLM_BASE_URL - OpenAI-compatible API base URL (openai provider)
+ * @requires LLM_API_KEY - API key for LLM_BASE_URL (default: "none", for local servers)
+ * @requires LLM_MODEL - Model name (openai provider)
+ * @requires LLM_FALLBACK - rules (default) or none
+ * @returns LlmProvider instance
+ * @throws Error if the selected provider is not configured
+ */
+export function createLlmProviderFromEnv(parserOptions: RuleBasedParserOptions): LlmProvider {
+  const rules = createRuleBasedParser(parserOptions);
+  const providerName = process.env.LLM_PROVIDER || (process.env.GEMINI_API_KEY ? "gemini" : "rules");
+
+  let provider: LlmProvider;
+  switch (providerName) {
+    case "rules":
+      return rules;
+    case "gemini":
+      if (!process.env.GEMINI_API_KEY) {
+        throw new Error("GEMINI_API_KEY environment variable is required when LLM_PROVIDER=gemini");
+      }
+      provider = createOpenAiCompatibleProvider({
+        name: "Gemini",
+        baseURL: GEMINI_BASE_URL,
+        apiKey: process.env.GEMINI_API_KEY,
+        model: process.env.GEMINI_MODEL || "gemini-2.0-flash-lite",
+      });
+      break;
+    case "openai":
+      if (!process.env.LLM_BASE_URL || !process.env.LLM_MODEL) {
+        throw new Error("LLM_BASE_URL and LLM_MODEL environment variables are required when LLM_PROVIDER=openai");
+      }
+      provider = createOpenAiCompatibleProvider({
+        name: "OpenAI-compatible",
+        baseURL: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY || "none",
+        model: process.env.LLM_MODEL,
+      });
+      break;
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerName}". Must be one of: gemini, openai, rules`);
+  }
+
+  return process.env.LLM_FALLBACK === "none" ? provider : withFallback(provider, rules);
+}
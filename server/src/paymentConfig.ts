@@ -0,0 +1,165 @@
+import fs from "node:fs";
+import path from "node:path";
+import { SupportedEVMNetworks, type Network } from "x402/types";
+import type { PriceSchedule } from "./pricing";
+
+/**
+ * x402 Payment Config
+ *
+ * The payment settings of POST /alerts (network, token, facilitator, receiver
+ * and price schedule) are read from a JSON file per environment, mirroring the
+ * staging and production targets of cre/alerts/workflow.yaml:
+ *
+ * - server/config/payment.staging.json: Base Sepolia testnet USDC, x402.org facilitator
+ * - server/config/payment.production.json: Base mainnet USDC
+ *
+ * The file is validated on startup, so moving to another network or token is a
+ * config change. X402_RECEIVER_ADDRESS and X402_FACILITATOR_URL override the
+ * receiver and facilitator of the file (e.g. to keep them out of the repo).
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * ERC-20 token payments are made in (must support EIP-3009 transferWithAuthorization)
+ */
+export interface PaymentToken {
+  /** Token symbol shown in logs (e.g., "USDC") */
+  symbol: string;
+  /** Token contract address on the payment network */
+  address: `0x${string}`;
+  /** Token decimals (prices are converted from USD assuming 1 token = 1 USD) */
+  decimals: number;
+  /** EIP-712 domain of the token, signed by the payer */
+  eip712: {
+    name: string;
+    version: string;
+  };
+}
+
+/**
+ * Payment settings of the active environment
+ */
+export interface PaymentConfig {
+  /** Path of the config file the settings were read from */
+  configPath: string;
+  /** x402 network payments are made on (e.g., "base-sepolia") */
+  network: Network;
+  /** x402 facilitator URL */
+  facilitatorUrl: `${string}://${string}`;
+  /** Address that receives payments */
+  receiver: `0x${string}`;
+  /** Token payments are made in */
+  token: PaymentToken;
+  /** Overrides of the default price schedule (see pricing.ts) */
+  pricing: Partial<PriceSchedule>;
+}
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Resolves the payment config path
+ *
+ * Uses X402_PAYMENT_CONFIG if set, otherwise the config file matching
+ * CRE_TARGET (production-settings → payment.production.json, anything else →
+ * payment.staging.json).
+ */
+function resolvePaymentConfigPath(): string {
+  if (process.env.X402_PAYMENT_CONFIG) {
+    return path.resolve(process.env.X402_PAYMENT_CONFIG);
+  }
+  const file = process.env.CRE_TARGET === "production-settings" ? "payment.production.json" : "payment.staging.json";
+  return path.resolve(__dirname, "../config", file);
+}
+
+/**
+ * Returns true if a value is a 20-byte hex address
+ */
+function isAddress(value: unknown): value is `0x${string}` {
+  return typeof value === "string" && /^0x[0-9a-fA-F]{40}$/.test(value);
+}
+
+/**
+ * Validates the token of a payment config
+ *
+ * @throws Error if a token field is missing or invalid
+ */
+function validateToken(token: PaymentToken, configPath: string): void {
+  if (typeof token?.symbol !== "string" || !token.symbol) {
+    throw new Error(`Missing token.symbol in ${configPath}`);
+  }
+  if (!isAddress(token.address)) {
+    throw new Error(`token.address in ${configPath} must be a token contract address`);
+  }
+  if (!Number.isInteger(token.decimals) || token.decimals < 0 || token.decimals > 36) {
+    throw new Error(`token.decimals in ${configPath} must be an integer between 0 and 36`);
+  }
+  if (typeof token.eip712?.name !== "string" || !token.eip712.name || typeof token.eip712.version !== "string" || !token.eip712.version) {
+    throw new Error(`token.eip712 in ${configPath} must define the name and version of the token's EIP-712 domain`);
+  }
+}
+
+// ============================================================================
+// Loading
+// ============================================================================
+
+/**
+ * Loads and validates the payment config of the active environment
+ *
+ * @requires X402_PAYMENT_CONFIG - Path of the payment config (default: server/config/payment.<target>.json)
+ * @requires X402_RECEIVER_ADDRESS - Overrides the receiver of the config (required if the config has none)
+ * @requires X402_FACILITATOR_URL - Overrides the facilitator of the config (required if the config has none)
+ * @returns Payment settings
+ * @throws Error if the config cannot be read or a setting is invalid
+ */
+export function loadPaymentConfig(): PaymentConfig {
+  const configPath = resolvePaymentConfigPath();
+  const config = JSON.parse(fs.readFileSync(configPath, "utf8"));
+
+  if (!SupportedEVMNetworks.includes(config.network)) {
+    throw new Error(`Invalid network "${config.network}" in ${configPath}. Must be one of: ${SupportedEVMNetworks.join(", ")}`);
+  }
+
+  const facilitatorUrl = process.env.X402_FACILITATOR_URL || config.facilitatorUrl;
+  if (typeof facilitatorUrl !== "string" || !/^https?:\/\/\S+$/.test(facilitatorUrl)) {
+    throw new Error(`facilitatorUrl in ${configPath} (or X402_FACILITATOR_URL) must be an http(s) URL`);
+  }
+
+  const receiver = process.env.X402_RECEIVER_ADDRESS || config.receiver;
+  if (!isAddress(receiver)) {
+    throw new Error(`receiver in ${configPath} (or X402_RECEIVER_ADDRESS) must be the address that receives payments`);
+  }
+
+  validateToken(config.token, configPath);
+
+  if (config.pricing !== undefined && (typeof config.pricing !== "object" || config.pricing === null || Array.isArray(config.pricing))) {
+    throw new Error(`pricing in ${configPath} must be an object (see server/src/pricing.ts)`);
+  }
+
+  return {
+    configPath,
+    network: config.network,
+    facilitatorUrl: facilitatorUrl as `${string}://${string}`,
+    receiver,
+    token: config.token,
+    pricing: config.pricing ?? {},
+  };
+}
+
+/**
+ * Formats an amount in token base units (e.g. 25000 → "0.025 USDC")
+ *
+ * @param amount - Amount in base units
+ * @param token - Payment token
+ * @returns Amount with the token symbol
+ */
+export function formatTokenAmount(amount: string | bigint, token: PaymentToken): string {
+  const value = BigInt(amount);
+  const scale = 10n ** BigInt(token.decimals);
+  const fraction = (value % scale).toString().padStart(token.decimals, "0").replace(/0+$/, "");
+  return `${value / scale}${fraction ? `.${fraction}` : ""} ${token.symbol}`;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, test } from "bun:test";
+import { MAX_PRICE_USD, normalizeFeedAnswer, parseUsdPrice, resolveRelativeTarget, toDecimalString } from "./price";
+
+/**
+ * Fixed-Point Price Tests
+ *
+ * Boundary cases of the 8-decimal price representation shared with the
+ * workflow (cre/alerts/price.ts).
+ */
+
+describe("parseUsdPrice", () => {
+  test("parses cent and sub-cent prices exactly", () => {
+    expect(parseUsdPrice(14.37)).toBe(1437000000n);
+    expect(parseUsdPrice("14.37")).toBe(1437000000n);
+    expect(parseUsdPrice(" 0.00012345 ")).toBe(12345n);
+    expect(parseUsdPrice(60000)).toBe(6000000000000n);
+  });
+
+  test("accepts the smallest price, also in exponent notation", () => {
+    expect(parseUsdPrice("0.00000001")).toBe(1n);
+    expect(parseUsdPrice(1e-8)).toBe(1n);
+    expect(parseUsdPrice(5e-7)).toBe(50n);
+  });
+
+  test("rejects more than 8 decimals", () => {
+    expect(() => parseUsdPrice("0.000000001")).toThrow("at most 8 decimals");
+    expect(() => parseUsdPrice(0.123456789)).toThrow("at most 8 decimals");
+    expect(() => parseUsdPrice(1e-9)).toThrow("at most 8 decimals");
+  });
+
+  test("rejects zero, negative and malformed prices", () => {
+    expect(() => parseUsdPrice(0)).toThrow("greater than zero");
+    expect(() => parseUsdPrice("0.00000000")).toThrow("greater than zero");
+    expect(() => parseUsdPrice(-1)).toThrow();
+    expect(() => parseUsdPrice("1,000")).toThrow();
+    expect(() => parseUsdPrice(".5")).toThrow();
+    expect(() => parseUsdPrice(Number.NaN)).toThrow("finite");
+    expect(() => parseUsdPrice(null)).toThrow("number or decimal string");
+  });
+
+  test("accepts prices just below MAX_PRICE_USD only", () => {
+    const below = `${(MAX_PRICE_USD - 1n).toString()}.99999999`;
+    expect(parseUsdPrice(below)).toBe(MAX_PRICE_USD * 10n ** 8n - 1n);
+    expect(() => parseUsdPrice(MAX_PRICE_USD.toString())).toThrow("less than");
+  });
+});
+
+describe("toDecimalString", () => {
+  test("prints the canonical decimal", () => {
+    expect(toDecimalString(1437000000n)).toBe("14.37");
+    expect(toDecimalString(6000000000000n)).toBe("60000");
+    expect(toDecimalString(1n)).toBe("0.00000001");
+  });
+
+  test("round-trips parsed prices", () => {
+    for (const price of ["14.37", "0.00012345", "60000", "999999999999.99999999"]) {
+      expect(toDecimalString(parseUsdPrice(price))).toBe(price);
+    }
+  });
+});
+
+describe("normalizeFeedAnswer", () => {
+  test("scales feed answers to 8 decimals", () => {
+    expect(normalizeFeedAnswer(1437000000n, 8)).toBe(1437000000n);
+    expect(normalizeFeedAnswer(14370000000000000000n, 18)).toBe(1437000000n);
+    expect(normalizeFeedAnswer(14370000n, 6)).toBe(1437000000n);
+  });
+});
+
+describe("resolveRelativeTarget", () => {
+  test("rounds percent moves down to the smallest price unit", () => {
+    // $0.00000003 + 50% = $0.000000045, rounded down
+    expect(resolveRelativeTarget(3n, { type: "percent", value: "50" })).toBe(4n);
+    expect(resolveRelativeTarget(1437000000n, { type: "percent", value: "-10" })).toBe(1293300000n);
+  });
+
+  test("rejects targets that are not positive", () => {
+    expect(() => resolveRelativeTarget(1437000000n, { type: "delta", value: "-14.37" })).toThrow("non-positive");
+    expect(() => resolveRelativeTarget(1437000000n, { type: "percent", value: "-100" })).toThrow("non-positive");
+  });
+});
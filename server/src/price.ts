@@ -0,0 +1,193 @@
+import type { RelativeTarget } from "./types";
+
+/**
+ * Fixed-Point Price Helpers
+ *
+ * Target prices are carried end to end as fixed-point values with 8 decimals,
+ * matching the Chainlink USD price feeds (e.g. $14.37 = 1437000000).
+ *
+ * The API accepts prices as JSON numbers or decimal strings and normalizes them
+ * to a canonical decimal string (e.g. "14.37"). Parsing is done on the decimal
+ * digits, never through floating point math, so no precision is lost.
+ */
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Number of decimals used for prices (matches Chainlink USD feeds)
+ */
+export const PRICE_DECIMALS = 8;
+
+/**
+ * Largest accepted target price in USD (exclusive)
+ */
+export const MAX_PRICE_USD = 10n ** 12n;
+
+/**
+ * Decimal string with up to PRICE_DECIMALS fractional digits
+ */
+const DECIMAL_PATTERN = new RegExp(`^(\\d+)(?:\\.(\\d{1,${PRICE_DECIMALS}}))?$`);
+
+/**
+ * Signed decimal string with up to PRICE_DECIMALS fractional digits
+ */
+const SIGNED_DECIMAL_PATTERN = new RegExp(`^(-?)(\\d+)(?:\\.(\\d{1,${PRICE_DECIMALS}}))?$`);
+
+// ============================================================================
+// Parsing & Formatting
+// ============================================================================
+
+/**
+ * Parses a USD price into a fixed-point bigint with PRICE_DECIMALS decimals
+ *
+ * @param value - Price as a JSON number (e.g. 14.37) or decimal string (e.g. "14.37")
+ * @returns Fixed-point price (e.g. 1437000000n)
+ * @throws Error if the price is not a positive decimal with at most 8 decimals,
+ *         or is not below MAX_PRICE_USD
+ *
+ * @example
+ * ```typescript
+ * parseUsdPrice(14.37);         // 1437000000n
+ * parseUsdPrice("0.00000001");  // 1n
+ * parseUsdPrice(0.123456789);   // throws (more than 8 decimals)
+ * ```
+ */
+export function parseUsdPrice(value: unknown): bigint {
+  let text: string;
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) {
+      throw new Error("targetPriceUsd must be a finite number");
+    }
+    // Small and large numbers stringify in exponent notation (e.g. 1e-8)
+    text = String(value);
+    if (text.includes("e")) {
+      text = value.toFixed(PRICE_DECIMALS);
+      if (Number(text) !== value) {
+        throw new Error(`targetPriceUsd supports at most ${PRICE_DECIMALS} decimals`);
+      }
+    }
+  } else if (typeof value === "string") {
+    text = value.trim();
+  } else {
+    throw new Error("targetPriceUsd must be a number or decimal string");
+  }
+
+  const match = DECIMAL_PATTERN.exec(text);
+  if (!match) {
+    throw new Error(`targetPriceUsd must be a positive decimal with at most ${PRICE_DECIMALS} decimals`);
+  }
+
+  const whole = BigInt(match[1]);
+  const fraction = BigInt((match[2] ?? "").padEnd(PRICE_DECIMALS, "0"));
+  const price = whole * 10n ** BigInt(PRICE_DECIMALS) + fraction;
+
+  if (price <= 0n) {
+    throw new Error("targetPriceUsd must be greater than zero");
+  }
+  if (whole >= MAX_PRICE_USD) {
+    throw new Error(`targetPriceUsd must be less than ${MAX_PRICE_USD.toString()}`);
+  }
+
+  return price;
+}
+
+/**
+ * Converts a fixed-point price to its canonical decimal string
+ *
+ * @param price - Fixed-point price with PRICE_DECIMALS decimals
+ * @returns Decimal string without trailing zeros (e.g. "14.37", "60000")
+ */
+export function toDecimalString(price: bigint): string {
+  const scale = 10n ** BigInt(PRICE_DECIMALS);
+  const whole = price / scale;
+  const fraction = (price % scale).toString().padStart(PRICE_DECIMALS, "0").replace(/0+$/, "");
+  return fraction ? `${whole}.${fraction}` : whole.toString();
+}
+
+/**
+ * Scales a Chainlink feed answer to PRICE_DECIMALS (matches cre/alerts/price.ts)
+ *
+ * @param answer - Raw feed answer
+ * @param feedDecimals - Decimals of the feed
+ * @returns Price with PRICE_DECIMALS decimals
+ */
+export function normalizeFeedAnswer(answer: bigint, feedDecimals: number): bigint {
+  if (feedDecimals === PRICE_DECIMALS) {
+    return answer;
+  }
+  return feedDecimals > PRICE_DECIMALS
+    ? answer / 10n ** BigInt(feedDecimals - PRICE_DECIMALS)
+    : answer * 10n ** BigInt(PRICE_DECIMALS - feedDecimals);
+}
+
+// ============================================================================
+// Relative Targets
+// ============================================================================
+
+/**
+ * Parses and normalizes the relative target of an alert request
+ *
+ * @param target - relativeTarget from the request (value as JSON number or decimal string)
+ * @returns Relative target with a canonical signed decimal value (e.g. { type: "percent", value: "-2.5" })
+ * @throws Error if the type is unknown or the value is not a non-zero decimal with at most 8 decimals
+ *
+ * @example
+ * ```typescript
+ * parseRelativeTarget({ type: "percent", value: 5 });        // { type: "percent", value: "5" }
+ * parseRelativeTarget({ type: "delta", value: "-2000.50" }); // { type: "delta", value: "-2000.5" }
+ * ```
+ */
+export function parseRelativeTarget(target: unknown): RelativeTarget {
+  const { type, value } = (target ?? {}) as { type?: unknown; value?: unknown };
+  if (type !== "percent" && type !== "delta") {
+    throw new Error('relativeTarget.type must be "percent" or "delta"');
+  }
+
+  const match =
+    typeof value === "number" || typeof value === "string" ? SIGNED_DECIMAL_PATTERN.exec(String(value).trim()) : null;
+  if (!match) {
+    throw new Error(`relativeTarget.value must be a signed decimal with at most ${PRICE_DECIMALS} decimals`);
+  }
+  const magnitude = BigInt(match[2]) * 10n ** BigInt(PRICE_DECIMALS) + BigInt((match[3] ?? "").padEnd(PRICE_DECIMALS, "0"));
+  if (magnitude === 0n) {
+    throw new Error("relativeTarget.value must not be zero");
+  }
+
+  return { type, value: `${match[1]}${toDecimalString(magnitude)}` };
+}
+
+/**
+ * Resolves a relative target against a reference price
+ *
+ * @param referencePrice - Reference (current) price with PRICE_DECIMALS decimals
+ * @param target - Normalized relative target (see parseRelativeTarget)
+ * @returns Absolute target price with PRICE_DECIMALS decimals (percent moves round down)
+ * @throws Error if the resolved target is not a positive price below MAX_PRICE_USD
+ *
+ * @example
+ * ```typescript
+ * resolveRelativeTarget(300000000000n, { type: "percent", value: "5" });    // 315000000000n ($3150)
+ * resolveRelativeTarget(6000000000000n, { type: "delta", value: "-2000" }); // 5800000000000n ($58000)
+ * ```
+ */
+export function resolveRelativeTarget(referencePrice: bigint, target: RelativeTarget): bigint {
+  const scale = 10n ** BigInt(PRICE_DECIMALS);
+  const negative = target.value.startsWith("-");
+  const magnitude = parseUsdPrice(negative ? target.value.slice(1) : target.value);
+  const move = negative ? -magnitude : magnitude;
+
+  const price =
+    target.type === "percent"
+      ? (referencePrice * (100n * scale + move)) / (100n * scale)
+      : referencePrice + move;
+
+  if (price <= 0n) {
+    throw new Error(`relativeTarget resolves to a non-positive price (reference $${toDecimalString(referencePrice)})`);
+  }
+  if (price >= MAX_PRICE_USD * scale) {
+    throw new Error(`relativeTarget resolves to a price above ${MAX_PRICE_USD.toString()}`);
+  }
+  return price;
+}
@@ -0,0 +1,190 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { encodeFunctionResult } from "viem";
+import type { ChainConfig } from "./assets";
+import {
+  createChainlinkPriceSource,
+  createPriceSourceFromEnv,
+  createStaticPriceSource,
+  getReferencePrice,
+  type PriceSource,
+} from "./priceSource";
+
+/**
+ * Price Source Tests
+ *
+ * The chainlink source reads from a local stand-in RPC node that answers
+ * latestRoundData calls from scripted feed rounds. The reference price
+ * fallback (quoted price, then price source) runs against the static source.
+ */
+
+// ============================================================================
+// Stand-in RPC Node
+// ============================================================================
+
+const CHAIN = "ethereum-testnet-sepolia-base-1";
+const BTC_FEED = "0x0FB99723Aee6f420beAD13e6bBB79b7E6F034298";
+const ETH_FEED = "0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1";
+
+const CHAINS: ChainConfig[] = [
+  {
+    chainSelectorName: CHAIN,
+    assets: [
+      { symbol: "BTC", feedAddress: BTC_FEED, decimals: 8, displayDecimals: 2, maxStalenessSeconds: 3600 },
+      { symbol: "ETH", feedAddress: ETH_FEED, decimals: 18, displayDecimals: 2, maxStalenessSeconds: 3600 },
+    ],
+  },
+];
+
+const latestRoundDataAbi = [
+  {
+    name: "latestRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * Latest round of each feed on the stand-in, keyed by lowercase feed address
+ */
+let rounds: Record<string, { answer: bigint; updatedAt: number }>;
+
+let server: Server;
+let rpcUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post("/", (req, res) => {
+    const { id, method, params } = req.body;
+    const round = method === "eth_call" ? rounds[String(params[0].to).toLowerCase()] : undefined;
+    if (!round) {
+      return res.json({ jsonrpc: "2.0", id, error: { code: -32000, message: "execution reverted" } });
+    }
+    const result = encodeFunctionResult({
+      abi: latestRoundDataAbi,
+      functionName: "latestRoundData",
+      result: [1n, round.answer, BigInt(round.updatedAt), BigInt(round.updatedAt), 1n],
+    });
+    return res.json({ jsonrpc: "2.0", id, result });
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  const now = Math.floor(Date.now() / 1000);
+  rounds = {
+    [BTC_FEED.toLowerCase()]: { answer: 6000012345678n, updatedAt: now - 60 },
+    [ETH_FEED.toLowerCase()]: { answer: 3000_500000000000000000n, updatedAt: now - 60 },
+  };
+});
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+describe("chainlink price source", () => {
+  test("reads the latest answer and scales it to 8 decimals", async () => {
+    const source = createChainlinkPriceSource(CHAINS, { [CHAIN]: rpcUrl });
+
+    expect(await source.getPrice("BTC", CHAIN)).toBe(6000012345678n);
+    expect(await source.getPrice("ETH", CHAIN)).toBe(300050000000n);
+  });
+
+  test("rejects stale and non-positive answers", async () => {
+    const source = createChainlinkPriceSource(CHAINS, { [CHAIN]: rpcUrl });
+    rounds[BTC_FEED.toLowerCase()].updatedAt -= 7200;
+    rounds[ETH_FEED.toLowerCase()].answer = 0n;
+
+    await expect(source.getPrice("BTC", CHAIN)).rejects.toThrow("stale");
+    await expect(source.getPrice("ETH", CHAIN)).rejects.toThrow("non-positive");
+  });
+
+  test("rejects assets and chains it has no feed or RPC URL for", async () => {
+    const source = createChainlinkPriceSource(CHAINS, {});
+
+    await expect(source.getPrice("LINK", CHAIN)).rejects.toThrow("No LINK price feed configured");
+    await expect(source.getPrice("BTC", CHAIN)).rejects.toThrow("No RPC URL configured");
+  });
+});
+
+describe("createPriceSourceFromEnv", () => {
+  const withEnv = (env: Record<string, string | undefined>, create: () => PriceSource | null) => {
+    const previous = { ...process.env };
+    Object.assign(process.env, env);
+    try {
+      return create();
+    } finally {
+      process.env = previous;
+    }
+  };
+
+  test("disables relative targets without PRICE_SOURCE", () => {
+    expect(withEnv({ PRICE_SOURCE: "" }, () => createPriceSourceFromEnv(CHAINS))).toBeNull();
+  });
+
+  test("parses STATIC_PRICES", async () => {
+    const source = withEnv({ PRICE_SOURCE: "static", STATIC_PRICES: "BTC=60000, ETH=3000.5" }, () =>
+      createPriceSourceFromEnv(CHAINS)
+    );
+
+    expect(await source?.getPrice("ETH", CHAIN)).toBe(300050000000n);
+  });
+
+  test("rejects unknown sources and malformed pairs", () => {
+    expect(() => withEnv({ PRICE_SOURCE: "oracle" }, () => createPriceSourceFromEnv(CHAINS))).toThrow(
+      "Unknown PRICE_SOURCE"
+    );
+    expect(() =>
+      withEnv({ PRICE_SOURCE: "static", STATIC_PRICES: "BTC" }, () => createPriceSourceFromEnv(CHAINS))
+    ).toThrow("expected key=value");
+  });
+});
+
+// ============================================================================
+// Reference Prices
+// ============================================================================
+
+describe("getReferencePrice", () => {
+  const source = createStaticPriceSource({ BTC: 6000000000000n });
+
+  test("prefers the quoted reference price", async () => {
+    expect(await getReferencePrice(source, "BTC", CHAIN, "59000.5")).toBe(5900050000000n);
+    expect(await getReferencePrice(null, "BTC", CHAIN, 59000)).toBe(5900000000000n);
+  });
+
+  test("falls back to the price source", async () => {
+    expect(await getReferencePrice(source, "BTC", CHAIN)).toBe(6000000000000n);
+  });
+
+  test("reports invalid quotes and missing or failing sources", async () => {
+    await expect(getReferencePrice(source, "BTC", CHAIN, "-1")).rejects.toThrow("referencePriceUsd must be");
+    await expect(getReferencePrice(null, "BTC", CHAIN)).rejects.toThrow("no price source configured");
+    await expect(getReferencePrice(source, "ETH", CHAIN)).rejects.toThrow(
+      "Could not read the current ETH price: No static price configured for ETH"
+    );
+  });
+
+  test("falls back to the chainlink source on the stand-in", async () => {
+    const chainlink = createChainlinkPriceSource(CHAINS, { [CHAIN]: rpcUrl });
+
+    expect(await getReferencePrice(chainlink, "BTC", CHAIN)).toBe(6000012345678n);
+  });
+});
@@ -0,0 +1,227 @@
+import { createPublicClient, decodeFunctionResult, encodeFunctionData, http, type Address } from "viem";
+import type { ChainConfig } from "./assets";
+import { normalizeFeedAnswer, parseUsdPrice } from "./price";
+
+/**
+ * Price Sources
+ *
+ * Alerts with a relative target ("ETH up 5%", "BTC drops $2,000 from now")
+ * are resolved to an absolute target price when they are created. This module
+ * provides the current reference price of an asset.
+ *
+ * Sources (selected with PRICE_SOURCE):
+ * - chainlink: reads latestRoundData from the asset's Chainlink feed on the
+ *   alert's chain (same feeds as the CRE workflow), over the RPC URLs in
+ *   PRICE_SOURCE_RPC_URLS
+ * - static: fixed prices from STATIC_PRICES, a local stand-in for development
+ *   and tests that needs no network
+ *
+ * Without PRICE_SOURCE, relative targets are rejected.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Price source interface
+ */
+export interface PriceSource {
+  /** Source name (for logs) */
+  name: string;
+  /**
+   * Returns the current USD price of an asset
+   *
+   * @param asset - Asset symbol (from the asset catalog)
+   * @param chain - Chain selector name of the alert
+   * @returns Price with 8 decimals
+   */
+  getPrice(asset: string, chain: string): Promise<bigint>;
+}
+
+// ============================================================================
+// Sources
+// ============================================================================
+
+/**
+ * Chainlink price feed ABI for latestRoundData function
+ */
+const priceFeedAbi = [
+  {
+    name: "latestRoundData",
+    type: "function",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * Creates a price source reading the Chainlink feeds of the chain catalog
+ *
+ * Answers older than the asset's maxStalenessSeconds are rejected, like in the
+ * CRE workflow.
+ *
+ * @param chains - Chain catalog (feed addresses and decimals per chain)
+ * @param rpcUrls - RPC URL per chain selector name
+ * @returns PriceSource instance
+ */
+export function createChainlinkPriceSource(chains: ChainConfig[], rpcUrls: Record<string, string>): PriceSource {
+  return {
+    name: "chainlink",
+
+    async getPrice(asset, chain) {
+      const feed = chains
+        .find((entry) => entry.chainSelectorName === chain)
+        ?.assets.find((entry) => entry.symbol === asset);
+      if (!feed) {
+        throw new Error(`No ${asset} price feed configured on ${chain}`);
+      }
+      const rpcUrl = rpcUrls[chain];
+      if (!rpcUrl) {
+        throw new Error(`No RPC URL configured for ${chain} (PRICE_SOURCE_RPC_URLS)`);
+      }
+
+      const client = createPublicClient({ transport: http(rpcUrl) });
+      const { data } = await client.call({
+        to: feed.feedAddress as Address,
+        data: encodeFunctionData({ abi: priceFeedAbi, functionName: "latestRoundData" }),
+      });
+      if (!data) {
+        throw new Error(`${asset} feed returned no data`);
+      }
+      const [, answer, , updatedAt] = decodeFunctionResult({
+        abi: priceFeedAbi,
+        functionName: "latestRoundData",
+        data,
+      });
+
+      if (answer <= 0n) {
+        throw new Error(`${asset} feed returned a non-positive answer`);
+      }
+      const age = Math.floor(Date.now() / 1000) - Number(updatedAt);
+      if (age > feed.maxStalenessSeconds) {
+        throw new Error(`${asset} feed answer is stale (${age}s old, max ${feed.maxStalenessSeconds}s)`);
+      }
+      return normalizeFeedAnswer(answer, feed.decimals);
+    },
+  };
+}
+
+/**
+ * Creates a price source returning fixed prices
+ *
+ * @param prices - Price with 8 decimals per asset symbol (same on every chain)
+ * @returns PriceSource instance
+ */
+export function createStaticPriceSource(prices: Record<string, bigint>): PriceSource {
+  return {
+    name: "static",
+
+    async getPrice(asset) {
+      const price = prices[asset];
+      if (price === undefined) {
+        throw new Error(`No static price configured for ${asset} (STATIC_PRICES)`);
+      }
+      return price;
+    },
+  };
+}
+
+// ============================================================================
+// Reference Prices
+// ============================================================================
+
+/**
+ * Returns the reference price a relative target is resolved against
+ *
+ * A quoted reference price (referencePriceUsd of a /chat proposal) is used if
+ * given, so the proposal resolves to the same target when it is paid.
+ * Otherwise the current price is read from the price source.
+ *
+ * @param source - Price source, or null if none is configured
+ * @param asset - Asset symbol
+ * @param chain - Chain selector name of the alert
+ * @param quotedPrice - referencePriceUsd of the request, if any
+ * @returns Reference price with 8 decimals
+ * @throws Error if the quoted price is invalid, or there is none and the price source is missing or fails
+ */
+export async function getReferencePrice(
+  source: PriceSource | null,
+  asset: string,
+  chain: string,
+  quotedPrice?: unknown
+): Promise<bigint> {
+  if (quotedPrice !== undefined) {
+    try {
+      return parseUsdPrice(quotedPrice);
+    } catch {
+      throw new Error("referencePriceUsd must be a positive decimal with at most 8 decimals");
+    }
+  }
+
+  if (!source) {
+    throw new Error("Relative targets are not available: no price source configured (PRICE_SOURCE)");
+  }
+  try {
+    return await source.getPrice(asset, chain);
+  } catch (error: unknown) {
+    throw new Error(`Could not read the current ${asset} price: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// ============================================================================
+// Configuration
+// ============================================================================
+
+/**
+ * Parses a comma-separated list of key=value pairs (e.g. "BTC=60000,ETH=3000")
+ */
+export function parsePairs(value: string, variable: string): Record<string, string> {
+  const pairs: Record<string, string> = {};
+  for (const entry of value.split(",").map((item) => item.trim()).filter(Boolean)) {
+    const separator = entry.indexOf("=");
+    if (separator <= 0) {
+      throw new Error(`Invalid ${variable} entry "${entry}" (expected key=value)`);
+    }
+    pairs[entry.slice(0, separator).trim()] = entry.slice(separator + 1).trim();
+  }
+  return pairs;
+}
+
+/**
+ * Creates the price source selected by environment variables
+ *
+ * @param chains - Chain catalog
+ * @requires PRICE_SOURCE - chainlink or static (unset: relative targets disabled)
+ * @requires PRICE_SOURCE_RPC_URLS - chainSelectorName=url pairs, comma-separated (chainlink)
+ * @requires STATIC_PRICES - SYMBOL=price pairs in USD, comma-separated (static)
+ * @returns PriceSource instance, or null if no source is configured
+ * @throws Error if the selected source is not configured correctly
+ */
+export function createPriceSourceFromEnv(chains: ChainConfig[]): PriceSource | null {
+  switch (process.env.PRICE_SOURCE || undefined) {
+    case undefined:
+      return null;
+    case "chainlink":
+      return createChainlinkPriceSource(chains, parsePairs(process.env.PRICE_SOURCE_RPC_URLS ?? "", "PRICE_SOURCE_RPC_URLS"));
+    case "static": {
+      const prices: Record<string, bigint> = {};
+      for (const [symbol, price] of Object.entries(parsePairs(process.env.STATIC_PRICES ?? "", "STATIC_PRICES"))) {
+        prices[symbol] = parseUsdPrice(price);
+      }
+      if (Object.keys(prices).length === 0) {
+        throw new Error("STATIC_PRICES environment variable is required when PRICE_SOURCE=static");
+      }
+      return createStaticPriceSource(prices);
+    }
+    default:
+      throw new Error(`Unknown PRICE_SOURCE "${process.env.PRICE_SOURCE}". Must be one of: chainlink, static`);
+  }
+}
@@ -0,0 +1,130 @@
+import { describe, expect, test } from "bun:test";
+import type { RuleLifetimeConfig } from "./assets";
+import { createAlertPricing, DEFAULT_PRICE_SCHEDULE } from "./pricing";
+
+/**
+ * Alert Pricing Tests
+ *
+ * Quote lines of the default schedule, the billed lifetime (pinned by
+ * expiresInSeconds, shrinking with expiresAt), conversion to token base
+ * units and schedule validation.
+ */
+
+const LIFETIME: RuleLifetimeConfig = { defaultSeconds: 86400, minSeconds: 3600, maxSeconds: 30 * 86400 };
+const NOW = 1765000000;
+
+const pricing = createAlertPricing(DEFAULT_PRICE_SCHEDULE, LIFETIME, "webhook");
+
+// ============================================================================
+// Quote Lines
+// ============================================================================
+
+describe("quote", () => {
+  test("prices a default alert at the base price", () => {
+    const quote = pricing.quote({ asset: "BTC", condition: "gt" }, NOW);
+
+    expect(quote).toEqual({
+      priceUsd: "$0.01",
+      amount: "10000",
+      lifetimeSeconds: 86400,
+      notifications: 1,
+      items: [{ item: "base price", priceUsd: "$0.01" }],
+    });
+  });
+
+  test("adds condition, ratio and extra day surcharges", () => {
+    const quote = pricing.quote(
+      { asset: "ETH", quoteAsset: "BTC", condition: "between", expiresInSeconds: 2 * 86400 + 1 },
+      NOW
+    );
+
+    // base + 2 started extra days + band + ratio
+    expect(quote.priceUsd).toBe("$0.027");
+    expect(quote.items.map((line) => line.item)).toEqual([
+      "base price",
+      "2 extra day(s)",
+      "between condition",
+      "ratio",
+    ]);
+  });
+
+  test("bills repeating alerts per estimated notification, capped", () => {
+    const cooldown = pricing.quote({ triggerMode: "cooldown", cooldownSeconds: 3600 }, NOW);
+    const crossing = pricing.quote({ triggerMode: "crossing" }, NOW);
+    const capped = pricing.quote(
+      { triggerMode: "cooldown", cooldownSeconds: 60, expiresInSeconds: LIFETIME.maxSeconds },
+      NOW
+    );
+
+    expect(cooldown.notifications).toBe(24);
+    expect(crossing.notifications).toBe(12);
+    expect(capped.notifications).toBe(DEFAULT_PRICE_SCHEDULE.maxBilledNotifications);
+  });
+
+  test("charges the channel surcharge per notification", () => {
+    const withChannels = createAlertPricing({ ...DEFAULT_PRICE_SCHEDULE, channelUsd: { pushover: 0.001 } }, LIFETIME, "webhook");
+
+    expect(withChannels.quote({ channel: "pushover", triggerMode: "crossing" }, NOW).priceUsd).toBe("$0.044");
+    expect(withChannels.quote({ triggerMode: "crossing" }, NOW).priceUsd).toBe("$0.032");
+  });
+});
+
+// ============================================================================
+// Billed Lifetime
+// ============================================================================
+
+describe("billed lifetime", () => {
+  test("does not change with the quote time for expiresInSeconds", () => {
+    const body = { condition: "gt" as const, expiresInSeconds: 3 * 86400 };
+
+    expect(pricing.quote(body, NOW)).toEqual(pricing.quote(body, NOW + 3600));
+  });
+
+  test("shrinks with the quote time for expiresAt, so an earlier quote covers a later one", () => {
+    const body = { condition: "gt" as const, expiresAt: NOW + 3 * 86400 };
+    const quoted = pricing.quote(body, NOW);
+    const atCreation = pricing.quote(body, NOW + 60);
+
+    expect(atCreation.lifetimeSeconds).toBe(quoted.lifetimeSeconds - 60);
+    expect(BigInt(quoted.amount) >= BigInt(atCreation.amount)).toBe(true);
+  });
+
+  test("prefers expiresInSeconds, ignores invalid values and caps at the longest lifetime", () => {
+    expect(pricing.quote({ expiresAt: NOW + 10 * 86400, expiresInSeconds: 86400 }, NOW).lifetimeSeconds).toBe(86400);
+    expect(pricing.quote({ expiresInSeconds: -5 }, NOW).lifetimeSeconds).toBe(LIFETIME.defaultSeconds);
+    expect(pricing.quote({ expiresInSeconds: 365 * 86400 }, NOW).lifetimeSeconds).toBe(LIFETIME.maxSeconds);
+  });
+});
+
+// ============================================================================
+// Token Amounts & Schedules
+// ============================================================================
+
+describe("token amounts", () => {
+  test("scales micro-USD to the token decimals", () => {
+    const eighteen = createAlertPricing(DEFAULT_PRICE_SCHEDULE, LIFETIME, "webhook", 18);
+
+    expect(eighteen.quote({}, NOW).amount).toBe("10000000000000000");
+  });
+
+  test("rounds up for tokens with fewer decimals than micro-USD", () => {
+    const twoDecimals = createAlertPricing({ ...DEFAULT_PRICE_SCHEDULE, baseUsd: 0.011 }, LIFETIME, "webhook", 2);
+
+    // $0.011 is 1.1 cents, billed as 2
+    expect(twoDecimals.quote({}, NOW).amount).toBe("2");
+  });
+});
+
+describe("schedule validation", () => {
+  test("rejects negative prices, a free base price and invalid counts", () => {
+    expect(() => createAlertPricing({ ...DEFAULT_PRICE_SCHEDULE, perExtraDayUsd: -1 }, LIFETIME, "webhook")).toThrow(
+      "non-negative"
+    );
+    expect(() => createAlertPricing({ ...DEFAULT_PRICE_SCHEDULE, baseUsd: 0 }, LIFETIME, "webhook")).toThrow(
+      "base alert price must be positive"
+    );
+    expect(() =>
+      createAlertPricing({ ...DEFAULT_PRICE_SCHEDULE, maxBilledNotifications: 1.5 }, LIFETIME, "webhook")
+    ).toThrow("positive integers");
+  });
+});
@@ -0,0 +1,310 @@
+import type { RuleLifetimeConfig } from "./assets";
+import type { PaymentConfig } from "./paymentConfig";
+import type { AlertRequestBody } from "./types";
+
+/**
+ * Alert Pricing
+ *
+ * POST /alerts is paid with x402, and the price depends on what the alert
+ * costs to run. A quote adds up:
+ *
+ * - the base price: a single-target USD alert with the default lifetime
+ *   (ruleTTL) and one notification
+ * - each started day the alert lives beyond the default lifetime
+ * - each notification beyond the first (estimated from the trigger mode:
+ *   cooldown alerts at most once per cooldownSeconds, crossing alerts at most
+ *   once per crossingIntervalSeconds, capped at maxBilledNotifications)
+ * - the condition type (bands, ratios and change rules need more work per check)
+ * - the notification channel, per notification
+ *
+ * The same quote is returned by GET /alerts/quote, demanded in the 402
+ * challenge of POST /alerts, and checked against the paid amount before the
+ * alert is created: the payment must cover it (at least the quoted amount).
+ * Prices are summed in micro-USD and converted to base units of the payment
+ * token (see paymentConfig.ts).
+ *
+ * The billed lifetime is expiresInSeconds when the request sets it, so the
+ * quote does not move between quoting and paying. An absolute expiresAt is
+ * billed from the quote time; its lifetime only shrinks as time passes, so a
+ * payment of an earlier quote still covers the quote at creation.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Price schedule (all prices in USD)
+ */
+export interface PriceSchedule {
+  /** Price of a single-target USD alert with the default lifetime and one notification */
+  baseUsd: number;
+  /** Surcharge per started day beyond the default lifetime */
+  perExtraDayUsd: number;
+  /** Surcharge per estimated notification beyond the first */
+  perExtraNotificationUsd: number;
+  /** Highest number of notifications billed for repeating alerts */
+  maxBilledNotifications: number;
+  /** Assumed shortest time between notifications of crossing alerts (two hourly cron checks by default) */
+  crossingIntervalSeconds: number;
+  /** Surcharge by condition type */
+  conditionUsd: {
+    /** between and outside */
+    band: number;
+    /** Ratio alerts (quoteAsset set) */
+    ratio: number;
+    /** change rules (read past feed rounds) */
+    change: number;
+  };
+  /** Surcharge per notification by channel (channels not listed cost nothing extra) */
+  channelUsd: Record<string, number>;
+}
+
+/**
+ * Line of a quote
+ */
+export interface QuoteItem {
+  /** What the line charges for (e.g. "2 extra day(s)") */
+  item: string;
+  /** Price in USD (e.g. "$0.01") */
+  priceUsd: string;
+}
+
+/**
+ * Price of an alert request
+ */
+export interface AlertQuote {
+  /** Total price in USD (e.g. "$0.025") */
+  priceUsd: string;
+  /** Total price in base units of the payment token, the amount the payment must authorize */
+  amount: string;
+  /** Billed lifetime in seconds */
+  lifetimeSeconds: number;
+  /** Estimated (billed) number of notifications */
+  notifications: number;
+  /** Price lines adding up to the total */
+  items: QuoteItem[];
+}
+
+/**
+ * Alert pricing interface
+ */
+export interface AlertPricing {
+  /** Price schedule in use */
+  schedule: PriceSchedule;
+  /**
+   * Prices an alert request
+   *
+   * Never throws: fields that are missing or invalid are priced with their
+   * defaults (the request itself is validated separately).
+   *
+   * @param body - Alert request
+   * @param now - Creation time of the alert (UNIX seconds)
+   * @returns Quote
+   */
+  quote(body: Partial<AlertRequestBody>, now: number): AlertQuote;
+}
+
+// ============================================================================
+// Constants
+// ============================================================================
+
+/**
+ * Default price schedule (a default alert costs $0.01)
+ */
+export const DEFAULT_PRICE_SCHEDULE: PriceSchedule = {
+  baseUsd: 0.01,
+  perExtraDayUsd: 0.005,
+  perExtraNotificationUsd: 0.002,
+  maxBilledNotifications: 100,
+  crossingIntervalSeconds: 7200,
+  conditionUsd: { band: 0.002, ratio: 0.005, change: 0.005 },
+  channelUsd: {},
+};
+
+/**
+ * Units per USD prices are summed in (micro-USD)
+ */
+const UNITS_PER_USD = 10 ** 6;
+
+/**
+ * Decimals of the units prices are summed in
+ */
+const UNIT_DECIMALS = 6;
+
+// ============================================================================
+// Helper Functions
+// ============================================================================
+
+/**
+ * Converts USD to micro-USD
+ */
+function toUnits(usd: number): number {
+  return Math.round(usd * UNITS_PER_USD);
+}
+
+/**
+ * Converts micro-USD to base units of a token worth 1 USD, rounding up
+ *
+ * @param units - Amount in micro-USD
+ * @param tokenDecimals - Decimals of the payment token
+ * @returns Amount in token base units
+ */
+function toTokenAmount(units: number, tokenDecimals: number): bigint {
+  if (tokenDecimals >= UNIT_DECIMALS) {
+    return BigInt(units) * 10n ** BigInt(tokenDecimals - UNIT_DECIMALS);
+  }
+  const divisor = 10n ** BigInt(UNIT_DECIMALS - tokenDecimals);
+  return (BigInt(units) + divisor - 1n) / divisor;
+}
+
+/**
+ * Formats micro-USD as a USD price (e.g. 25000 → "$0.025")
+ */
+function formatUnits(units: number): string {
+  return `$${(units / UNITS_PER_USD).toFixed(6).replace(/\.?0+$/, "")}`;
+}
+
+/**
+ * Returns a positive integer field, or undefined if the value is not one
+ */
+function positiveInteger(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isInteger(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Validates a price schedule
+ *
+ * @throws Error if a price is negative or a count is not a positive integer
+ */
+function validateSchedule(schedule: PriceSchedule): void {
+  const prices = [
+    schedule.baseUsd,
+    schedule.perExtraDayUsd,
+    schedule.perExtraNotificationUsd,
+    ...Object.values(schedule.conditionUsd),
+    ...Object.values(schedule.channelUsd),
+  ];
+  if (!prices.every((price) => typeof price === "number" && Number.isFinite(price) && price >= 0)) {
+    throw new Error("Alert prices must be non-negative numbers of USD");
+  }
+  if (schedule.baseUsd <= 0) {
+    throw new Error("The base alert price must be positive");
+  }
+  if (!positiveInteger(schedule.maxBilledNotifications) || !positiveInteger(schedule.crossingIntervalSeconds)) {
+    throw new Error("maxBilledNotifications and crossingIntervalSeconds must be positive integers");
+  }
+}
+
+// ============================================================================
+// Pricing
+// ============================================================================
+
+/**
+ * Creates the alert pricing
+ *
+ * @param schedule - Price schedule
+ * @param lifetime - Default and longest alert lifetime (from the workflow config)
+ * @param defaultChannel - Channel of alerts that do not choose one
+ * @param tokenDecimals - Decimals of the payment token (default: 6, USDC)
+ * @returns AlertPricing instance
+ * @throws Error if the schedule is invalid
+ */
+export function createAlertPricing(
+  schedule: PriceSchedule,
+  lifetime: RuleLifetimeConfig,
+  defaultChannel: string,
+  tokenDecimals = 6
+): AlertPricing {
+  validateSchedule(schedule);
+
+  return {
+    schedule,
+
+    quote(body, now) {
+      const items: QuoteItem[] = [];
+      let units = 0;
+      const charge = (item: string, usd: number) => {
+        if (usd > 0) {
+          units += toUnits(usd);
+          items.push({ item, priceUsd: formatUnits(toUnits(usd)) });
+        }
+      };
+
+      const expiresInSeconds = positiveInteger(body.expiresInSeconds);
+      const expiresAt = positiveInteger(body.expiresAt);
+      const requestedSeconds = expiresInSeconds ?? (expiresAt !== undefined ? expiresAt - now : lifetime.defaultSeconds);
+      const lifetimeSeconds = Math.max(0, Math.min(requestedSeconds, lifetime.maxSeconds));
+
+      // Repeating alerts can notify more than once during their lifetime
+      let notifications = 1;
+      const cooldownSeconds = positiveInteger(body.cooldownSeconds);
+      if (body.triggerMode === "cooldown" && cooldownSeconds !== undefined) {
+        notifications = Math.ceil(lifetimeSeconds / cooldownSeconds);
+      } else if (body.triggerMode === "crossing") {
+        notifications = Math.ceil(lifetimeSeconds / schedule.crossingIntervalSeconds);
+      }
+      notifications = Math.min(Math.max(notifications, 1), schedule.maxBilledNotifications);
+
+      charge("base price", schedule.baseUsd);
+
+      const extraDays = Math.ceil(Math.max(0, lifetimeSeconds - lifetime.defaultSeconds) / 86400);
+      charge(`${extraDays} extra day(s)`, extraDays * schedule.perExtraDayUsd);
+
+      charge(`${notifications - 1} extra notification(s)`, (notifications - 1) * schedule.perExtraNotificationUsd);
+
+      if (body.condition === "between" || body.condition === "outside") {
+        charge(`${body.condition} condition`, schedule.conditionUsd.band);
+      }
+      if (body.condition === "change") {
+        charge("change condition", schedule.conditionUsd.change);
+      }
+      if (body.quoteAsset) {
+        charge("ratio", schedule.conditionUsd.ratio);
+      }
+
+      const channel = body.channel ?? defaultChannel;
+      charge(`${channel} notification(s)`, notifications * (schedule.channelUsd[channel] ?? 0));
+
+      return {
+        priceUsd: formatUnits(units),
+        amount: toTokenAmount(units, tokenDecimals).toString(),
+        lifetimeSeconds,
+        notifications,
+        items,
+      };
+    },
+  };
+}
+
+/**
+ * Creates the alert pricing from the payment config
+ *
+ * Fields missing from the config's pricing section keep their value in
+ * DEFAULT_PRICE_SCHEDULE.
+ *
+ * @param payment - Payment config of the active environment (see paymentConfig.ts)
+ * @param lifetime - Default and longest alert lifetime (from the workflow config)
+ * @param defaultChannel - Channel of alerts that do not choose one
+ * @returns AlertPricing instance
+ * @throws Error if the schedule is invalid
+ */
+export function createAlertPricingFromConfig(
+  payment: PaymentConfig,
+  lifetime: RuleLifetimeConfig,
+  defaultChannel: string
+): AlertPricing {
+  const overrides = payment.pricing;
+
+  return createAlertPricing(
+    {
+      ...DEFAULT_PRICE_SCHEDULE,
+      ...overrides,
+      conditionUsd: { ...DEFAULT_PRICE_SCHEDULE.conditionUsd, ...overrides.conditionUsd },
+      channelUsd: { ...DEFAULT_PRICE_SCHEDULE.channelUsd, ...overrides.channelUsd },
+    },
+    lifetime,
+    defaultChannel,
+    payment.token.decimals
+  );
+}
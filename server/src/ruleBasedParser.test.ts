@@ -0,0 +1,143 @@
+import { describe, expect, test } from "bun:test";
+import type { ChatMessage } from "./chatSessions";
+import { createRuleBasedParser } from "./ruleBasedParser";
+
+/**
+ * Rule-Based Parser Tests
+ *
+ * The phrasings listed in ruleBasedParser.ts, follow-ups that change a
+ * previous alert request, and the replies asking for missing fields.
+ */
+
+const parser = createRuleBasedParser({ assets: ["BTC", "ETH", "LINK"], channels: ["pushover", "telegram"] });
+
+/**
+ * Sends a conversation to the parser and returns the create_price_alert
+ * arguments, or the text reply if it did not call the function
+ */
+async function parse(...messages: ChatMessage[]): Promise<Record<string, unknown> | string> {
+  const reply = await parser.complete({ messages, tools: [] });
+  const call = reply.tool_calls?.[0];
+  return call ? JSON.parse(call.function.arguments) : reply.content ?? "";
+}
+
+/**
+ * Returns a user message
+ */
+function user(content: string): ChatMessage {
+  return { role: "user", content };
+}
+
+/**
+ * Returns an assistant message calling create_price_alert with the given arguments
+ */
+function previousCall(args: Record<string, unknown>): ChatMessage {
+  return {
+    role: "assistant",
+    content: null,
+    tool_calls: [
+      { id: "call_1", type: "function", function: { name: "create_price_alert", arguments: JSON.stringify(args) } },
+    ],
+  };
+}
+
+// ============================================================================
+// Phrasings
+// ============================================================================
+
+describe("phrasings", () => {
+  test.each([
+    ["alert me when BTC drops below 60k", { asset: "BTC", condition: "lt", targetPriceUsd: "60000" }],
+    [
+      "notify me if eth is at least 3,500.50 via telegram",
+      { asset: "ETH", condition: "gte", targetPriceUsd: "3500.5", channel: "telegram" },
+    ],
+    [
+      "LINK above $25 every time it crosses",
+      { asset: "LINK", condition: "gt", targetPriceUsd: "25", triggerMode: "crossing" },
+    ],
+    ["ETH up 5%", { asset: "ETH", condition: "gt", relativeTarget: { type: "percent", value: "5" } }],
+    ["BTC drops $2,000 from now", { asset: "BTC", condition: "lt", relativeTarget: { type: "delta", value: "-2000" } }],
+    [
+      "when BTC enters 58k-60k",
+      { asset: "BTC", condition: "between", targetPriceUsd: "58000", upperPriceUsd: "60000" },
+    ],
+    [
+      "if ETH leaves the 3,000-3,400 band",
+      { asset: "ETH", condition: "outside", targetPriceUsd: "3000", upperPriceUsd: "3400" },
+    ],
+    [
+      "alert if LINK moves more than 8% in 1 hour",
+      { asset: "LINK", condition: "change", changePercent: "8", windowSeconds: 3600, direction: "any" },
+    ],
+    ["ETH/BTC below 0.045", { asset: "ETH", quoteAsset: "BTC", condition: "lt", targetPriceUsd: "0.045" }],
+    [
+      "bitcoin over 70k at most once every 15 minutes for 2 days",
+      {
+        asset: "BTC",
+        condition: "gt",
+        targetPriceUsd: "70000",
+        triggerMode: "cooldown",
+        cooldownSeconds: 900,
+        expiresInSeconds: 172800,
+      },
+    ],
+  ])("%s", async (message, expected) => {
+    expect(await parse(user(message))).toEqual(expected);
+  });
+});
+
+// ============================================================================
+// Follow-ups
+// ============================================================================
+
+describe("follow-ups", () => {
+  const previous = { asset: "BTC", condition: "lt", targetPriceUsd: "60000", channel: "telegram" };
+
+  test.each([
+    ["make that ETH instead", { ...previous, asset: "ETH" }],
+    ["what about 55k?", { ...previous, targetPriceUsd: "55000" }],
+    ["make it above 65k", { ...previous, condition: "gt", targetPriceUsd: "65000" }],
+    ["down 5% instead", { ...previous, targetPriceUsd: undefined, relativeTarget: { type: "percent", value: "-5" } }],
+    [
+      "make that between 58k and 60k",
+      { ...previous, condition: "between", targetPriceUsd: "58000", upperPriceUsd: "60000" },
+    ],
+  ])("%s", async (message, expected) => {
+    expect(await parse(user("alert me when BTC drops below 60k"), previousCall(previous), user(message))).toEqual(
+      JSON.parse(JSON.stringify(expected))
+    );
+  });
+
+  test("leaves a USD alert when switching to the previous quote asset", async () => {
+    const ratio = { asset: "ETH", quoteAsset: "BTC", condition: "lt", targetPriceUsd: "0.045" };
+
+    expect(await parse(previousCall(ratio), user("make that BTC instead"))).toEqual({
+      asset: "BTC",
+      condition: "lt",
+      targetPriceUsd: "0.045",
+    });
+  });
+
+  test("asks for a band when only the condition changes to a band", async () => {
+    expect(await parse(previousCall(previous), user("make that outside instead"))).toBe(
+      "Please include a price band (e.g. 3,000-3,400) for your BTC outside alert."
+    );
+  });
+});
+
+// ============================================================================
+// Missing Fields
+// ============================================================================
+
+describe("missing fields", () => {
+  test.each([
+    ["hello", "I can create price alerts for BTC, ETH, LINK."],
+    ["BTC please", "Please include a condition (above/below/between/outside) and a target price for your BTC alert."],
+    ["ETH above", "Please include a target price for your ETH alert."],
+    ["BTC above 58k-60k", "Please include a condition (above/below/between/outside) for your BTC alert."],
+    ["make it 58k-60k", "I can create price alerts for BTC, ETH, LINK."],
+  ])("%s", async (message, expected) => {
+    expect(await parse(user(message))).toStartWith(expected);
+  });
+});
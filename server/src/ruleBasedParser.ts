@@ -0,0 +1,422 @@
+import { randomUUID } from "node:crypto";
+import { parseUsdPrice, toDecimalString } from "./price";
+import type { LlmProvider, LlmReply } from "./llmProviders";
+import type { ChatMessage } from "./chatSessions";
+
+/**
+ * Rule-Based Alert Parser
+ *
+ * This module turns common alert phrasings into create_price_alert calls
+ * without an LLM, e.g.:
+ * - "alert me when BTC drops below 60k"
+ * - "notify me if eth is at least 3,500.50 via telegram"
+ * - "LINK above $25 every time it crosses"
+ * - "ETH up 5%", "BTC drops $2,000 from now" (relative to the current price)
+ * - "when BTC enters 58k-60k", "if ETH leaves the 3,000-3,400 band" (price bands)
+ * - "alert if LINK moves more than 8% in 1 hour" (percent change over a time window)
+ * - "ETH/BTC below 0.045" (ratio of two catalog assets)
+ *
+ * It implements the LlmProvider interface, so /chat works offline (no API key,
+ * no network) and keeps working when the configured LLM is rate limited or
+ * down. Replies use the same OpenAI-compatible message format as the LLM
+ * providers, so the chat session history stays interchangeable.
+ *
+ * Follow-ups such as "make that ETH instead" or "what about 55k?" reuse the
+ * fields of the most recent create_price_alert call in the conversation.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Rule-based parser options
+ */
+export interface RuleBasedParserOptions {
+  /** Supported asset symbols (from the asset catalog) */
+  assets: string[];
+  /** Enabled notification channels */
+  channels: string[];
+}
+
+/**
+ * Alert fields extracted from a message (create_price_alert arguments)
+ */
+type AlertArgs = {
+  asset?: string;
+  quoteAsset?: string;
+  condition?: "gt" | "lt" | "gte" | "lte" | "between" | "outside" | "change";
+  targetPriceUsd?: string;
+  upperPriceUsd?: string;
+  changePercent?: string;
+  windowSeconds?: number;
+  direction?: "up" | "down" | "any";
+  relativeTarget?: { type: "percent" | "delta"; value: string };
+  triggerMode?: "once" | "crossing" | "cooldown";
+  cooldownSeconds?: number;
+  channel?: string;
+  expiresInSeconds?: number;
+};
+
+// ============================================================================
+// Phrase Tables
+// ============================================================================
+
+/**
+ * Common asset names, used when the catalog contains the symbol
+ */
+const ASSET_ALIASES: Record<string, string[]> = {
+  BTC: ["bitcoin"],
+  ETH: ["ether", "ethereum"],
+  LINK: ["chainlink"],
+};
+
+/**
+ * Condition phrases, checked in order (inclusive phrases before strict ones)
+ */
+const CONDITION_PHRASES: Array<{ condition: AlertArgs["condition"]; pattern: RegExp }> = [
+  { condition: "gte", pattern: />=|\b(at or above|at least|or (more|higher|above))\b/ },
+  { condition: "lte", pattern: /<=|\b(at or below|at most|or (less|lower|below))\b/ },
+  { condition: "gt", pattern: />|\b(above|over|greater than|more than|higher than|exceeds?|rises? to|goes up to)\b/ },
+  { condition: "lt", pattern: /<|\b(below|under|less than|lower than|drops? to|falls? to|dips? to)\b/ },
+];
+
+/**
+ * Band condition phrases, checked before the single-target phrases
+ */
+const BAND_PHRASES: Array<{ condition: AlertArgs["condition"]; pattern: RegExp }> = [
+  { condition: "outside", pattern: /\b(outside|leaves?|exits?|breaks? out of|out of)\b/ },
+  { condition: "between", pattern: /\b(between|enters?|inside|within|in the range|in range)\b/ },
+];
+
+/**
+ * Price band: two prices separated by a dash, "to" or "and" (e.g. "58k-60k", "3,000 and 3,400")
+ */
+const RANGE_PATTERN =
+  /(\$?\s*(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s*[km]?)\s*(?:-|–|—|to|and)\s*(\$?\s*(?:\d{1,3}(?:,\d{3})+|\d+)(?:\.\d+)?\s*[km]?)(?![\d.,])/;
+
+/**
+ * Move relative to the current price (e.g. "up 5%", "drops by $2,000", "5% below")
+ */
+const RELATIVE_MOVE_PATTERNS = [
+  /\b(up|down|rises?|gains?|climbs?|jumps?|drops?|falls?|dips?|loses?|declines?)\s+(?:by\s+)?(\$?\s*[\d,]+(?:\.\d+)?\s*[km]?)\s*(%)?/,
+  /()(\d+(?:\.\d+)?)\s*(%)\s+(above|below|higher|lower|up|down)\b/,
+];
+
+/**
+ * Percent change over a time window (e.g. "moves 8% in 1 hour", "drops 10% within 24h")
+ */
+const CHANGE_PATTERN =
+  /\b(?:(up|rises?|gains?|climbs?|jumps?|pumps?)|(down|drops?|falls?|dips?|loses?|declines?|dumps?)|moves?|changes?|swings?)\s+(?:by\s+)?(?:more than\s+|over\s+|at least\s+)?(\d+(?:\.\d+)?)\s*%\s+(?:in|within|over)\s+(?:(\d+)\s*|an?\s+)(second|sec|minute|min|hour|hr|h|day|d)s?\b/;
+
+/**
+ * Words for upward moves (anything else is a downward move)
+ */
+const UP_PATTERN = /^(up|rises?|gains?|climbs?|jumps?|above|higher)$/;
+
+/**
+ * Price in USD: optional $, thousands separators, optional k/m suffix
+ */
+const PRICE_PATTERN = /\$?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?\s*(k|m)?\b/i;
+
+/**
+ * Cooldown phrase (e.g. "at most once every 15 minutes")
+ */
+const COOLDOWN_PATTERN = /\b(?:at most\s+)?(?:once\s+)?every\s+(\d+)\s*(second|sec|minute|min|hour|hr|day)s?\b/;
+
+/**
+ * Alert lifetime phrase (e.g. "for 2 days", "valid for a week", "expires in 12 hours")
+ */
+const DURATION_PATTERN =
+  /\b(?:(?:valid|active)\s+)?(?:for|expires?\s+in|expiring\s+in)\s+(?:the\s+next\s+)?(?:(\d+)\s*|an?\s+)(minute|min|hour|hr|h|day|d|week)s?\b/;
+
+/**
+ * Seconds per cooldown, window and lifetime unit
+ */
+const UNIT_SECONDS: Record<string, number> = {
+  second: 1,
+  sec: 1,
+  minute: 60,
+  min: 60,
+  hour: 3600,
+  hr: 3600,
+  day: 86400,
+  week: 604800,
+  h: 3600,
+  d: 86400,
+};
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Parses a price phrase into a canonical decimal string
+ *
+ * @param text - Message text following the condition phrase
+ * @returns Decimal string (e.g. "60000"), or undefined if no valid price is found
+ */
+function parsePrice(text: string): string | undefined {
+  const match = PRICE_PATTERN.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const multiplier = { k: 1000n, m: 1000000n }[match[3]?.toLowerCase() ?? ""] ?? 1n;
+  try {
+    return toDecimalString(parseUsdPrice(match[1].replace(/,/g, "") + (match[2] ?? "")) * multiplier);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parses a price band
+ *
+ * A suffix on the upper bound only also applies to the lower one ("58-60k"),
+ * and bounds given in descending order are swapped.
+ *
+ * @param text - Lowercase message text
+ * @returns Lower and upper bounds, or undefined if the message has no band
+ */
+function parseRange(text: string): Pick<AlertArgs, "targetPriceUsd" | "upperPriceUsd"> | undefined {
+  const match = RANGE_PATTERN.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const suffix = /[km]$/.exec(match[2].trim())?.[0];
+  const lowerText = suffix && !/[km]$/.test(match[1].trim()) ? `${match[1].trim()}${suffix}` : match[1];
+  const lower = parsePrice(lowerText);
+  const upper = parsePrice(match[2]);
+  if (!lower || !upper) {
+    return undefined;
+  }
+  return parseUsdPrice(lower) <= parseUsdPrice(upper)
+    ? { targetPriceUsd: lower, upperPriceUsd: upper }
+    : { targetPriceUsd: upper, upperPriceUsd: lower };
+}
+
+/**
+ * Parses a percent change over a time window
+ *
+ * @param text - Lowercase message text
+ * @returns Change fields with condition change, or undefined if the message has no change phrase
+ */
+function parseChange(
+  text: string
+): Pick<AlertArgs, "condition" | "changePercent" | "windowSeconds" | "direction"> | undefined {
+  const match = CHANGE_PATTERN.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    condition: "change",
+    changePercent: match[3],
+    windowSeconds: Number(match[4] ?? 1) * UNIT_SECONDS[match[5]],
+    direction: match[1] ? "up" : match[2] ? "down" : "any",
+  };
+}
+
+/**
+ * Parses a move relative to the current price
+ *
+ * @param text - Lowercase message text
+ * @returns Relative target and the matching condition, or undefined if the message has no relative move
+ */
+function parseRelativeMove(text: string): Pick<AlertArgs, "relativeTarget" | "condition"> | undefined {
+  for (const pattern of RELATIVE_MOVE_PATTERNS) {
+    const match = pattern.exec(text);
+    if (!match) {
+      continue;
+    }
+    const direction = match[1] || match[4];
+    const magnitude = match[3] ? match[2].replace(/[$,\s]/g, "") : parsePrice(match[2]);
+    if (!magnitude) {
+      return undefined;
+    }
+    const up = UP_PATTERN.test(direction);
+    return {
+      relativeTarget: { type: match[3] ? "percent" : "delta", value: up ? magnitude : `-${magnitude}` },
+      condition: up ? "gt" : "lt",
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Extracts the alert fields mentioned in a message
+ *
+ * @param message - User message
+ * @param options - Parser options
+ * @returns Extracted fields (missing fields are left undefined)
+ */
+function extractAlertArgs(message: string, options: RuleBasedParserOptions): AlertArgs {
+  const text = message.toLowerCase();
+  const args: AlertArgs = {};
+
+  // A ratio names both assets (e.g. "eth/btc"); otherwise the first catalog asset mentioned
+  const symbols = options.assets.map((symbol) => symbol.toLowerCase()).join("|");
+  const pair = new RegExp(`\\b(${symbols})\\s*/\\s*(${symbols})\\b`).exec(text);
+  if (pair) {
+    args.asset = options.assets.find((symbol) => symbol.toLowerCase() === pair[1]);
+    args.quoteAsset = options.assets.find((symbol) => symbol.toLowerCase() === pair[2]);
+  } else {
+    args.asset = options.assets.find((symbol) =>
+      [symbol.toLowerCase(), ...(ASSET_ALIASES[symbol] ?? [])].some((name) =>
+        new RegExp(`\\b${name}\\b`).test(text)
+      )
+    );
+  }
+
+  const cooldown = COOLDOWN_PATTERN.exec(text);
+  if (cooldown) {
+    args.triggerMode = "cooldown";
+    args.cooldownSeconds = Number(cooldown[1]) * UNIT_SECONDS[cooldown[2]];
+  } else if (/\b(every time|each time|whenever)\b/.test(text)) {
+    args.triggerMode = "crossing";
+  }
+
+  const duration = DURATION_PATTERN.exec(text);
+  if (duration) {
+    args.expiresInSeconds = Number(duration[1] ?? 1) * UNIT_SECONDS[duration[2]];
+  }
+
+  // The price follows the condition phrase; the cooldown and duration numbers are not prices
+  let priceText = text.replace(COOLDOWN_PATTERN, " ").replace(DURATION_PATTERN, " ");
+  const change = parseChange(priceText);
+  const range = change ? undefined : parseRange(priceText);
+  const relativeMove = change || range ? undefined : parseRelativeMove(priceText);
+  if (change) {
+    Object.assign(args, change);
+  } else if (range) {
+    Object.assign(args, range);
+    args.condition = BAND_PHRASES.find(({ pattern }) => pattern.test(priceText))?.condition;
+  } else if (relativeMove) {
+    Object.assign(args, relativeMove);
+  } else {
+    // A band phrase without a band only switches the condition ("make that outside instead")
+    const band = BAND_PHRASES.find(({ pattern }) => pattern.test(priceText));
+    if (band) {
+      args.condition = band.condition;
+    } else {
+      for (const { condition, pattern } of CONDITION_PHRASES) {
+        const match = pattern.exec(priceText);
+        if (match) {
+          args.condition = condition;
+          priceText = priceText.slice(match.index + match[0].length);
+          break;
+        }
+      }
+      args.targetPriceUsd = parsePrice(priceText);
+    }
+  }
+
+  args.channel = options.channels.find((channel) => new RegExp(`\\b${channel}\\b`).test(text));
+
+  return args;
+}
+
+/**
+ * Returns the arguments of the most recent create_price_alert call in a conversation
+ */
+function findPreviousAlertArgs(messages: ChatMessage[]): AlertArgs | undefined {
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i];
+    if (message.role !== "assistant" || !message.tool_calls) {
+      continue;
+    }
+    const call = message.tool_calls.find((toolCall) => toolCall.function.name === "create_price_alert");
+    if (call) {
+      try {
+        return JSON.parse(call.function.arguments);
+      } catch {
+        return undefined;
+      }
+    }
+  }
+  return undefined;
+}
+
+// ============================================================================
+// Provider
+// ============================================================================
+
+/**
+ * Creates the rule-based parser provider
+ *
+ * @param options - Supported assets and channels
+ * @returns LlmProvider that never calls the network
+ */
+export function createRuleBasedParser(options: RuleBasedParserOptions): LlmProvider {
+  const example = `Try something like 'alert me when ${options.assets[0]} drops below 60k'.`;
+
+  return {
+    name: "rule-based parser",
+
+    async complete({ messages }): Promise<LlmReply> {
+      const lastMessage = messages[messages.length - 1];
+      const message = typeof lastMessage?.content === "string" ? lastMessage.content : "";
+      const extracted = extractAlertArgs(message, options);
+
+      // Fields from the current message override the previous alert request
+      const mentioned = Object.fromEntries(Object.entries(extracted).filter(([, value]) => value !== undefined));
+      const previous = Object.keys(mentioned).length > 0 ? findPreviousAlertArgs(messages) : undefined;
+      const args: AlertArgs = { ...previous, ...mentioned };
+      // Switching the asset to the previous quote asset leaves a USD alert
+      if (args.quoteAsset === args.asset) {
+        delete args.quoteAsset;
+      }
+      // A new target replaces the previous one, whether absolute, relative, a band or a change
+      if (mentioned.relativeTarget || mentioned.targetPriceUsd || mentioned.changePercent) {
+        for (const field of [
+          "targetPriceUsd",
+          "upperPriceUsd",
+          "relativeTarget",
+          "changePercent",
+          "windowSeconds",
+          "direction",
+        ] as const) {
+          if (!(field in mentioned)) {
+            delete args[field];
+          }
+        }
+        // A price target does not fit a previous change condition
+        if (!mentioned.condition && args.condition === "change") {
+          delete args.condition;
+        }
+      }
+
+      if (!args.asset) {
+        return {
+          content: `I can create price alerts for ${options.assets.join(", ")}. ${example}`,
+        };
+      }
+      const hasTarget =
+        args.targetPriceUsd !== undefined || args.relativeTarget !== undefined || args.changePercent !== undefined;
+      if (!args.condition || !hasTarget) {
+        const missing = [!args.condition && "a condition (above/below/between/outside)", !hasTarget && "a target price"]
+          .filter(Boolean)
+          .join(" and ");
+        return { content: `Please include ${missing} for your ${args.asset} alert. ${example}` };
+      }
+      const isBand = args.condition === "between" || args.condition === "outside";
+      if (isBand !== (args.upperPriceUsd !== undefined)) {
+        return {
+          content: isBand
+            ? `Please include a price band (e.g. 3,000-3,400) for your ${args.asset} ${args.condition} alert.`
+            : `Please say whether the ${args.asset} alert should fire inside (between) or outside the price band.`,
+        };
+      }
+
+      return {
+        content: null,
+        tool_calls: [
+          {
+            id: `call_${randomUUID()}`,
+            type: "function",
+            function: { name: "create_price_alert", arguments: JSON.stringify(args) },
+          },
+        ],
+      };
+    },
+  };
+}
@@ -0,0 +1,214 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from "bun:test";
+import express from "express";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import { decodeFunctionData, encodeFunctionResult, zeroAddress, zeroHash, type Hex } from "viem";
+import type { ChainConfig } from "./assets";
+import { applyRuleState, createRuleRegistryReader } from "./ruleRegistry";
+import type { StoredAlert } from "./types";
+
+/**
+ * Rule Registry Tests
+ *
+ * The reader calls getRuleById on a local stand-in RPC node that answers from
+ * scripted rules. Status changes are derived from rule states directly.
+ */
+
+// ============================================================================
+// Stand-in RPC Node
+// ============================================================================
+
+const CHAIN = "ethereum-testnet-sepolia-base-1";
+const REGISTRY = "0x9B9fC1EeF6BFC76CD07501Ae81b66f24fAB322B1";
+const ALERT_ID = "ab".repeat(32);
+
+const CHAINS: ChainConfig[] = [{ chainSelectorName: CHAIN, ruleRegistryAddress: REGISTRY, assets: [] }];
+
+const getRuleByIdAbi = [
+  {
+    name: "getRuleById",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_id", type: "bytes32" }],
+    outputs: [
+      { name: "exists", type: "bool" },
+      {
+        name: "rule",
+        type: "tuple",
+        components: [
+          { name: "id", type: "bytes32" },
+          { name: "payer", type: "address" },
+          { name: "paymentTxHash", type: "bytes32" },
+          { name: "asset", type: "string" },
+          { name: "quoteAsset", type: "string" },
+          { name: "condition", type: "string" },
+          { name: "targetPriceUsd", type: "uint256" },
+          { name: "upperPriceUsd", type: "uint256" },
+          { name: "changePercent", type: "uint256" },
+          { name: "windowSeconds", type: "uint256" },
+          { name: "direction", type: "string" },
+          { name: "createdAt", type: "uint256" },
+          { name: "expiresAt", type: "uint256" },
+          { name: "triggerMode", type: "string" },
+          { name: "cooldownSeconds", type: "uint256" },
+          { name: "armed", type: "bool" },
+          { name: "lastTriggeredAt", type: "uint256" },
+          { name: "cancelled", type: "bool" },
+          { name: "channel", type: "string" },
+          { name: "destination", type: "bytes" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+/**
+ * Trigger state of each rule written to the stand-in registry, keyed by rule ID
+ */
+let rules: Record<Hex, { armed: boolean; lastTriggeredAt: bigint }>;
+
+let server: Server;
+let rpcUrl: string;
+
+beforeAll(async () => {
+  const app = express();
+  app.use(express.json());
+  app.post("/", (req, res) => {
+    const { id, method, params } = req.body;
+    if (method !== "eth_call" || String(params[0].to).toLowerCase() !== REGISTRY.toLowerCase()) {
+      return res.json({ jsonrpc: "2.0", id, error: { code: -32000, message: "execution reverted" } });
+    }
+    const { args } = decodeFunctionData({ abi: getRuleByIdAbi, data: params[0].data ?? params[0].input });
+    const rule = rules[args[0]];
+    const result = encodeFunctionResult({
+      abi: getRuleByIdAbi,
+      functionName: "getRuleById",
+      result: [
+        rule !== undefined,
+        {
+          id: args[0],
+          payer: zeroAddress,
+          paymentTxHash: zeroHash,
+          asset: "BTC",
+          quoteAsset: "",
+          condition: "gt",
+          targetPriceUsd: 0n,
+          upperPriceUsd: 0n,
+          changePercent: 0n,
+          windowSeconds: 0n,
+          direction: "",
+          createdAt: 0n,
+          expiresAt: 0n,
+          triggerMode: "once",
+          cooldownSeconds: 0n,
+          armed: rule?.armed ?? false,
+          lastTriggeredAt: rule?.lastTriggeredAt ?? 0n,
+          cancelled: false,
+          channel: "",
+          destination: "0x",
+        },
+      ],
+    });
+    return res.json({ jsonrpc: "2.0", id, result });
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  rpcUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`;
+});
+
+afterAll(() => {
+  server.close();
+});
+
+beforeEach(() => {
+  rules = {};
+});
+
+/**
+ * Creates a forwarded alert
+ */
+function createAlert(overrides: Partial<StoredAlert> = {}): StoredAlert {
+  return {
+    id: ALERT_ID,
+    payer: "0x000000000000000000000000000000000000dEaD",
+    asset: "BTC",
+    condition: "gt",
+    targetPriceUsd: "60000",
+    chain: CHAIN,
+    channel: "pushover",
+    createdAt: 1_765_000_000,
+    status: "dispatched",
+    updatedAt: 1_765_000_000,
+    delivery: { status: "delivered", attempts: 1 },
+    ...overrides,
+  };
+}
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+describe("registry reader", () => {
+  test("returns null for rules that were not written", async () => {
+    const reader = createRuleRegistryReader(CHAINS, { [CHAIN]: rpcUrl });
+
+    expect(await reader.getRuleState(CHAIN, ALERT_ID)).toBeNull();
+  });
+
+  test("reads the trigger state of a written rule by its alert ID", async () => {
+    const reader = createRuleRegistryReader(CHAINS, { [CHAIN]: rpcUrl });
+    rules[`0x${ALERT_ID}`] = { armed: false, lastTriggeredAt: 1_765_000_600n };
+
+    expect(await reader.getRuleState(CHAIN, ALERT_ID)).toEqual({ armed: false, lastTriggeredAt: 1_765_000_600 });
+  });
+
+  test("rejects chains without a registry address or RPC URL", async () => {
+    const reader = createRuleRegistryReader(CHAINS, {});
+
+    await expect(reader.getRuleState("ethereum-mainnet", ALERT_ID)).rejects.toThrow(
+      "No ruleRegistryAddress configured"
+    );
+    await expect(reader.getRuleState(CHAIN, ALERT_ID)).rejects.toThrow("No RPC URL configured");
+  });
+});
+
+// ============================================================================
+// Status
+// ============================================================================
+
+describe("applyRuleState", () => {
+  test("keeps alerts dispatched until their rule is written", () => {
+    expect(applyRuleState(createAlert(), null)).toBeNull();
+  });
+
+  test("marks written rules onchain, and triggered once they notified", () => {
+    expect(applyRuleState(createAlert(), { armed: true, lastTriggeredAt: 0 })).toEqual({
+      status: "onchain",
+      lastTriggeredAt: undefined,
+    });
+    const notified = { armed: false, lastTriggeredAt: 1_765_000_600 };
+    expect(applyRuleState(createAlert({ status: "onchain" }), notified)).toEqual({
+      status: "triggered",
+      lastTriggeredAt: 1_765_000_600,
+    });
+  });
+
+  test("returns to onchain when an edit re-arms a triggered rule", () => {
+    const triggered = createAlert({ status: "triggered", lastTriggeredAt: 1_765_000_600 });
+
+    expect(applyRuleState(triggered, { armed: true, lastTriggeredAt: 1_765_000_600 })).toBeNull();
+    expect(applyRuleState(triggered, { armed: true, lastTriggeredAt: 0 })).toEqual({
+      status: "onchain",
+      lastTriggeredAt: undefined,
+    });
+  });
+
+  test("leaves alerts outside the registry statuses unchanged", () => {
+    const state = { armed: false, lastTriggeredAt: 1_765_000_600 };
+
+    expect(applyRuleState(createAlert({ status: "cancelled" }), state)).toBeNull();
+    expect(applyRuleState(createAlert({ status: "expired" }), state)).toBeNull();
+    expect(applyRuleState(createAlert({ status: "paid" }), state)).toBeNull();
+  });
+});
@@ -0,0 +1,187 @@
+import { createPublicClient, decodeFunctionResult, encodeFunctionData, http, type Address, type Hex } from "viem";
+import type { ChainConfig } from "./assets";
+import { parsePairs } from "./priceSource";
+import type { AlertStatus, StoredAlert } from "./types";
+
+/**
+ * Rule Registry Reader
+ *
+ * The CRE HTTP trigger accepting a payload does not mean its rule was
+ * written: the workflow run rejects duplicates, payers over the per-payer
+ * limit and invalid lifetimes. This module reads the rules back from the
+ * RuleRegistry contract (getRuleById), so the lifecycle status of an alert
+ * follows what is on-chain:
+ *
+ * - dispatched → onchain once the rule exists in the registry
+ * - onchain → triggered once the cron trigger recorded a notification
+ *   (lastTriggeredAt, written by its state reports)
+ * - triggered → onchain when an edit re-arms the rule (lastTriggeredAt reset)
+ *
+ * The registry of each chain is the ruleRegistryAddress of its workflow
+ * config entry, read over the RPC URLs in RULE_REGISTRY_RPC_URLS.
+ */
+
+// ============================================================================
+// Type Definitions
+// ============================================================================
+
+/**
+ * Trigger state of a rule in the registry
+ */
+export interface RuleState {
+  /** Whether the rule may fire on the next matching check */
+  armed: boolean;
+  /** UNIX timestamp in seconds of the last notification (0 if never) */
+  lastTriggeredAt: number;
+}
+
+/**
+ * Read access to the RuleRegistry contracts
+ */
+export interface RuleRegistryReader {
+  /**
+   * Reads the rule written for an alert
+   *
+   * @param chain - Chain selector name of the alert
+   * @param id - Alert ID (the rule's deterministic ID)
+   * @returns Rule state, or null if the rule was not written (yet)
+   */
+  getRuleState(chain: string, id: string): Promise<RuleState | null>;
+}
+
+/**
+ * Lifecycle statuses that follow the registry
+ */
+export const REGISTRY_STATUSES: AlertStatus[] = ["dispatched", "onchain", "triggered"];
+
+// ============================================================================
+// Contract ABI
+// ============================================================================
+
+/**
+ * RuleRegistry getRuleById ABI (Rule struct fields as in cre/alerts/reports.ts)
+ */
+const registryAbi = [
+  {
+    name: "getRuleById",
+    type: "function",
+    stateMutability: "view",
+    inputs: [{ name: "_id", type: "bytes32" }],
+    outputs: [
+      { name: "exists", type: "bool" },
+      {
+        name: "rule",
+        type: "tuple",
+        components: [
+          { name: "id", type: "bytes32" },
+          { name: "payer", type: "address" },
+          { name: "paymentTxHash", type: "bytes32" },
+          { name: "asset", type: "string" },
+          { name: "quoteAsset", type: "string" },
+          { name: "condition", type: "string" },
+          { name: "targetPriceUsd", type: "uint256" },
+          { name: "upperPriceUsd", type: "uint256" },
+          { name: "changePercent", type: "uint256" },
+          { name: "windowSeconds", type: "uint256" },
+          { name: "direction", type: "string" },
+          { name: "createdAt", type: "uint256" },
+          { name: "expiresAt", type: "uint256" },
+          { name: "triggerMode", type: "string" },
+          { name: "cooldownSeconds", type: "uint256" },
+          { name: "armed", type: "bool" },
+          { name: "lastTriggeredAt", type: "uint256" },
+          { name: "cancelled", type: "bool" },
+          { name: "channel", type: "string" },
+          { name: "destination", type: "bytes" },
+        ],
+      },
+    ],
+  },
+] as const;
+
+// ============================================================================
+// Reader
+// ============================================================================
+
+/**
+ * Creates a reader for the RuleRegistry contracts of the chain catalog
+ *
+ * @param chains - Chain catalog (registry address per chain)
+ * @param rpcUrls - RPC URL per chain selector name
+ * @returns RuleRegistryReader instance
+ */
+export function createRuleRegistryReader(chains: ChainConfig[], rpcUrls: Record<string, string>): RuleRegistryReader {
+  return {
+    async getRuleState(chain, id) {
+      const registry = chains.find((entry) => entry.chainSelectorName === chain)?.ruleRegistryAddress;
+      if (!registry) {
+        throw new Error(`No ruleRegistryAddress configured for ${chain}`);
+      }
+      const rpcUrl = rpcUrls[chain];
+      if (!rpcUrl) {
+        throw new Error(`No RPC URL configured for ${chain} (RULE_REGISTRY_RPC_URLS)`);
+      }
+
+      const client = createPublicClient({ transport: http(rpcUrl) });
+      const { data } = await client.call({
+        to: registry as Address,
+        data: encodeFunctionData({
+          abi: registryAbi,
+          functionName: "getRuleById",
+          args: [(id.startsWith("0x") ? id : `0x${id}`) as Hex],
+        }),
+      });
+      if (!data) {
+        throw new Error(`RuleRegistry on ${chain} returned no data`);
+      }
+      const [exists, rule] = decodeFunctionResult({ abi: registryAbi, functionName: "getRuleById", data });
+
+      if (!exists) {
+        return null;
+      }
+      return { armed: rule.armed, lastTriggeredAt: Number(rule.lastTriggeredAt) };
+    },
+  };
+}
+
+/**
+ * Creates the registry reader configured by environment variables
+ *
+ * @param chains - Chain catalog
+ * @requires RULE_REGISTRY_RPC_URLS - chainSelectorName=url pairs, comma-separated
+ *           (unset: forwarded alerts stay dispatched, their rules are not read back)
+ * @returns RuleRegistryReader instance, or null if no RPC URL is configured
+ * @throws Error if RULE_REGISTRY_RPC_URLS is malformed
+ */
+export function createRuleRegistryReaderFromEnv(chains: ChainConfig[]): RuleRegistryReader | null {
+  const rpcUrls = parsePairs(process.env.RULE_REGISTRY_RPC_URLS ?? "", "RULE_REGISTRY_RPC_URLS");
+  return Object.keys(rpcUrls).length > 0 ? createRuleRegistryReader(chains, rpcUrls) : null;
+}
+
+// ============================================================================
+// Status
+// ============================================================================
+
+/**
+ * Derives the changes to an alert from the state of its rule
+ *
+ * Only alerts in a registry status (dispatched, onchain, triggered) change:
+ * a written rule is onchain, or triggered once it has sent a notification.
+ * Cancellations are recorded by DELETE /alerts/:id, not read back.
+ *
+ * @param alert - Stored alert
+ * @param state - State of its rule, or null if the rule was not written
+ * @returns Patch for the alert store, or null if nothing changed
+ */
+export function applyRuleState(alert: StoredAlert, state: RuleState | null): Partial<StoredAlert> | null {
+  if (!state || !REGISTRY_STATUSES.includes(alert.status)) {
+    return null;
+  }
+
+  const status: AlertStatus = state.lastTriggeredAt > 0 ? "triggered" : "onchain";
+  const lastTriggeredAt = state.lastTriggeredAt > 0 ? state.lastTriggeredAt : undefined;
+  if (status === alert.status && lastTriggeredAt === alert.lastTriggeredAt) {
+    return null;
+  }
+  return { status, lastTriggeredAt };
+}
@@ -11,28 +11,62 @@ import { createHash } from "node:crypto";
 import { paymentMiddleware } from "x402-express";
 import { settleResponseFromHeader } from "x402/types";
 import { exact } from "x402/schemes";
-import OpenAI from "openai";
 import { createPaidPriceAlert } from "./x402Client";
 import { startChatInterface } from "./chat";
+import { buildWorkflowPayload, createCreDispatcherFromEnv } from "./creDispatcher";
+import { createAlertStoreFromEnv, type AlertFilter } from "./alertStore";
+import { parseRelativeTarget, parseUsdPrice, resolveRelativeTarget, toDecimalString } from "./price";
+import { createPriceSourceFromEnv, getReferencePrice } from "./priceSource";
+import { applyRuleState, createRuleRegistryReaderFromEnv, REGISTRY_STATUSES } from "./ruleRegistry";
+import { loadAssetCatalog, loadChainCatalog, loadNotificationChannels, loadRuleLifetime } from "./assets";
+import { maskDestination, validateDestination } from "./destinations";
+import { createChatSessionStoreFromEnv, type ChatMessage } from "./chatSessions";
+import { createAlertProposalStoreFromEnv } from "./alertProposals";
+import { createLlmProviderFromEnv } from "./llmProviders";
+import { verifyAlertAction, type AlertAction } from "./alertAuth";
+import { createAlertPricingFromConfig, type AlertQuote } from "./pricing";
+import { formatTokenAmount, loadPaymentConfig } from "./paymentConfig";
+import {
+  checkPaidRequest,
+  createPaidRequestIndex,
+  hashAlertRequest,
+  paymentNonceKey,
+  validateIdempotencyKey,
+  type PaidRequestClaims,
+} from "./idempotency";
+import type { AlertCondition, AlertRequestBody, ChangeDirection, AlertStatus, RelativeTarget, StoredAlert, TriggerMode } from "./types";
 
 /**
  * Unified API Server
  *
  * This server demonstrates a crypto price alert system that combines:
- * - Natural language processing (via Gemini AI)
+ * - Natural language processing (via Gemini AI, any OpenAI-compatible LLM, or a rule-based parser)
  * - x402 payment protocol for micropayments
  * - Chainlink CRE (Chainlink Runtime Environment) for on-chain operations
  *
  * Architecture:
  * - /chat: Natural language interface for creating alerts (no payment required)
- *   - Uses Gemini AI to extract alert parameters from user messages
- *   - Validates that only supported assets (BTC, ETH, LINK) are requested
+ *   - Uses the configured LLM provider to extract alert parameters from user messages
+ *   - Validates that only supported assets (from the asset catalog) are requested
+ *   - Returns the extracted alert as a proposal with a confirmation token
+ *
+ * - /chat/confirm: Confirms a proposal (the agent wallet pays)
  *   - Internally calls /alerts endpoint with x402 payment
  *
  * - /alerts: Direct alert creation endpoint (requires x402 payment)
- *   - Protected by x402 payment middleware ($0.01 USDC)
+ *   - Protected by x402 payment middleware, priced per request (see pricing.ts)
+ *   - Network, token, facilitator and receiver come from the payment config (see paymentConfig.ts)
  *   - Creates alert with deterministic ID (SHA256 hash)
- *   - Outputs CRE workflow payload for on-chain storage
+ *   - Idempotent: retries with the same Idempotency-Key or payment return the original alert (see idempotency.ts)
+ *   - Forwards CRE workflow payload to the CRE HTTP trigger (or logs it for local simulation)
+ *   - Persists the alert and its lifecycle status in the alert store
+ *
+ * - GET /alerts/quote: Quotes the price of an alert request (no payment required)
+ *
+ * - GET /alerts, GET /alerts/:id: Read alerts from the alert store (no payment required)
+ *
+ * - DELETE /alerts/:id, PATCH /alerts/:id: Cancel or edit an alert (signed by its payer, see alertAuth.ts)
+ *   - Forwards a cancel or update report to the CRE HTTP trigger
  *
  * x402 Payment Flow:
  * 1. Client sends request without payment → Server responds with 402 Payment Required
@@ -53,44 +87,83 @@ app.use(express.json());
 // ============================================================================
 
 /**
- * Validate required environment variables on startup
+ * Server port (default: 3000)
  */
-if (!process.env.GEMINI_API_KEY) {
-  throw new Error("GEMINI_API_KEY environment variable is required");
-}
-if (!process.env.X402_RECEIVER_ADDRESS) {
-  throw new Error("X402_RECEIVER_ADDRESS environment variable is required");
-}
+const PORT = Number(process.env.PORT ?? 3000);
 
 /**
- * Gemini client for natural language processing
- * Uses OpenAI SDK with Gemini's OpenAI compatibility endpoint
+ * x402 payment settings of the active environment: network, token, facilitator,
+ * receiver and price schedule (validated on startup, see paymentConfig.ts)
  */
-const llmClient = new OpenAI({
-  apiKey: process.env.GEMINI_API_KEY,
-  baseURL: "https://generativelanguage.googleapis.com/v1beta/openai/",
-});
+const PAYMENT = loadPaymentConfig();
 
 /**
- * Server port (default: 3000)
+ * CRE HTTP trigger dispatcher
+ * null when CRE_HTTP_TRIGGER_URL is not set (local simulation mode)
  */
-const PORT = Number(process.env.PORT ?? 3000);
+const creDispatcher = createCreDispatcherFromEnv();
+
+/**
+ * Conversation history of /chat sessions (see chatSessions.ts)
+ */
+const chatSessions = createChatSessionStoreFromEnv();
 
 /**
- * x402 payment recipient address
+ * Alerts proposed by /chat and awaiting confirmation (see alertProposals.ts)
  */
-const payToAddress = process.env.X402_RECEIVER_ADDRESS as `0x${string}`;
+const alertProposals = createAlertProposalStoreFromEnv();
 
 /**
- * x402 facilitator URL
+ * Alert store (file-backed by default, see alertStore.ts)
  */
-const facilitatorUrl = (process.env.X402_FACILITATOR_URL ?? "https://x402.org/facilitator") as `${string}://${string}`;
+const alertStore = createAlertStoreFromEnv();
+
+/**
+ * Idempotency-Keys and payment nonces claimed by paid alerts, rebuilt from the alert store
+ * before the server starts listening (see idempotency.ts)
+ */
+const paidRequests = createPaidRequestIndex();
+
+/**
+ * Configured chains and their asset catalogs, read from the CRE workflow config (see assets.ts)
+ */
+const CHAIN_CATALOG = loadChainCatalog();
+
+/**
+ * Supported chains (chain selector names); the first one is the default target
+ */
+const ALLOWED_CHAINS = CHAIN_CATALOG.map((chain) => chain.chainSelectorName);
+
+/**
+ * Asset catalog merged across all chains
+ */
+const ASSET_CATALOG = loadAssetCatalog(CHAIN_CATALOG);
 
 /**
  * Supported cryptocurrency assets for price alerts
- * Only BTC, ETH, and LINK are supported in this demo
  */
-const ALLOWED_ASSETS = ["BTC", "ETH", "LINK"] as const;
+const ALLOWED_ASSETS = ASSET_CATALOG.map((asset) => asset.symbol);
+
+/**
+ * Notification channels enabled in the CRE workflow config; the first one is the default
+ */
+const ALLOWED_CHANNELS = loadNotificationChannels();
+
+/**
+ * Default, shortest and longest alert lifetime, read from the CRE workflow config
+ * (ruleTTL, minRuleTTL, maxRuleTTL)
+ */
+const RULE_LIFETIME = loadRuleLifetime();
+
+/**
+ * x402 price of each alert request, quoted by GET /alerts/quote and /chat proposals (see pricing.ts)
+ */
+const alertPricing = createAlertPricingFromConfig(PAYMENT, RULE_LIFETIME, ALLOWED_CHANNELS[0]);
+
+/**
+ * Alert lifecycle statuses accepted by the GET /alerts status filter
+ */
+const ALERT_STATUSES: AlertStatus[] = ["pending_payment", "paid", "dispatched", "onchain", "triggered", "expired", "cancelled"];
 
 /**
  * Supported price alert conditions
@@ -98,12 +171,104 @@ const ALLOWED_ASSETS = ["BTC", "ETH", "LINK"] as const;
  * - lt: less than
  * - gte: greater than or equal
  * - lte: less than or equal
+ * - between: inside the band [targetPriceUsd, upperPriceUsd]
+ * - outside: outside the band [targetPriceUsd, upperPriceUsd]
+ * - change: moved by at least changePercent within windowSeconds
+ */
+const ALLOWED_CONDITIONS = ["gt", "lt", "gte", "lte", "between", "outside", "change"] as const;
+
+/**
+ * Conditions on a price band, with targetPriceUsd as the lower and upperPriceUsd as the upper bound
+ */
+const BAND_CONDITIONS: AlertCondition[] = ["between", "outside"];
+
+/**
+ * Supported move directions of change rules
+ */
+const ALLOWED_CHANGE_DIRECTIONS: ChangeDirection[] = ["up", "down", "any"];
+
+/**
+ * Longest accepted window of a change rule in seconds (7 days)
+ *
+ * The workflow also bounds how far back it reads feed rounds (maxHistoryRounds).
+ */
+const MAX_CHANGE_WINDOW_SECONDS = 7 * 24 * 3600;
+
+/**
+ * Fields of an alert its payer can change with PATCH /alerts/:id
+ * (asset, quoteAsset and chain identify the rule and are fixed)
+ */
+const EDITABLE_FIELDS: Array<keyof AlertRequestBody> = [
+  "condition",
+  "targetPriceUsd",
+  "upperPriceUsd",
+  "changePercent",
+  "windowSeconds",
+  "direction",
+  "triggerMode",
+  "cooldownSeconds",
+  "channel",
+  "destination",
+];
+
+/**
+ * Target fields of an alert: a PATCH setting any of them replaces the whole target
+ */
+const TARGET_FIELDS: Array<keyof AlertRequestBody> = [
+  "targetPriceUsd",
+  "upperPriceUsd",
+  "changePercent",
+  "windowSeconds",
+  "direction",
+];
+
+/**
+ * Lifecycle statuses in which the payer can still cancel or edit an alert
+ * (paid or later, and not yet expired or cancelled)
+ */
+const CHANGEABLE_STATUSES: AlertStatus[] = ["paid", "dispatched", "onchain", "triggered"];
+
+/**
+ * Supported re-notification policies
+ * - once: notify the first time the condition is met (default)
+ * - crossing: notify each time the condition becomes true again
+ * - cooldown: notify at most once per cooldownSeconds while the condition holds
+ */
+const ALLOWED_TRIGGER_MODES: TriggerMode[] = ["once", "crossing", "cooldown"];
+
+/**
+ * LLM provider used by /chat (see llmProviders.ts)
+ */
+const llmProvider = createLlmProviderFromEnv({ assets: ALLOWED_ASSETS, channels: ALLOWED_CHANNELS });
+
+/**
+ * Reference price source for relative targets, or null if disabled (see priceSource.ts)
  */
-const ALLOWED_CONDITIONS = ["gt", "lt", "gte", "lte"] as const;
+const priceSource = createPriceSourceFromEnv(CHAIN_CATALOG);
+
+/**
+ * Reader of the rules written to the RuleRegistry, or null if disabled (see ruleRegistry.ts)
+ */
+const ruleRegistry = createRuleRegistryReaderFromEnv(CHAIN_CATALOG);
 
 console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
 console.log("Unified API Server");
-console.log(`   Port: ${PORT} | Payment: $0.01 USDC`);
+console.log(`   Port: ${PORT} | Payment: from $${alertPricing.schedule.baseUsd} (quotes: GET /alerts/quote)`);
+console.log(`   Payment config: ${path.relative(projectRoot, PAYMENT.configPath)}`);
+console.log(`   Payment token: ${PAYMENT.token.symbol} (${PAYMENT.token.address}) on ${PAYMENT.network}`);
+console.log(`   Receiver: ${PAYMENT.receiver} | Facilitator: ${PAYMENT.facilitatorUrl}`);
+console.log(
+  `   Alert lifetime: ${RULE_LIFETIME.defaultSeconds}s by default (${RULE_LIFETIME.minSeconds}s-${RULE_LIFETIME.maxSeconds}s)`
+);
+console.log(
+  creDispatcher
+    ? `   CRE HTTP trigger: ${process.env.CRE_HTTP_TRIGGER_URL} (signer: ${creDispatcher.signer})`
+    : "   CRE HTTP trigger: disabled (local simulation)"
+);
+console.log(`   Chains: ${ALLOWED_CHAINS.join(", ")} (default: ${ALLOWED_CHAINS[0]})`);
+console.log(`   Notification channels: ${ALLOWED_CHANNELS.join(", ")} (default: ${ALLOWED_CHANNELS[0]})`);
+console.log(`   Chat: ${llmProvider.name}`);
+console.log(`   Relative targets: ${priceSource ? `enabled (${priceSource.name} prices)` : "disabled (PRICE_SOURCE not set)"}`);
 console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
 
 // ============================================================================
@@ -134,8 +299,12 @@ app.use((req, res, next) => {
     // x402 Handshake Step 1: Server sends 402 Payment Required (challenge)
     // This happens when client makes initial request without payment header
     if (res.statusCode === 402 && req.path === "/alerts") {
+      const quote = res.locals.quote as AlertQuote | undefined;
       console.log("\n  [x402 Handshake]");
       console.log("    Step 1: Server → Client: 402 Payment Required");
+      if (quote) {
+        console.log(`    - Price: ${formatTokenAmount(quote.amount, PAYMENT.token)} on ${PAYMENT.network}`);
+      }
       console.log("    Step 2: Client will process challenge and retry with payment");
     }
 
@@ -146,11 +315,9 @@ app.use((req, res, next) => {
         const decoded = exact.evm.decodePayment(paymentHeader);
         if ("authorization" in decoded.payload) {
           const auth = decoded.payload.authorization;
-          // USDC has 6 decimals, so divide by 10^6 to get USD amount
-          const amountUsd = Number(auth.value) / 10 ** 6;
           console.log("\n  [x402 Handshake]");
           console.log("    Step 3: Client → Server: Payment authorization received");
-          console.log(`    - Amount: $${amountUsd.toFixed(2)} USDC`);
+          console.log(`    - Amount: ${formatTokenAmount(auth.value, PAYMENT.token)} on ${decoded.network}`);
           console.log(`    - Payer: ${auth.from}`);
           console.log("    - Validating payment...");
         }
@@ -184,6 +351,105 @@ app.use((req, res, next) => {
 // x402 Payment Middleware
 // ============================================================================
 
+/**
+ * Decodes the EIP-3009 authorization of an x402 payment header
+ *
+ * @param paymentHeader - X-PAYMENT header (base64 JSON)
+ * @returns Payer, authorized amount and nonce, or null if the header cannot be decoded
+ */
+function decodePaymentAuthorization(
+  paymentHeader: string | undefined
+): { payer: string; amount: string; nonce: string } | null {
+  if (!paymentHeader) {
+    return null;
+  }
+  try {
+    const decoded = exact.evm.decodePayment(paymentHeader);
+    if ("authorization" in decoded.payload) {
+      const { from, value, nonce } = decoded.payload.authorization;
+      return { payer: from, amount: value, nonce };
+    }
+  } catch (e) {
+    // Not an exact EVM payment
+  }
+  return null;
+}
+
+/**
+ * Returns the Idempotency-Key and payment nonce claimed by a POST /alerts request
+ */
+function getPaidRequestClaims(req: express.Request): PaidRequestClaims {
+  const authorization = decodePaymentAuthorization(req.headers["x-payment"] as string | undefined);
+  return {
+    idempotencyKey: req.header("idempotency-key"),
+    paymentNonce: authorization ? paymentNonceKey(authorization.payer, authorization.nonce) : undefined,
+  };
+}
+
+/**
+ * Retry and replay detection for POST /alerts
+ *
+ * Runs before the payment middleware so a retried request (same
+ * Idempotency-Key or same payment, same body) gets the original alert back
+ * without being charged again. A claimed key or payment sent with a different
+ * body is rejected, and one whose alert is still settling is asked to retry.
+ */
+app.post("/alerts", async (req, res, next) => {
+  const claims = getPaidRequestClaims(req);
+  const keyError = validateIdempotencyKey(claims.idempotencyKey);
+  if (keyError) {
+    return res.status(400).json({ error: keyError });
+  }
+
+  const check = checkPaidRequest(paidRequests, claims, hashAlertRequest(req.body));
+  if (check.outcome === "new") {
+    return next();
+  }
+  if (check.outcome === "conflict") {
+    console.log(`  [ERROR] POST /alerts: ${check.error}`);
+    return res.status(check.status).json({ error: check.error });
+  }
+  const { record, byKey } = check;
+
+  let alert: StoredAlert | null;
+  try {
+    alert = await alertStore.get(record.alertId);
+  } catch (error: any) {
+    console.log(`  [ERROR] POST /alerts: failed to read alert ${record.alertId}: ${error.message}`);
+    return res.status(500).json({ error: "Failed to read the original alert", details: error.message });
+  }
+  if (!alert || alert.status === "pending_payment") {
+    console.log(`  [ERROR] POST /alerts: alert ${record.alertId} is still being paid`);
+    return res.status(409).json({ error: "The original request is still being processed. Retry later.", id: record.alertId });
+  }
+
+  console.log(`  [x402] Replayed POST /alerts: returning alert ${alert.id} (${byKey ? "Idempotency-Key" : "payment nonce"})`);
+  res.setHeader("Idempotent-Replayed", "true");
+  return res.status(200).json({ alert: toPublicAlert(alert) });
+});
+
+/**
+ * Relative target resolution for POST /alerts
+ *
+ * Runs before the payment middleware because reading the reference price is
+ * asynchronous and the paid handler must respond synchronously (see below).
+ * Requests whose relative target cannot be resolved are rejected before any
+ * payment is made.
+ */
+app.post("/alerts", async (req, res, next) => {
+  const body = req.body as Partial<AlertRequestBody>;
+  if (body.relativeTarget === undefined) {
+    return next();
+  }
+  try {
+    res.locals.resolvedTarget = await resolveRelativeTargetPrice(body);
+  } catch (error: any) {
+    console.log(`  [ERROR] POST /alerts: ${error.message}`);
+    return res.status(400).json({ error: error.message });
+  }
+  next();
+});
+
 /**
  * x402 Payment Middleware Configuration
  *
@@ -192,65 +458,433 @@ app.use((req, res, next) => {
  * - Responds with 402 Payment Required if no valid payment header
  * - Validates payment headers and processes settlements
  * - Adds x-payment-response header with settlement details
+ *
+ * The price is quoted per request from the submitted body (see pricing.ts),
+ * so the 402 challenge demands the quoted amount. Alerts have a handful of
+ * distinct prices, so one middleware is created per amount and reused. The
+ * amount is demanded in the configured token on the configured network (see
+ * paymentConfig.ts).
  */
-app.use(
-  paymentMiddleware(
-    payToAddress,
-    {
-      "POST /alerts": {
-        price: "$0.01",
-        network: "base-sepolia",
-        config: {
-          description: "Create a crypto price alert",
+const paymentMiddlewares = new Map<string, express.RequestHandler>();
+
+/**
+ * Returns the payment middleware demanding an amount (in token base units)
+ */
+function getPaymentMiddleware(amount: string): express.RequestHandler {
+  let middleware = paymentMiddlewares.get(amount);
+  if (!middleware) {
+    middleware = paymentMiddleware(
+      PAYMENT.receiver,
+      {
+        "POST /alerts": {
+          price: {
+            amount,
+            asset: {
+              address: PAYMENT.token.address,
+              decimals: PAYMENT.token.decimals,
+              eip712: PAYMENT.token.eip712,
+            },
+          },
+          network: PAYMENT.network,
+          config: {
+            description: "Create a crypto price alert",
+          },
         },
       },
-    },
-    { url: facilitatorUrl }
-  )
-);
+      { url: PAYMENT.facilitatorUrl }
+    );
+    paymentMiddlewares.set(amount, middleware);
+  }
+  return middleware;
+}
+
+app.use((req, res, next) => {
+  const body = (req.body ?? {}) as Partial<AlertRequestBody>;
+  const quote = alertPricing.quote(body, Math.floor(Date.now() / 1000));
+  res.locals.quote = quote;
+
+  return getPaymentMiddleware(quote.amount)(req, res, next);
+});
 
 // ============================================================================
-// Type Definitions
+// Validation Helpers
 // ============================================================================
 
 /**
- * Supported price alert conditions
+ * Validates the optional re-notification settings of an alert request
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @returns Error message, or null if the settings are valid
+ */
+function validateTriggerMode(body: Partial<AlertRequestBody>): string | null {
+  if (body.triggerMode === undefined) {
+    return null;
+  }
+  if (!ALLOWED_TRIGGER_MODES.includes(body.triggerMode)) {
+    return `Invalid triggerMode "${body.triggerMode}". Must be one of: ${ALLOWED_TRIGGER_MODES.join(", ")}`;
+  }
+  if (
+    body.triggerMode === "cooldown" &&
+    (typeof body.cooldownSeconds !== "number" || !Number.isInteger(body.cooldownSeconds) || body.cooldownSeconds <= 0)
+  ) {
+    return "cooldownSeconds must be a positive integer when triggerMode is cooldown";
+  }
+  return null;
+}
+
+/**
+ * Validates the optional expiry of an alert request
+ *
+ * The expiry is either an absolute expiresAt or a lifetime in
+ * expiresInSeconds, not both.
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @param now - Creation time of the alert (UNIX seconds)
+ * @returns Error message, or null if the expiry is valid
+ */
+function validateExpiry(body: Partial<AlertRequestBody>, now: number): string | null {
+  if (body.expiresAt !== undefined && body.expiresInSeconds !== undefined) {
+    return "Provide either expiresAt or expiresInSeconds, not both";
+  }
+  let lifetime: number;
+  if (body.expiresInSeconds !== undefined) {
+    if (typeof body.expiresInSeconds !== "number" || !Number.isInteger(body.expiresInSeconds)) {
+      return "expiresInSeconds must be a whole number of seconds";
+    }
+    lifetime = body.expiresInSeconds;
+  } else if (body.expiresAt !== undefined) {
+    if (typeof body.expiresAt !== "number" || !Number.isInteger(body.expiresAt)) {
+      return "expiresAt must be a UNIX timestamp in seconds";
+    }
+    lifetime = body.expiresAt - now;
+  } else {
+    return null;
+  }
+  if (lifetime < RULE_LIFETIME.minSeconds || lifetime > RULE_LIFETIME.maxSeconds) {
+    const field = body.expiresInSeconds !== undefined ? "expiresInSeconds" : "expiresAt";
+    return `${field} must be between ${RULE_LIFETIME.minSeconds} and ${RULE_LIFETIME.maxSeconds} seconds from now`;
+  }
+  return null;
+}
+
+/**
+ * Validates the optional quote asset of a ratio alert request
+ *
+ * Ratio alerts compare the asset's price in units of another catalog asset
+ * (e.g. ETH/BTC), so the quote asset must differ from the asset. Change rules
+ * only watch USD prices.
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @returns Error message, or null if the quote asset is valid
+ */
+function validateQuoteAsset(body: Partial<AlertRequestBody>): string | null {
+  if (body.quoteAsset === undefined) {
+    return null;
+  }
+  if (!ALLOWED_ASSETS.includes(body.quoteAsset)) {
+    return `Quote asset "${body.quoteAsset}" is not supported. Only ${ALLOWED_ASSETS.join(", ")} are allowed.`;
+  }
+  if (body.quoteAsset === body.asset) {
+    return "quoteAsset must differ from asset";
+  }
+  if (body.condition === "change") {
+    return "quoteAsset is not supported for the change condition";
+  }
+  return null;
+}
+
+/**
+ * Validates the target chain of an alert request and that it supports the asset
+ * (and the quote asset of ratio alerts)
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @returns Error message, or null if the chain and assets are valid
+ */
+function validateChain(body: Partial<AlertRequestBody>): string | null {
+  const chainName = body.chain ?? ALLOWED_CHAINS[0];
+  const chain = CHAIN_CATALOG.find((entry) => entry.chainSelectorName === chainName);
+  if (!chain) {
+    return `Chain "${chainName}" is not supported. Must be one of: ${ALLOWED_CHAINS.join(", ")}`;
+  }
+  for (const symbol of [body.asset, ...(body.quoteAsset !== undefined ? [body.quoteAsset] : [])]) {
+    if (!chain.assets.some((asset) => asset.symbol === symbol)) {
+      return `Asset "${symbol}" is not available on ${chainName}. Available: ${chain.assets
+        .map((asset) => asset.symbol)
+        .join(", ")}`;
+    }
+  }
+  return null;
+}
+
+/**
+ * Validates the optional notification channel and destination of an alert request
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @returns Error message, or null if the channel is valid
+ */
+function validateChannel(body: Partial<AlertRequestBody>): string | null {
+  if (body.channel !== undefined && !ALLOWED_CHANNELS.includes(body.channel)) {
+    return `Notification channel "${body.channel}" is not enabled. Must be one of: ${ALLOWED_CHANNELS.join(", ")}`;
+  }
+  if (body.destination !== undefined) {
+    return validateDestination(body.channel ?? ALLOWED_CHANNELS[0], body.destination);
+  }
+  return null;
+}
+
+/**
+ * Absolute target price of an alert request, with the relative target it was resolved from
+ */
+interface ResolvedTarget {
+  /** Absolute target price (canonical decimal string) */
+  targetPriceUsd: string;
+  /** Normalized relative target */
+  relativeTarget: RelativeTarget;
+  /** Reference price the relative target was resolved against (canonical decimal string) */
+  referencePriceUsd: string;
+}
+
+/**
+ * Resolves the relative target of an alert request to an absolute target price
+ *
+ * The reference is referencePriceUsd if given (so a quoted proposal resolves to
+ * the same target when it is paid), otherwise the current price from the price
+ * source (see getReferencePrice).
+ *
+ * @param body - Alert request (or LLM function arguments) with a relativeTarget
+ * @returns Resolved target
+ * @throws Error if the request also sets targetPriceUsd, has a band or change
+ *         condition, is a ratio alert, the target is invalid, or no reference
+ *         price is available
+ */
+async function resolveRelativeTargetPrice(body: Partial<AlertRequestBody>): Promise<ResolvedTarget> {
+  if (body.targetPriceUsd !== undefined) {
+    throw new Error("Provide either targetPriceUsd or relativeTarget, not both");
+  }
+  if (body.condition && (BAND_CONDITIONS.includes(body.condition) || body.condition === "change")) {
+    throw new Error(`relativeTarget is not supported for the ${body.condition} condition`);
+  }
+  if (body.quoteAsset !== undefined) {
+    throw new Error("relativeTarget is not supported for ratio alerts (quoteAsset)");
+  }
+  const relativeTarget = parseRelativeTarget(body.relativeTarget);
+  const referencePrice = await getReferencePrice(
+    priceSource,
+    body.asset ?? "",
+    body.chain ?? ALLOWED_CHAINS[0],
+    body.referencePriceUsd
+  );
+
+  return {
+    targetPriceUsd: toDecimalString(resolveRelativeTarget(referencePrice, relativeTarget)),
+    relativeTarget,
+    referencePriceUsd: toDecimalString(referencePrice),
+  };
+}
+
+/**
+ * Normalizes the upper bound of an alert request
+ *
+ * Band conditions (between, outside) require an upper bound above the lower
+ * bound (targetPriceUsd); the other conditions must not set one.
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @param targetPriceUsd - Normalized target price (the lower bound for bands)
+ * @returns Upper bound as a canonical decimal string, or undefined for single-target conditions
+ * @throws Error if the upper bound is missing, unexpected or invalid
+ */
+function resolveUpperPrice(body: Partial<AlertRequestBody>, targetPriceUsd: string): string | undefined {
+  if (!body.condition || !BAND_CONDITIONS.includes(body.condition)) {
+    if (body.upperPriceUsd !== undefined) {
+      throw new Error("upperPriceUsd is only supported for the between and outside conditions");
+    }
+    return undefined;
+  }
+  if (body.upperPriceUsd === undefined) {
+    throw new Error(`upperPriceUsd is required for the ${body.condition} condition (targetPriceUsd is the lower bound)`);
+  }
+
+  let upperPrice: bigint;
+  try {
+    upperPrice = parseUsdPrice(body.upperPriceUsd);
+  } catch {
+    throw new Error("upperPriceUsd must be a positive decimal with at most 8 decimals");
+  }
+  if (upperPrice <= parseUsdPrice(targetPriceUsd)) {
+    throw new Error("upperPriceUsd must be greater than targetPriceUsd (the lower bound)");
+  }
+  return toDecimalString(upperPrice);
+}
+
+/**
+ * Threshold of a change rule
+ */
+interface ChangeRule {
+  /** Percent threshold (canonical decimal string) */
+  changePercent: string;
+  /** Time window in seconds */
+  windowSeconds: number;
+  /** Move direction */
+  direction: ChangeDirection;
+}
+
+/**
+ * Validates and normalizes the threshold of a change rule
+ *
+ * Change rules fire on a move within a time window instead of a price level,
+ * so they take changePercent, windowSeconds and direction and no target price.
+ * The other conditions must not set these fields.
+ *
+ * @param body - Alert request (or LLM function arguments)
+ * @returns Normalized threshold, or undefined for price-level conditions
+ * @throws Error if a field is missing, unexpected or invalid
+ */
+function resolveChangeRule(body: Partial<AlertRequestBody>): ChangeRule | undefined {
+  if (body.condition !== "change") {
+    if (body.changePercent !== undefined || body.windowSeconds !== undefined || body.direction !== undefined) {
+      throw new Error("changePercent, windowSeconds and direction are only supported for the change condition");
+    }
+    return undefined;
+  }
+  if (body.targetPriceUsd !== undefined || body.upperPriceUsd !== undefined) {
+    throw new Error("The change condition takes changePercent and windowSeconds instead of target prices");
+  }
+
+  let changePercent: bigint;
+  try {
+    changePercent = parseUsdPrice(body.changePercent);
+  } catch {
+    throw new Error("changePercent must be a positive decimal with at most 8 decimals (e.g. 8 for 8%)");
+  }
+  const direction = body.direction ?? "any";
+  if (!ALLOWED_CHANGE_DIRECTIONS.includes(direction)) {
+    throw new Error(`Invalid direction "${direction}". Must be one of: ${ALLOWED_CHANGE_DIRECTIONS.join(", ")}`);
+  }
+  if (direction === "down" && changePercent >= parseUsdPrice(100)) {
+    throw new Error("changePercent must be below 100 for downward moves");
+  }
+  if (
+    typeof body.windowSeconds !== "number" ||
+    !Number.isInteger(body.windowSeconds) ||
+    body.windowSeconds <= 0 ||
+    body.windowSeconds > MAX_CHANGE_WINDOW_SECONDS
+  ) {
+    throw new Error(`windowSeconds must be a positive integer of at most ${MAX_CHANGE_WINDOW_SECONDS}`);
+  }
+
+  return { changePercent: toDecimalString(changePercent), windowSeconds: body.windowSeconds, direction };
+}
+
+/**
+ * Describes the target of an alert for logs and chat replies
+ * (e.g. "$60000", "$3000-$3400", "0.045 BTC", "+8% within 3600s", "(relative target)")
+ */
+function describeTarget(alert: {
+  quoteAsset?: string;
+  targetPriceUsd?: number | string;
+  upperPriceUsd?: number | string;
+  changePercent?: number | string;
+  windowSeconds?: number;
+  direction?: string;
+}): string {
+  if (alert.changePercent !== undefined) {
+    const sign = alert.direction === "up" ? "+" : alert.direction === "down" ? "-" : "±";
+    return `${sign}${alert.changePercent}% within ${alert.windowSeconds}s`;
+  }
+  if (alert.targetPriceUsd === undefined) {
+    return "(relative target)";
+  }
+  if (alert.quoteAsset !== undefined) {
+    const ratio =
+      alert.upperPriceUsd !== undefined ? `${alert.targetPriceUsd}-${alert.upperPriceUsd}` : `${alert.targetPriceUsd}`;
+    return `${ratio} ${alert.quoteAsset}`;
+  }
+  return alert.upperPriceUsd !== undefined
+    ? `$${alert.targetPriceUsd}-$${alert.upperPriceUsd}`
+    : `$${alert.targetPriceUsd}`;
+}
+
+/**
+ * Describes a relative target for chat replies (e.g. "+5% from $3000", "-$2000 from $60000")
+ */
+function describeRelativeTarget(relativeTarget: RelativeTarget, referencePriceUsd: string): string {
+  const sign = relativeTarget.value.startsWith("-") ? "-" : "+";
+  const magnitude = relativeTarget.value.replace(/^-/, "");
+  const move = relativeTarget.type === "percent" ? `${sign}${magnitude}%` : `${sign}$${magnitude}`;
+  return `${move} from $${referencePriceUsd}`;
+}
+
+/**
+ * Returns an alert as exposed by the API
  *
- * - gt: greater than (e.g., "alert when price > $50000")
- * - lt: less than (e.g., "alert when price < $40000")
- * - gte: greater than or equal (e.g., "alert when price >= $50000")
- * - lte: less than or equal (e.g., "alert when price <= $40000")
+ * GET /alerts is not authenticated, so the destination is masked and the
+ * idempotency fields of the creating request are left out. POST /alerts and
+ * its replays return the same view, so an alert serializes the same way on
+ * every route.
+ *
+ * @param alert - Stored alert
+ * @returns Alert with a masked destination
  */
-type AlertCondition = "gt" | "lt" | "gte" | "lte";
+function toPublicAlert(alert: StoredAlert): StoredAlert {
+  const { idempotencyKey, requestHash, ...publicAlert } = alert;
+  return alert.destination ? { ...publicAlert, destination: maskDestination(alert.destination) } : publicAlert;
+}
 
 /**
- * Request body for creating a price alert via POST /alerts
+ * Updates the lifecycle status of an alert from its rule in the RuleRegistry
  *
- * This is the direct API format. The /chat endpoint uses Gemini to
- * extract these parameters from natural language.
+ * Forwarded alerts become onchain once their rule is written, and triggered
+ * once it sent a notification (see ruleRegistry.ts). A failed read keeps the
+ * stored status.
+ *
+ * @param alert - Stored alert
+ * @returns The alert, updated if its rule changed
  */
-interface AlertRequestBody {
-  /** Cryptocurrency asset symbol (must be one of: BTC, ETH, LINK) */
-  asset: string;
-  /** Price condition (gt, lt, gte, lte) */
-  condition: AlertCondition;
-  /** Target price in USD */
-  targetPriceUsd: number;
+async function syncWithRegistry(alert: StoredAlert): Promise<StoredAlert> {
+  if (!ruleRegistry || !REGISTRY_STATUSES.includes(alert.status)) {
+    return alert;
+  }
+  try {
+    const patch = applyRuleState(alert, await ruleRegistry.getRuleState(alert.chain, alert.id));
+    return patch ? (await alertStore.update(alert.id, patch)) ?? alert : alert;
+  } catch (error: any) {
+    console.log(`  [ERROR] Alert ${alert.id}: failed to read its rule from the RuleRegistry: ${error.message}`);
+    return alert;
+  }
 }
 
 /**
- * Stored alert with generated ID and metadata
+ * Error of a signed cancel or edit that lost the race against another signed
+ * request on the same alert (each signature timestamp is accepted once)
+ */
+const CONCURRENT_CHANGE_ERROR = "The alert was changed by another request. Sign the request again and retry.";
+
+/**
+ * Checks that a DELETE or PATCH /alerts/:id request is signed by the alert's payer
  *
- * The alert ID is a deterministic SHA256 hash of the alert data,
- * ensuring the same parameters always produce the same ID.
+ * @param req - Request carrying the X-Alert-Signature and X-Alert-Timestamp headers
+ * @param alert - Alert to change
+ * @param action - Requested action
+ * @param changes - Changes of an update (request body)
+ * @returns HTTP status and error message, or null if the payer signed the request
  */
-interface StoredAlert extends AlertRequestBody {
-  /** Deterministic SHA256 hash of alert data */
-  id: string;
-  /** Wallet address that paid for the alert (extracted from x402 payment) */
-  payer: string;
-  /** UNIX timestamp in seconds when the alert was created */
-  createdAt: number;
+async function authorizeAlertAction(
+  req: express.Request,
+  alert: StoredAlert,
+  action: AlertAction,
+  changes?: object
+): Promise<{ status: number; error: string } | null> {
+  const signature = req.header("x-alert-signature");
+  const timestamp = req.header("x-alert-timestamp");
+  if (!signature || !timestamp) {
+    return { status: 401, error: "X-Alert-Signature and X-Alert-Timestamp headers are required (signed by the alert's payer)" };
+  }
+  const error = await verifyAlertAction(
+    { action, alertId: alert.id, changes, timestamp: Number(timestamp), signature },
+    alert.payer,
+    alert.lastSignedAt
+  );
+  return error ? { status: 403, error } : null;
 }
 
 // ============================================================================
@@ -262,30 +896,37 @@ interface StoredAlert extends AlertRequestBody {
  * Natural language interface for creating price alerts
  *
  * This endpoint provides a conversational interface for creating price alerts.
- * It uses Gemini AI to understand user intent and extract alert parameters.
+ * It uses the configured LLM provider (Gemini by default, see llmProviders.ts)
+ * to understand user intent and extract alert parameters.
+ * Nothing is paid here: extracted alerts are returned as proposals that must
+ * be confirmed with POST /chat/confirm (see alertProposals.ts).
+ * Each response carries a sessionId; sending it back with the next message
+ * continues the conversation, so follow-ups like "make that ETH instead" can
+ * refine an earlier request (see chatSessions.ts).
  *
  * Process:
  * 1. User sends natural language message (e.g., "Alert me when BTC is greater than 60000")
- * 2. Gemini AI analyzes the message and extracts: asset, condition, targetPriceUsd
- * 3. If unsupported asset is mentioned, Gemini responds with helpful text
- * 4. If supported asset, Gemini calls create_price_alert function
+ * 2. The LLM analyzes the message and extracts: asset, condition, targetPriceUsd
+ * 3. If unsupported asset is mentioned, the LLM responds with helpful text
+ * 4. If supported asset, the LLM calls create_price_alert function
  * 5. Server validates extracted parameters
- * 6. Server creates paid alert via internal /alerts endpoint (x402 payment)
- * 7. Returns alert details and payment transaction hash
+ * 6. Returns the proposed alert with a confirmation token and the quoted price
  *
- * Supported Assets: BTC, ETH, LINK only
- * Supported Conditions: gt (greater than), lt (less than), gte (>=), lte (<=)
+ * Supported Assets: those in the asset catalog (BTC, ETH, LINK by default)
+ * Supported Conditions: gt (greater than), lt (less than), gte (>=), lte (<=),
+ * between / outside (a price band)
  *
  * @route POST /chat
  * @body {string} message - Natural language message requesting a price alert
- * @returns {Object} Response with reply, alert details, and transaction hash
+ * @body {string} [sessionId] - Session ID from a previous response (omit to start a new conversation)
+ * @returns {Object} Response with reply, session ID, and the proposed alert (if any)
  *
  * @example
  * Request: { "message": "Create an alert when BTC is greater than 50000" }
  * Response: {
- *   "reply": "Price alert created: BTC gt $50000",
- *   "alert": { "id": "...", "asset": "BTC", ... },
- *   "transactionHash": "0x..."
+ *   "reply": "Proposed alert: BTC gt $50000 for $0.01 USDC. Confirm to create it.",
+ *   "sessionId": "3f0c...",
+ *   "proposal": { "confirmationToken": "9b1e...", "alert": { "asset": "BTC", ... }, "targetPriceUsd": "50000", "priceUsd": "$0.01", "expiresAt": 1765324885 }
  * }
  */
 app.post("/chat", async (req, res) => {
@@ -293,26 +934,30 @@ app.post("/chat", async (req, res) => {
   console.log("POST /chat");
   console.log(`  Message: "${req.body.message}"`);
 
-  const { message } = req.body;
+  const { message, sessionId } = req.body;
 
   if (!message || typeof message !== "string") {
     console.log("  [ERROR] Invalid message");
     return res.status(400).json({ error: "Missing or invalid message" });
   }
 
+  // Unknown or expired session IDs start a new conversation
+  const session = chatSessions.get(typeof sessionId === "string" ? sessionId : undefined);
+  const userMessage: ChatMessage = { role: "user", content: message };
+  console.log(`  Session: ${session.id} (${session.messages.length} previous message(s))`);
+
   try {
     /**
-     * Step 1: Extract alert parameters using Gemini AI
+     * Step 1: Extract alert parameters using the LLM provider
      *
-     * We use Gemini's function calling capability to extract structured data
-     * from natural language. The system message instructs Gemini to:
-     * - Only create alerts for supported assets (BTC, ETH, LINK)
+     * We use function calling to extract structured data from natural
+     * language. The system message instructs the LLM to:
+     * - Only create alerts for supported assets (from the asset catalog)
      * - Respond with helpful text if unsupported assets are requested
      * - Call the create_price_alert function only for valid requests
      */
-    console.log("  [1] Extracting alert parameters with Gemini...");
-    const response = await llmClient.chat.completions.create({
-      model: "gemini-2.0-flash-lite",
+    console.log(`  [1] Extracting alert parameters with ${llmProvider.name}...`);
+    const responseMessage = await llmProvider.complete({
       messages: [
         {
           role: "system",
@@ -326,9 +971,19 @@ IMPORTANT RULES:
 - DO NOT call the create_price_alert function if the user requests an unsupported asset
 - Only call the create_price_alert function when the user requests an alert for one of the supported assets: ${ALLOWED_ASSETS.join(
             ", "
-          )}`,
+          )}
+- Use the conversation history to resolve follow-ups (e.g. "make that ETH instead", "what about 5% lower?") against the most recent alert request
+- If the asset, condition or target price is missing or ambiguous, ask the user instead of guessing
+- If a create_price_alert call returned an error, explain it and let the user correct the request
+- Calling create_price_alert only proposes the alert: it is created after the user confirms the payment, so never claim it was created
+- For moves relative to the current price ("ETH up 5%", "BTC drops $2,000 from now") set relativeTarget instead of targetPriceUsd, with condition gt for moves up and lt for moves down
+- For price bands ("when BTC enters 58k-60k", "if ETH leaves the 3,000-3,400 band") use condition between (inside the band) or outside (outside the band), with targetPriceUsd as the lower bound and upperPriceUsd as the upper bound
+- For moves over a time window ("alert if LINK moves more than 8% in 1 hour") use condition change with changePercent, windowSeconds and direction (up, down or any) instead of a target price
+- For ratios of two supported assets ("ETH/BTC below 0.045", "LINK/ETH above 0.006") set asset to the first asset, quoteAsset to the second one and targetPriceUsd to the ratio
+- If the user says how long the alert should stay active ("for 2 days", "valid for a week") set expiresInSeconds`,
         },
-        { role: "user", content: message },
+        ...session.messages,
+        userMessage,
       ],
       tools: [
         {
@@ -346,156 +1001,304 @@ IMPORTANT RULES:
                   enum: [...ALLOWED_ASSETS],
                   description: `The cryptocurrency asset to monitor. MUST be one of: ${ALLOWED_ASSETS.join(", ")}`,
                 },
+                quoteAsset: {
+                  type: "string",
+                  enum: [...ALLOWED_ASSETS],
+                  description:
+                    "For ratio alerts only: the asset the price is expressed in (e.g. BTC for ETH/BTC). targetPriceUsd and upperPriceUsd are then ratios. Omit for USD prices",
+                },
                 condition: {
                   type: "string",
                   enum: [...ALLOWED_CONDITIONS],
                   description:
-                    "The price condition: gt (greater than), lt (less than), gte (greater than or equal), lte (less than or equal)",
+                    "The price condition: gt (greater than), lt (less than), gte (greater than or equal), lte (less than or equal), between (inside the band targetPriceUsd-upperPriceUsd), outside (outside that band), change (moves changePercent within windowSeconds)",
                 },
                 targetPriceUsd: {
                   type: "number",
-                  description: "The target price in USD",
+                  description:
+                    "The absolute target price in USD (up to 8 decimals, e.g. 14.37), or the lower bound for between/outside. Omit when relativeTarget is used and for change",
+                },
+                upperPriceUsd: {
+                  type: "number",
+                  description: "The upper bound in USD for between/outside. Omit for the other conditions",
+                },
+                changePercent: {
+                  type: "number",
+                  description: "Percent move that fires a change alert (e.g. 8 for 8%). Only for condition change",
+                },
+                windowSeconds: {
+                  type: "number",
+                  description: "Time window of a change alert in seconds (e.g. 3600 for 1 hour). Only for condition change",
+                },
+                direction: {
+                  type: "string",
+                  enum: [...ALLOWED_CHANGE_DIRECTIONS],
+                  description: "Direction of a change alert: up, down or any (default). Only for condition change",
+                },
+                relativeTarget: {
+                  type: "object",
+                  description:
+                    'Target relative to the current price, instead of targetPriceUsd. E.g. "ETH up 5%" is { type: percent, value: 5 }, "BTC drops $2,000 from now" is { type: delta, value: -2000 }',
+                  properties: {
+                    type: {
+                      type: "string",
+                      enum: ["percent", "delta"],
+                      description: "percent: move in percent, delta: move in USD",
+                    },
+                    value: {
+                      type: "number",
+                      description: "Signed move: positive above the current price, negative below it",
+                    },
+                  },
+                  required: ["type", "value"],
+                },
+                triggerMode: {
+                  type: "string",
+                  enum: [...ALLOWED_TRIGGER_MODES],
+                  description:
+                    "How often to notify: once (default, notify a single time), crossing (notify each time the price crosses the target), cooldown (notify repeatedly, at most once per cooldownSeconds)",
+                },
+                cooldownSeconds: {
+                  type: "number",
+                  description: "Minimum seconds between notifications. Required when triggerMode is cooldown",
+                },
+                channel: {
+                  type: "string",
+                  enum: [...ALLOWED_CHANNELS],
+                  description: `Where to send the notification. Defaults to ${ALLOWED_CHANNELS[0]}; only set it if the user names a channel`,
+                },
+                destination: {
+                  type: "string",
+                  description:
+                    "Where the channel should deliver the notification: a webhook URL (webhook, slack, discord), a Telegram chat ID, or a Pushover user key. Only set it if the user provides one",
+                },
+                expiresInSeconds: {
+                  type: "number",
+                  description: `How long the alert stays active in seconds (e.g. 604800 for 1 week), between ${RULE_LIFETIME.minSeconds} and ${RULE_LIFETIME.maxSeconds}. Defaults to ${RULE_LIFETIME.defaultSeconds}; only set it if the user asks for a duration. Longer alerts may cost more`,
+                },
+                chain: {
+                  type: "string",
+                  enum: [...ALLOWED_CHAINS],
+                  description: `The chain to create the alert on (chain selector name). Defaults to ${ALLOWED_CHAINS[0]}; only set it if the user names a chain`,
                 },
               },
-              required: ["asset", "condition", "targetPriceUsd"],
+              required: ["asset", "condition"],
             },
           },
         },
       ],
-      // Note: tool_choice is intentionally not set to "required"
-      // This allows Gemini to respond with text when unsupported assets are requested,
-      // rather than forcing a function call that would fail validation
     });
 
-    const responseMessage = response.choices[0]?.message;
-
-    if (!responseMessage) {
-      console.log("  [ERROR] No response from Gemini");
-      return res.status(500).json({ error: "No response from Gemini" });
-    }
-
     /**
-     * Handle text response from Gemini
+     * Handle text response from the LLM
      *
-     * Gemini may respond with text instead of calling the function when:
+     * The LLM may respond with text instead of calling the function when:
      * - User requests an unsupported asset
      * - User's message is unclear or not a valid alert request
      * - User asks a question or makes a general inquiry
      */
     if (responseMessage.content && (!responseMessage.tool_calls || responseMessage.tool_calls.length === 0)) {
+      chatSessions.append(session, userMessage, { role: "assistant", content: responseMessage.content });
       console.log(`  [REPLY] "${responseMessage.content}"`);
       console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
-      return res.json({ reply: responseMessage.content });
+      return res.json({ reply: responseMessage.content, sessionId: session.id });
     }
 
     /**
-     * Handle function call from Gemini
+     * Handle function call from the LLM
      *
-     * When Gemini calls the create_price_alert function, we:
+     * When the LLM calls the create_price_alert function, we:
      * 1. Parse the function arguments (asset, condition, targetPriceUsd)
      * 2. Validate the parameters match our constraints
      * 3. Create the alert via x402 payment
      */
     if (responseMessage.tool_calls && responseMessage.tool_calls[0]?.function?.name === "create_price_alert") {
       /**
-       * Parse function arguments from Gemini's function call
+       * Record the function call and its outcome in the session
+       *
+       * Every call gets a tool result (the created alert or the validation error),
+       * so the next turn can refer to it or correct it.
+       */
+      const toolCall = responseMessage.tool_calls[0];
+      chatSessions.append(session, userMessage, {
+        role: "assistant",
+        content: responseMessage.content ?? null,
+        tool_calls: [toolCall],
+      });
+      const fail = (status: number, body: { error: string; details?: string }) => {
+        chatSessions.append(session, { role: "tool", tool_call_id: toolCall.id, content: JSON.stringify(body) });
+        return res.status(status).json({ ...body, sessionId: session.id });
+      };
+
+      /**
+       * Parse function arguments from the function call
        *
-       * Gemini returns function arguments as a JSON string that needs to be parsed.
+       * The LLM returns function arguments as a JSON string that needs to be parsed.
        * The arguments should contain: asset, condition, and targetPriceUsd.
        */
       let args;
       try {
-        args = JSON.parse(responseMessage.tool_calls[0].function.arguments);
+        args = JSON.parse(toolCall.function.arguments);
       } catch (parseError) {
         console.log("  [ERROR] Failed to parse function arguments");
-        return res.status(500).json({ error: "Failed to parse function arguments" });
+        return fail(500, { error: "Failed to parse function arguments" });
       }
 
       /**
        * Validate extracted parameters
        *
-       * Even though Gemini's function definition includes enum constraints,
+       * Even though the function definition includes enum constraints,
        * we perform additional validation as a security measure.
        */
       if (!ALLOWED_ASSETS.includes(args.asset)) {
-        return res.status(400).json({
+        return fail(400, {
           error: `Asset "${args.asset}" is not supported. Only ${ALLOWED_ASSETS.join(", ")} are allowed.`,
         });
       }
       if (!ALLOWED_CONDITIONS.includes(args.condition)) {
-        return res.status(400).json({
+        return fail(400, {
           error: `Invalid condition "${args.condition}". Must be one of: ${ALLOWED_CONDITIONS.join(", ")}`,
         });
       }
-      if (typeof args.targetPriceUsd !== "number" || args.targetPriceUsd <= 0) {
-        return res.status(400).json({
-          error: "targetPriceUsd must be a positive number",
-        });
+      const triggerError = validateTriggerMode(args);
+      if (triggerError) {
+        return fail(400, { error: triggerError });
+      }
+      const quoteError = validateQuoteAsset(args);
+      if (quoteError) {
+        return fail(400, { error: quoteError });
+      }
+      const chainError = validateChain(args);
+      if (chainError) {
+        return fail(400, { error: chainError });
+      }
+      const channelError = validateChannel(args);
+      if (channelError) {
+        return fail(400, { error: channelError });
       }
+      const now = Math.floor(Date.now() / 1000);
+      // The lifetime is proposed as-is (not as an expiry time), so the quoted
+      // price is still the price when the proposal is confirmed
+      const expiresInSeconds =
+        typeof args.expiresInSeconds === "number" ? Math.round(args.expiresInSeconds) : undefined;
+      const expiryError = validateExpiry({ expiresInSeconds }, now);
+      if (expiryError) {
+        return fail(400, { error: expiryError.replace("expiresInSeconds", "The alert lifetime") });
+      }
+      const price = alertPricing.quote({ ...args, expiresInSeconds }, now).priceUsd;
+
+      // Relative targets are resolved now, and the reference price is pinned in
+      // the proposal so the confirmed alert gets the quoted target
+      let targetPriceUsd: string | undefined;
+      let upperPriceUsd: string | undefined;
+      let changeRule: ChangeRule | undefined;
+      let resolvedTarget: ResolvedTarget | undefined;
+      try {
+        changeRule = resolveChangeRule(args);
+        if (!changeRule) {
+          if (args.relativeTarget !== undefined) {
+            resolvedTarget = await resolveRelativeTargetPrice(args);
+            targetPriceUsd = resolvedTarget.targetPriceUsd;
+          } else {
+            targetPriceUsd = toDecimalString(parseUsdPrice(args.targetPriceUsd));
+          }
+          upperPriceUsd = resolveUpperPrice(args, targetPriceUsd);
+        }
+      } catch (priceError: any) {
+        return fail(400, { error: priceError.message });
+      }
+      const targetDescription = resolvedTarget
+        ? `$${targetPriceUsd} (${describeRelativeTarget(resolvedTarget.relativeTarget, resolvedTarget.referencePriceUsd)})`
+        : describeTarget({ quoteAsset: args.quoteAsset, targetPriceUsd, upperPriceUsd, ...changeRule });
 
-      console.log(`  [2] Parameters: ${args.asset} ${args.condition} $${args.targetPriceUsd}`);
+      console.log(`  [2] Parameters: ${args.asset} ${args.condition} ${targetDescription}`);
 
       /**
-       * Step 2: Create paid alert via internal /alerts endpoint
+       * Step 2: Propose the alert
        *
-       * This makes an HTTP request to the /alerts endpoint, which triggers
-       * the x402 payment flow. The x402Client handles the payment automatically.
+       * The paid creation only runs after POST /chat/confirm with the token.
        */
-      console.log("  [3] Creating alert via /alerts endpoint (x402 payment)...");
-      try {
-        const result = await createPaidPriceAlert({
+      const proposal = alertProposals.create(
+        {
           asset: args.asset,
+          quoteAsset: args.quoteAsset,
           condition: args.condition,
-          targetPriceUsd: args.targetPriceUsd,
-        });
-        console.log(`  [SUCCESS] Alert created - ID: ${result.alert.id}`);
-        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+          ...(resolvedTarget
+            ? { relativeTarget: resolvedTarget.relativeTarget, referencePriceUsd: resolvedTarget.referencePriceUsd }
+            : { targetPriceUsd, upperPriceUsd, ...changeRule }),
+          triggerMode: args.triggerMode,
+          cooldownSeconds: args.cooldownSeconds,
+          chain: args.chain,
+          channel: args.channel,
+          destination: args.destination,
+          expiresInSeconds,
+        },
+        price,
+        session.id
+      );
+      console.log(`  [3] Proposal created (expires ${new Date(proposal.expiresAt * 1000).toISOString()})`);
+      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
 
-        return res.json({
-          reply: `Price alert created: ${args.asset} ${args.condition} $${args.targetPriceUsd}`,
-          alert: result.alert,
-          transactionHash: result.transactionHash,
-        });
-      } catch (paymentError: any) {
-        console.log(`  [ERROR] Payment failed: ${paymentError.message}`);
-        console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
-        return res.status(500).json({
-          error: "Failed to create price alert",
-          details: paymentError.message,
-        });
-      }
+      const reply = `Proposed alert: ${args.asset} ${args.condition} ${targetDescription} for ${price} ${PAYMENT.token.symbol}. Confirm to create it.`;
+      const { destination, ...proposedAlert } = proposal.alert;
+      chatSessions.append(
+        session,
+        {
+          role: "tool",
+          tool_call_id: toolCall.id,
+          content: JSON.stringify({
+            proposed: { ...proposedAlert, targetPriceUsd },
+            priceUsd: price,
+            status: "awaiting_confirmation",
+          }),
+        },
+        { role: "assistant", content: reply }
+      );
+
+      return res.json({
+        reply,
+        sessionId: session.id,
+        proposal: {
+          confirmationToken: proposal.token,
+          alert: destination ? { ...proposal.alert, destination: maskDestination(destination) } : proposal.alert,
+          targetPriceUsd,
+          priceUsd: proposal.priceUsd,
+          expiresAt: proposal.expiresAt,
+        },
+      });
     } else {
       /**
-       * Fallback: Text response from Gemini
+       * Fallback: Text response from the LLM
        *
-       * This handles cases where Gemini returns a response but it doesn't
+       * This handles cases where the LLM returns a response but it doesn't
        * match our expected patterns (no function call, no content, etc.)
        */
       const textReply = responseMessage.content
         ? responseMessage.content
-        : "I can help you create price alerts for BTC, ETH, or LINK. Try saying something like 'Create an alert when BTC is greater than 50000'.";
+        : `I can help you create price alerts for ${ALLOWED_ASSETS.join(", ")}. Try saying something like 'Create an alert when ${ALLOWED_ASSETS[0]} is greater than 50000'.`;
+      chatSessions.append(session, userMessage, { role: "assistant", content: textReply });
       console.log(`  [REPLY] "${textReply}"`);
       console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
-      return res.json({ reply: textReply });
+      return res.json({ reply: textReply, sessionId: session.id });
     }
   } catch (error: any) {
     /**
      * Error Handling
      *
      * Handles various error scenarios:
-     * - 429 Rate Limit: Too many requests to Gemini API
+     * - 429 Rate Limit: Too many requests to the LLM API (only with LLM_FALLBACK=none)
      * - 400 Bad Request: Invalid request format or parameters
-     * - 500 Server Error: Gemini API errors or other server issues
+     * - 500 Server Error: LLM API errors or other server issues
      */
 
     // Handle rate limit errors (429)
     if (error.status === 429 || error.statusCode === 429) {
-      console.log("  [ERROR] Gemini API rate limit exceeded (429)");
+      console.log("  [ERROR] LLM API rate limit exceeded (429)");
       console.log("  [INFO] Please wait before making another request");
       console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
       return res.status(429).json({
         error: "Rate limit exceeded",
-        message: "Too many requests to Gemini API. Please try again later.",
+        message: "Too many requests to the LLM API. Please try again later.",
         details: error.message || "Rate limit exceeded",
       });
     }
@@ -504,7 +1307,7 @@ IMPORTANT RULES:
     const statusCode = error.status || error.statusCode || 500;
     const errorMessage = error.message || "Unknown error";
 
-    console.log(`  [ERROR] Gemini API error: ${statusCode} - ${errorMessage}`);
+    console.log(`  [ERROR] LLM API error: ${statusCode} - ${errorMessage}`);
 
     // Log detailed error information for debugging
     if (error.response) {
@@ -524,6 +1327,130 @@ IMPORTANT RULES:
   }
 });
 
+/**
+ * POST /chat/confirm
+ * Confirms an alert proposed by /chat and creates it (x402 payment)
+ *
+ * The confirmation token is single-use and expires after
+ * CHAT_PROPOSAL_TTL_SECONDS. The agent wallet pays for the alert through the
+ * internal /alerts endpoint.
+ *
+ * @route POST /chat/confirm
+ * @body {string} confirmationToken - Token from a /chat proposal
+ * @returns {Object} Response with reply, session ID, alert details, and transaction hash
+ *
+ * @example
+ * Request: { "confirmationToken": "9b1e..." }
+ * Response: {
+ *   "reply": "Price alert created: BTC gt $50000",
+ *   "sessionId": "3f0c...",
+ *   "alert": { "id": "...", "asset": "BTC", ... },
+ *   "transactionHash": "0x..."
+ * }
+ */
+app.post("/chat/confirm", async (req, res) => {
+  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log("POST /chat/confirm");
+
+  const { confirmationToken } = req.body;
+  if (!confirmationToken || typeof confirmationToken !== "string") {
+    console.log("  [ERROR] Invalid confirmation token");
+    return res.status(400).json({ error: "Missing or invalid confirmationToken" });
+  }
+
+  const proposal = alertProposals.take(confirmationToken);
+  if (!proposal) {
+    console.log("  [ERROR] Proposal not found or expired");
+    return res.status(404).json({ error: "Proposal not found or expired. Ask for the alert again." });
+  }
+
+  const { alert } = proposal;
+  const session = chatSessions.get(proposal.sessionId);
+  console.log(`  [1] Confirmed: ${alert.asset} ${alert.condition} ${describeTarget(alert)}`);
+
+  /**
+   * Create paid alert via internal /alerts endpoint
+   *
+   * This makes an HTTP request to the /alerts endpoint, which triggers
+   * the x402 payment flow. The x402Client handles the payment automatically.
+   */
+  console.log("  [2] Creating alert via /alerts endpoint (x402 payment)...");
+  try {
+    const result = await createPaidPriceAlert(alert);
+    console.log(`  [SUCCESS] Alert created - ID: ${result.alert.id}`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+    const reply = `Price alert created: ${alert.asset} ${alert.condition} ${describeTarget(result.alert)}`;
+    chatSessions.append(session, { role: "assistant", content: `${reply} (ID: ${result.alert.id})` });
+
+    return res.json({
+      reply,
+      sessionId: session.id,
+      alert: result.alert,
+      transactionHash: result.transactionHash,
+    });
+  } catch (paymentError: any) {
+    console.log(`  [ERROR] Payment failed: ${paymentError.message}`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+    return res.status(500).json({
+      error: "Failed to create price alert",
+      details: paymentError.message,
+      sessionId: session.id,
+    });
+  }
+});
+
+/**
+ * Forwards a paid alert, or a payer's update or cancellation of it, to the CRE workflow
+ *
+ * With a configured CRE HTTP trigger, the workflow payload is dispatched and the
+ * delivery record and lifecycle status are written to the alert store: a new
+ * alert is dispatched. It becomes onchain once its rule is read back from the
+ * RuleRegistry (see syncWithRegistry): the workflow run started by the trigger
+ * can still reject the rule. Without a trigger, the payload is logged for
+ * manual execution via the CRE CLI.
+ *
+ * @param alert - Paid alert to forward (already updated for update and cancel)
+ * @param action - Workflow action: create (default), update or cancel
+ * @see https://docs.chain.link/cre/guides/workflow/using-triggers/http-trigger/
+ */
+async function forwardToCre(alert: StoredAlert, action: "create" | AlertAction = "create"): Promise<void> {
+  const workflowPayload = buildWorkflowPayload(alert, action);
+
+  // Local simulation mode: copy the payload into the CRE CLI (see README)
+  if (!creDispatcher) {
+    console.log(`  [CRE] Alert ${alert.id}: ${action} payload ready (copy for HTTP trigger):\n`);
+    console.log(JSON.stringify(workflowPayload));
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+    return;
+  }
+
+  console.log(`  [CRE] Alert ${alert.id}: dispatching ${action} to HTTP trigger...`);
+  if (action === "create") {
+    await alertStore.update(alert.id, { status: "dispatched" });
+  }
+  // Progress writes are chained so they land in order, before the final record
+  let progress: Promise<unknown> = Promise.resolve();
+  const record = await creDispatcher.dispatch(workflowPayload, (update) => {
+    progress = progress
+      .then(() => alertStore.update(alert.id, { delivery: update }))
+      .catch((error: any) =>
+        console.log(`  [CRE] [ERROR] Alert ${alert.id}: failed to record delivery attempt: ${error.message}`)
+      );
+    if (update.status === "pending") {
+      console.log(`  [CRE] Alert ${alert.id}: attempt ${update.attempts} failed (${update.lastError}), retrying...`);
+    }
+  });
+  await progress;
+
+  await alertStore.update(alert.id, { delivery: record });
+  if (record.status === "delivered") {
+    console.log(`  [CRE] Alert ${alert.id}: delivered to HTTP trigger (${record.attempts} attempt(s))`);
+  } else {
+    console.log(`  [CRE] [ERROR] Alert ${alert.id}: delivery failed after ${record.attempts} attempt(s): ${record.lastError}`);
+  }
+}
+
 /**
  * POST /alerts
  * Create a new price alert (requires x402 payment)
@@ -531,17 +1458,40 @@ IMPORTANT RULES:
  * This endpoint demonstrates the x402 payment flow:
  * 1. Client sends request → Server responds with 402 if no payment
  * 2. Client retries with x-payment header → Server validates payment
- * 3. Server creates alert and responds with 200 + settlement details
- * 4. Calls the HTTP Trigger of the CRE Workflow
- *    - Automated calls to the CRE Workflow require a deployed workflow, and is not implemented in this demo.
- *    - This demo assumes you will be using local simulation.
+ * 3. Server creates alert (pending_payment) and responds with 201
+ * 4. x402 middleware settles the payment and releases the response
+ * 5. Once settled (paid), calls the HTTP Trigger of the CRE Workflow
+ *    - Requires a deployed workflow and CRE_HTTP_TRIGGER_URL (see creDispatcher.ts)
+ *    - Without it, the payload is logged for manual local simulation
  *
  * @route POST /alerts
- * @requires x402 payment ($0.01 USD in USDC on base-sepolia)
- * @body {string} asset - Cryptocurrency symbol (BTC, ETH, LINK)
- * @body {string} condition - Price condition (gt, lt, gte, lte)
- * @body {number} targetPriceUsd - Target price in USD
- * @returns {Object} Created alert with ID and metadata
+ * @requires x402 payment in the configured token and network (see paymentConfig.ts), of the quote for the request body (see GET /alerts/quote)
+ * @body {string} asset - Cryptocurrency symbol (from the asset catalog, e.g. BTC, ETH, LINK)
+ * @body {string} [quoteAsset] - Quote asset of a ratio alert (from the asset catalog, e.g. BTC for ETH/BTC);
+ *       targetPriceUsd and upperPriceUsd are then ratios in units of the quote asset
+ * @body {string} condition - Price condition (gt, lt, gte, lte, between, outside, change)
+ * @body {number|string} [targetPriceUsd] - Target price in USD (up to 8 decimals, e.g. 14.37 or "0.00012345");
+ *       the lower bound for between/outside
+ * @body {number|string} [upperPriceUsd] - Upper bound in USD, required for between/outside
+ * @body {number|string} [changePercent] - Percent move that fires a change rule (e.g. 8), required for change
+ * @body {number} [windowSeconds] - Time window of a change rule in seconds, required for change
+ * @body {string} [direction] - Move direction of a change rule (up, down, any; default: any)
+ * @body {Object} [relativeTarget] - Target relative to the current price, instead of targetPriceUsd:
+ *       { type: "percent" | "delta", value: signed number or decimal string } (e.g. { type: "percent", value: 5 })
+ * @body {number|string} [referencePriceUsd] - Reference price for relativeTarget (default: current price from the price source)
+ * @body {string} [triggerMode] - Re-notification policy (once, crossing, cooldown; default: once)
+ * @body {number} [cooldownSeconds] - Minimum seconds between notifications (required for cooldown)
+ * @body {string} [chain] - Target chain selector name (default: first chain in the workflow config)
+ * @body {string} [channel] - Notification channel (default: first channel enabled in the workflow config)
+ * @body {string} [destination] - Notification destination for the channel (webhook URL, chat ID or user key).
+ *       Only the payer sets it, in this paid request; it is stored encrypted on-chain and masked by the read routes
+ * @body {number} [expiresAt] - UNIX timestamp in seconds after which the alert is no longer checked, within the
+ *       workflow's minRuleTTL-maxRuleTTL from now (default: ruleTTL from now)
+ * @body {number} [expiresInSeconds] - Lifetime in seconds from creation, instead of expiresAt; its quote does not
+ *       change until the alert is paid
+ * @header {string} [Idempotency-Key] - Client-chosen key (e.g. a UUID); a retry with the same key and body returns
+ *         the original alert (200, Idempotent-Replayed: true) without a new payment
+ * @returns {Object} Created alert with ID and metadata (destination masked)
  */
 app.post("/alerts", (req, res) => {
   console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
@@ -555,111 +1505,591 @@ app.post("/alerts", (req, res) => {
    * Ensures all required fields are present and properly typed.
    * This validation happens after x402 payment is verified by middleware.
    */
-  if (!body.asset || !body.condition || typeof body.targetPriceUsd !== "number") {
+  if (
+    !body.asset ||
+    !body.condition ||
+    (body.condition === "change"
+      ? body.changePercent === undefined || body.windowSeconds === undefined
+      : body.targetPriceUsd === undefined && body.relativeTarget === undefined)
+  ) {
     console.log("  [ERROR] Missing required fields");
     return res.status(400).json({
       error: "Missing required fields",
-      required: ["asset", "condition", "targetPriceUsd"],
+      required: ["asset", "condition", "targetPriceUsd or relativeTarget (changePercent and windowSeconds for change)"],
+    });
+  }
+  if (!ALLOWED_ASSETS.includes(body.asset)) {
+    console.log(`  [ERROR] Unsupported asset: ${body.asset}`);
+    return res.status(400).json({
+      error: `Asset "${body.asset}" is not supported. Only ${ALLOWED_ASSETS.join(", ")} are allowed.`,
     });
   }
+  if (!ALLOWED_CONDITIONS.includes(body.condition)) {
+    console.log(`  [ERROR] Invalid condition: ${body.condition}`);
+    return res.status(400).json({
+      error: `Invalid condition "${body.condition}". Must be one of: ${ALLOWED_CONDITIONS.join(", ")}`,
+    });
+  }
+  const triggerError = validateTriggerMode(body);
+  if (triggerError) {
+    console.log(`  [ERROR] ${triggerError}`);
+    return res.status(400).json({ error: triggerError });
+  }
+  const quoteError = validateQuoteAsset(body);
+  if (quoteError) {
+    console.log(`  [ERROR] ${quoteError}`);
+    return res.status(400).json({ error: quoteError });
+  }
+  const chainError = validateChain(body);
+  if (chainError) {
+    console.log(`  [ERROR] ${chainError}`);
+    return res.status(400).json({ error: chainError });
+  }
+  const channelError = validateChannel(body);
+  if (channelError) {
+    console.log(`  [ERROR] ${channelError}`);
+    return res.status(400).json({ error: channelError });
+  }
+  const createdAt = Math.floor(Date.now() / 1000); // UNIX timestamp in seconds
+  const expiryError = validateExpiry(body, createdAt);
+  if (expiryError) {
+    console.log(`  [ERROR] ${expiryError}`);
+    return res.status(400).json({ error: expiryError });
+  }
+
+  // Normalize target price to its canonical 8-decimal string (e.g. "14.37");
+  // relative targets were already resolved before the payment middleware
+  const resolvedTarget = res.locals.resolvedTarget as ResolvedTarget | undefined;
+  let targetPriceUsd: string | undefined;
+  let upperPriceUsd: string | undefined;
+  let changeRule: ChangeRule | undefined;
+  try {
+    changeRule = resolveChangeRule(body);
+    if (!changeRule) {
+      targetPriceUsd = resolvedTarget?.targetPriceUsd ?? toDecimalString(parseUsdPrice(body.targetPriceUsd));
+      upperPriceUsd = resolveUpperPrice(body, targetPriceUsd);
+    }
+  } catch (priceError: any) {
+    console.log(`  [ERROR] ${priceError.message}`);
+    return res.status(400).json({ error: priceError.message });
+  }
 
   /**
    * Step 2: Payment verification
    *
-   * The x402 payment middleware has already validated the payment by this point.
-   * If the request reaches here, the payment is valid and has been settled.
-   * We extract the payer address from the payment header for record-keeping.
+   * The x402 payment middleware has already verified the payment by this point.
+   * Settlement happens after this handler responds, so the alert starts as
+   * pending_payment and becomes paid once the settlement succeeds.
+   * We extract the payer address from the payment header for record-keeping,
+   * and check that the authorized amount covers the quote for this request.
    */
   console.log("  [1] x402 payment verified");
 
-  // Extract payer address from x402 payment header
-  let payer = "unknown";
-  const paymentHeader = req.headers["x-payment"] as string | undefined;
-  if (paymentHeader) {
-    try {
-      const decoded = exact.evm.decodePayment(paymentHeader);
-      if ("authorization" in decoded.payload) {
-        payer = decoded.payload.authorization.from;
-      }
-    } catch (e) {
-      // Could not extract payer (shouldn't happen if payment was verified)
-    }
+  // Extract payer address, amount and nonce from x402 payment header
+  // (always decodable once the payment is verified)
+  const authorization = decodePaymentAuthorization(req.headers["x-payment"] as string | undefined);
+  const payer = authorization?.payer ?? "unknown";
+  const paidAmount = authorization?.amount;
+
+  // The payment middleware quoted the amount it verified; responding with an
+  // error skips settlement, so a payment short of the quote is never charged
+  const quote = res.locals.quote as AlertQuote;
+  if (!paidAmount || !/^\d+$/.test(paidAmount) || BigInt(paidAmount) < BigInt(quote.amount)) {
+    const paid = paidAmount ? formatTokenAmount(paidAmount, PAYMENT.token) : "unknown";
+    const error = `Payment of ${paid} does not cover the quote for this alert (${formatTokenAmount(quote.amount, PAYMENT.token)}). Request a new quote and pay again.`;
+    console.log(`  [ERROR] ${error}`);
+    return res.status(402).json({ error, quote });
   }
 
   /**
    * Step 3: Create alert with deterministic ID
    *
-   * The alert ID is generated using SHA256 hash of the alert data.
-   * This ensures the same alert parameters always produce the same ID,
-   * making it idempotent and preventing duplicate alerts.
+   * The alert ID is generated using SHA256 hash of the alert data, which
+   * includes the single-use payment nonce: identical requests paid separately
+   * get distinct IDs, and retries of one paid request are answered with the
+   * original alert before payment (see idempotency.ts).
    */
   const alertData = {
     payer,
+    paymentNonce: authorization?.nonce,
     asset: body.asset,
+    ...(body.quoteAsset && { quoteAsset: body.quoteAsset }),
     condition: body.condition,
-    targetPriceUsd: body.targetPriceUsd,
-    createdAt: Math.floor(Date.now() / 1000), // UNIX timestamp in seconds
+    targetPriceUsd,
+    ...(upperPriceUsd && { upperPriceUsd }),
+    ...changeRule,
+    ...(resolvedTarget && {
+      relativeTarget: resolvedTarget.relativeTarget,
+      referencePriceUsd: resolvedTarget.referencePriceUsd,
+    }),
+    triggerMode: body.triggerMode ?? "once",
+    cooldownSeconds: body.triggerMode === "cooldown" ? body.cooldownSeconds : 0,
+    chain: body.chain ?? ALLOWED_CHAINS[0],
+    channel: body.channel ?? ALLOWED_CHANNELS[0],
+    createdAt,
+    expiresAt: body.expiresAt ?? createdAt + (body.expiresInSeconds ?? RULE_LIFETIME.defaultSeconds),
   };
 
   // Generate deterministic alert ID (SHA256 hash of alert data)
+  // The destination is left out: the ID is public and short destinations (chat IDs) could be brute-forced
   const id = createHash("sha256").update(JSON.stringify(alertData)).digest("hex");
 
+  // Claim the Idempotency-Key and payment nonce; a concurrent request holding
+  // either is rejected here, which skips its settlement
+  const claims = getPaidRequestClaims(req);
+  const requestHash = hashAlertRequest(body);
+  if (!paidRequests.claim(claims, { alertId: id, requestHash })) {
+    const error = "A request with this Idempotency-Key or payment is already being processed";
+    console.log(`  [ERROR] ${error}`);
+    return res.status(409).json({ error });
+  }
+
   const alert: StoredAlert = {
     id,
     ...alertData,
+    ...(claims.idempotencyKey && { idempotencyKey: claims.idempotencyKey }),
+    requestHash,
+    destination: body.destination,
+    priceUsd: quote.priceUsd,
+    paidAmount,
+    status: "pending_payment",
+    updatedAt: alertData.createdAt,
+    delivery: { status: creDispatcher ? "pending" : "skipped", attempts: 0 },
   };
 
-  console.log(`  [2] Alert created: ${alert.id} (${alert.asset} ${alert.condition} $${alert.targetPriceUsd})`);
+  // Not awaited: x402-express does not await async handlers, so the response
+  // must be produced synchronously for settlement to wait for it
+  const saved = alertStore.put(alert);
+  console.log(
+    `  [2] Alert created: ${alert.id} (${alert.asset} ${alert.condition} ${describeTarget(alert)} on ${alert.chain})`
+  );
+  if (resolvedTarget) {
+    console.log(`      Relative target: ${describeRelativeTarget(resolvedTarget.relativeTarget, resolvedTarget.referencePriceUsd)}`);
+  }
+  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
 
   /**
-   * Step 4: Prepare CRE workflow payload
-   *
-   * This payload is intended to be sent to the Chainlink CRE HTTP trigger
-   * to write the alert on-chain to the RuleRegistry contract.
-   *
-   * For demo purposes, the payload is logged to console for manual execution
-   * via the CRE CLI. In production, this would be sent automatically.
+   * Step 4: Forward to CRE once the payment settles
    *
-   * @see https://docs.chain.link/cre/guides/workflow/using-triggers/http-trigger/
+   * The x402 middleware holds the response until settlement completes and
+   * replaces it with a 402 if settlement fails, so the alert is only marked
+   * paid and forwarded when the 201 is actually delivered.
    */
-  const workflowPayload = {
-    id: alert.id,
-    asset: alert.asset,
-    condition: alert.condition,
-    targetPriceUsd: alert.targetPriceUsd,
-    createdAt: alert.createdAt,
+  res.on("finish", async () => {
+    const paymentResponse = res.getHeader("x-payment-response") as string | undefined;
+    if (res.statusCode !== 201 || !paymentResponse) {
+      // Nothing was charged, so the request may be retried with the same key
+      // and the unpaid alert is expired
+      paidRequests.release(claims);
+      console.log(`  [x402] [ERROR] Alert ${alert.id}: payment not settled (status ${res.statusCode})`);
+      saved
+        .then(() => alertStore.update(alert.id, { status: "expired" }))
+        .catch((error: any) => console.log(`  [ERROR] Alert ${alert.id}: failed to expire unpaid alert: ${error.message}`));
+      return;
+    }
+
+    try {
+      await saved;
+
+      let settlementTxHash: string | undefined;
+      try {
+        settlementTxHash = settleResponseFromHeader(paymentResponse).transaction;
+      } catch (e) {
+        // Failed to decode settlement response
+      }
+
+      const paidAlert = await alertStore.update(alert.id, { status: "paid", settlementTxHash });
+      console.log(`  [x402] Alert ${alert.id}: payment settled (${settlementTxHash ?? "unknown tx"})`);
+      await forwardToCre(paidAlert ?? alert);
+    } catch (error: any) {
+      console.log(`  [ERROR] Alert ${alert.id}: failed to record settlement: ${error.message}`);
+    }
+  });
+
+  res.status(201).json({ alert: toPublicAlert(alert) });
+});
+
+/**
+ * GET /alerts/quote
+ * Quote the x402 price of an alert (no payment required)
+ *
+ * Takes the fields of a POST /alerts body that affect the price as query
+ * parameters; target prices are not needed. POST /alerts demands this
+ * amount for the same fields (with expiresInSeconds, also when paid later).
+ *
+ * @route GET /alerts/quote
+ * @query {string} asset - Cryptocurrency symbol
+ * @query {string} condition - Price condition (gt, lt, gte, lte, between, outside, change)
+ * @query {string} [quoteAsset] - Quote asset of a ratio alert
+ * @query {string} [triggerMode] - Re-notification policy (once, crossing, cooldown; default: once)
+ * @query {number} [cooldownSeconds] - Minimum seconds between notifications (required for cooldown)
+ * @query {string} [chain] - Target chain selector name
+ * @query {string} [channel] - Notification channel
+ * @query {number} [expiresAt] - UNIX timestamp in seconds after which the alert is no longer checked
+ * @query {number} [expiresInSeconds] - Lifetime in seconds from creation, instead of expiresAt
+ * @returns {Object} Quote with the total price, the amount in token base units and its price lines,
+ *          and the network and token the amount is paid in
+ *
+ * @example
+ * Request: GET /alerts/quote?asset=BTC&condition=between&expiresAt=1765497385
+ * Response: { "quote": { "priceUsd": "$0.022", "amount": "22000", "lifetimeSeconds": 172800, "notifications": 1, "items": [...] },
+ *            "payment": { "network": "base-sepolia", "token": "USDC", "asset": "0x036C...CF7e", "decimals": 6 } }
+ */
+app.get("/alerts/quote", (req, res) => {
+  const query = req.query as Record<string, string | undefined>;
+  const toNumber = (value: string | undefined) => (value === undefined ? undefined : Number(value));
+  const body: Partial<AlertRequestBody> = {
+    asset: query.asset,
+    quoteAsset: query.quoteAsset,
+    condition: query.condition as AlertCondition | undefined,
+    triggerMode: query.triggerMode as TriggerMode | undefined,
+    cooldownSeconds: toNumber(query.cooldownSeconds),
+    chain: query.chain,
+    channel: query.channel,
+    expiresAt: toNumber(query.expiresAt),
+    expiresInSeconds: toNumber(query.expiresInSeconds),
   };
 
-  console.log("  [3] CRE payload ready (copy for HTTP trigger):\n");
-  console.log(JSON.stringify(workflowPayload));
-  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+  if (!body.asset || !ALLOWED_ASSETS.includes(body.asset)) {
+    return res.status(400).json({ error: `asset must be one of: ${ALLOWED_ASSETS.join(", ")}` });
+  }
+  if (!body.condition || !ALLOWED_CONDITIONS.includes(body.condition)) {
+    return res.status(400).json({ error: `condition must be one of: ${ALLOWED_CONDITIONS.join(", ")}` });
+  }
+  const now = Math.floor(Date.now() / 1000);
+  const error =
+    validateTriggerMode(body) ??
+    validateQuoteAsset(body) ??
+    validateChain(body) ??
+    validateChannel(body) ??
+    validateExpiry(body, now);
+  if (error) {
+    return res.status(400).json({ error });
+  }
+
+  return res.json({
+    quote: alertPricing.quote(body, now),
+    payment: {
+      network: PAYMENT.network,
+      token: PAYMENT.token.symbol,
+      asset: PAYMENT.token.address,
+      decimals: PAYMENT.token.decimals,
+    },
+  });
+});
+
+/**
+ * GET /alerts
+ * List stored alerts (no payment required)
+ *
+ * @route GET /alerts
+ * @query {string} [payer] - Filter by payer wallet address
+ * @query {string} [asset] - Filter by asset symbol (e.g. BTC, ETH, LINK)
+ * @query {string} [chain] - Filter by chain selector name
+ * @query {string} [status] - Filter by lifecycle status
+ * @returns {Object} Matching alerts, newest first
+ *
+ * @example
+ * Request: GET /alerts?payer=0xabc...&status=onchain
+ * Response: { "alerts": [{ "id": "...", "status": "onchain", ... }] }
+ */
+app.get("/alerts", async (req, res) => {
+  const filter: AlertFilter = {};
+  if (typeof req.query.payer === "string") {
+    filter.payer = req.query.payer;
+  }
+  if (typeof req.query.asset === "string") {
+    filter.asset = req.query.asset;
+  }
+  if (typeof req.query.chain === "string") {
+    filter.chain = req.query.chain;
+  }
+  if (typeof req.query.status === "string") {
+    if (!ALERT_STATUSES.includes(req.query.status as AlertStatus)) {
+      return res.status(400).json({
+        error: `Invalid status "${req.query.status}". Must be one of: ${ALERT_STATUSES.join(", ")}`,
+      });
+    }
+    filter.status = req.query.status as AlertStatus;
+  }
+
+  try {
+    // Statuses read from the RuleRegistry are filtered after the alerts are synced
+    const { status, ...storeFilter } = filter;
+    const alerts = await Promise.all(
+      (await alertStore.list(status && REGISTRY_STATUSES.includes(status) ? storeFilter : filter)).map(syncWithRegistry)
+    );
+    return res.json({ alerts: alerts.filter((alert) => !status || alert.status === status).map(toPublicAlert) });
+  } catch (error: any) {
+    console.log(`  [ERROR] GET /alerts: ${error.message}`);
+    return res.status(500).json({ error: "Failed to list alerts", details: error.message });
+  }
+});
+
+/**
+ * GET /alerts/:id
+ * Fetch a single stored alert (no payment required)
+ *
+ * @route GET /alerts/:id
+ * @param {string} id - Alert ID (SHA256 hash)
+ * @returns {Object} Alert with lifecycle status, settlement tx hash and delivery record
+ */
+app.get("/alerts/:id", async (req, res) => {
+  try {
+    const alert = await alertStore.get(req.params.id);
+    if (!alert) {
+      return res.status(404).json({ error: `Alert "${req.params.id}" not found` });
+    }
+    return res.json({ alert: toPublicAlert(await syncWithRegistry(alert)) });
+  } catch (error: any) {
+    console.log(`  [ERROR] GET /alerts/${req.params.id}: ${error.message}`);
+    return res.status(500).json({ error: "Failed to read alert", details: error.message });
+  }
+});
+
+/**
+ * DELETE /alerts/:id
+ * Cancel an alert (signed by its payer, no payment required)
+ *
+ * The alert is marked cancelled and a cancel report is forwarded to the CRE
+ * workflow, which flags the on-chain rule so the cron trigger stops checking it.
+ *
+ * @route DELETE /alerts/:id
+ * @param {string} id - Alert ID (SHA256 hash)
+ * @header {string} X-Alert-Signature - EIP-191 signature of the payer over the cancel message (see alertAuth.ts)
+ * @header {number} X-Alert-Timestamp - UNIX timestamp in seconds included in the signed message
+ * @returns {Object} Cancelled alert
+ */
+app.delete("/alerts/:id", async (req, res) => {
+  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`DELETE /alerts/${req.params.id}`);
+
+  const fail = (status: number, error: string) => {
+    console.log(`  [ERROR] ${error}`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+    return res.status(status).json({ error });
+  };
+
+  try {
+    const alert = await alertStore.get(req.params.id);
+    if (!alert) {
+      return fail(404, `Alert "${req.params.id}" not found`);
+    }
+    const authError = await authorizeAlertAction(req, alert, "cancel");
+    if (authError) {
+      return fail(authError.status, authError.error);
+    }
+    if (!CHANGEABLE_STATUSES.includes(alert.status)) {
+      return fail(409, `Alert is ${alert.status} and cannot be cancelled`);
+    }
+    console.log(`  [1] Payer signature verified (${alert.payer})`);
+
+    // Recorded only if no other signed request was accepted since the signature was checked
+    const cancelled = await alertStore.compareAndUpdate(
+      alert.id,
+      { lastSignedAt: alert.lastSignedAt },
+      {
+        status: "cancelled",
+        lastSignedAt: Number(req.header("x-alert-timestamp")),
+        delivery: { status: creDispatcher ? "pending" : "skipped", attempts: 0 },
+      }
+    );
+    if (!cancelled) {
+      return fail(409, CONCURRENT_CHANGE_ERROR);
+    }
+    console.log(`  [2] Alert cancelled: ${alert.id}`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+    forwardToCre(cancelled, "cancel").catch((error: any) => {
+      console.log(`  [ERROR] Alert ${alert.id}: failed to forward cancellation: ${error.message}`);
+    });
+    return res.json({ alert: toPublicAlert(cancelled) });
+  } catch (error: any) {
+    return fail(500, `Failed to cancel alert: ${error.message}`);
+  }
+});
+
+/**
+ * PATCH /alerts/:id
+ * Edit an alert (signed by its payer, no payment required)
+ *
+ * The condition, target, trigger mode and notification settings can change;
+ * asset, quoteAsset and chain cannot. Setting any target field replaces the
+ * whole target (e.g. a band needs both bounds), otherwise the current target
+ * is kept. The edited alert keeps its ID and creation time, and an update
+ * report re-arms the on-chain rule with the new settings.
+ *
+ * The edited alert is re-quoted over the lifetime it was paid for (see
+ * pricing.ts). Edits that cost more than the payment covered (e.g. a band,
+ * a repeating trigger mode or a pricier channel) are rejected with 402 and
+ * the new quote: such an alert has to be created and paid as a new alert.
+ *
+ * @route PATCH /alerts/:id
+ * @param {string} id - Alert ID (SHA256 hash)
+ * @header {string} X-Alert-Signature - EIP-191 signature of the payer over the update message,
+ *         which includes the request body (see alertAuth.ts)
+ * @header {number} X-Alert-Timestamp - UNIX timestamp in seconds included in the signed message
+ * @body {string} [condition] - New price condition
+ * @body {number|string} [targetPriceUsd] - New target price (or lower bound)
+ * @body {number|string} [upperPriceUsd] - New upper bound (between/outside)
+ * @body {number|string} [changePercent] - New percent threshold (change)
+ * @body {number} [windowSeconds] - New time window (change)
+ * @body {string} [direction] - New move direction (change)
+ * @body {string} [triggerMode] - New re-notification policy
+ * @body {number} [cooldownSeconds] - New cooldown (cooldown mode)
+ * @body {string} [channel] - New notification channel
+ * @body {string} [destination] - New notification destination (empty string for the channel's default)
+ * @returns {Object} Edited alert
+ */
+app.patch("/alerts/:id", async (req, res) => {
+  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+  console.log(`PATCH /alerts/${req.params.id}`);
+
+  const fail = (status: number, error: string) => {
+    console.log(`  [ERROR] ${error}`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+    return res.status(status).json({ error });
+  };
+
+  const changes = (req.body ?? {}) as Partial<AlertRequestBody>;
+  const unsupported = Object.keys(changes).filter(
+    (field) => !EDITABLE_FIELDS.includes(field as keyof AlertRequestBody)
+  );
+  if (unsupported.length > 0) {
+    return fail(400, `Fields cannot be changed: ${unsupported.join(", ")}. Editable: ${EDITABLE_FIELDS.join(", ")}`);
+  }
+  if (Object.keys(changes).length === 0) {
+    return fail(400, `No changes. Editable: ${EDITABLE_FIELDS.join(", ")}`);
+  }
 
-  res.status(201).json({ alert });
+  try {
+    const alert = await alertStore.get(req.params.id);
+    if (!alert) {
+      return fail(404, `Alert "${req.params.id}" not found`);
+    }
+    const authError = await authorizeAlertAction(req, alert, "update", changes);
+    if (authError) {
+      return fail(authError.status, authError.error);
+    }
+    if (!CHANGEABLE_STATUSES.includes(alert.status)) {
+      return fail(409, `Alert is ${alert.status} and cannot be changed`);
+    }
+    console.log(`  [1] Payer signature verified (${alert.payer})`);
+
+    // Apply the changes to the current alert and validate the result like a new alert
+    const retarget = TARGET_FIELDS.some((field) => field in changes);
+    const target = retarget ? changes : alert;
+    const edited: Partial<AlertRequestBody> = {
+      asset: alert.asset,
+      quoteAsset: alert.quoteAsset,
+      chain: alert.chain,
+      condition: changes.condition ?? alert.condition,
+      targetPriceUsd: target.targetPriceUsd,
+      upperPriceUsd: target.upperPriceUsd,
+      changePercent: target.changePercent,
+      windowSeconds: target.windowSeconds,
+      direction: target.direction,
+      triggerMode: changes.triggerMode ?? alert.triggerMode,
+      cooldownSeconds: changes.cooldownSeconds ?? alert.cooldownSeconds,
+      channel: changes.channel ?? alert.channel,
+      destination: "destination" in changes ? changes.destination || undefined : alert.destination,
+    };
+
+    if (!edited.condition || !ALLOWED_CONDITIONS.includes(edited.condition)) {
+      return fail(400, `Invalid condition "${edited.condition}". Must be one of: ${ALLOWED_CONDITIONS.join(", ")}`);
+    }
+    const validationError = validateQuoteAsset(edited) ?? validateTriggerMode(edited) ?? validateChannel(edited);
+    if (validationError) {
+      return fail(400, validationError);
+    }
+    let targetPriceUsd: string | undefined;
+    let upperPriceUsd: string | undefined;
+    let changeRule: ChangeRule | undefined;
+    try {
+      changeRule = resolveChangeRule(edited);
+      if (!changeRule) {
+        targetPriceUsd = toDecimalString(parseUsdPrice(edited.targetPriceUsd));
+        upperPriceUsd = resolveUpperPrice(edited, targetPriceUsd);
+      }
+    } catch (priceError: any) {
+      return fail(400, priceError.message);
+    }
+
+    // Alerts paid before paidAmount was recorded paid the quote of their settings
+    const expiresInSeconds = (alert.expiresAt ?? alert.createdAt + RULE_LIFETIME.defaultSeconds) - alert.createdAt;
+    const quote = alertPricing.quote({ ...edited, expiresInSeconds }, alert.createdAt);
+    const paidAmount = alert.paidAmount ?? alertPricing.quote({ ...alert, expiresInSeconds }, alert.createdAt).amount;
+    if (BigInt(quote.amount) > BigInt(paidAmount)) {
+      const error = `The edited alert costs ${formatTokenAmount(quote.amount, PAYMENT.token)}, more than the ${formatTokenAmount(paidAmount, PAYMENT.token)} paid for it. Create a new alert instead.`;
+      console.log(`  [ERROR] ${error}`);
+      console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+      return res.status(402).json({ error, quote });
+    }
 
-  // Call the HTTP Trigger of the CRE Workflow
-  // TODO(dev): Implement HTTP Trigger Call (for deployed workflows only)
-  //          See: https://docs.chain.link/cre/guides/workflow/using-triggers/http-trigger/overview-ts
-  // This demo assumes you will be using local simulation.
-  // Copy the workflowPayload JSON output and paste it into the HTTP Trigger during CRE CLI Simulation.
-  // See README for simulation steps.
-  
+    // Recorded only if no other signed request was accepted since the signature was checked
+    const result = await alertStore.compareAndUpdate(alert.id, { lastSignedAt: alert.lastSignedAt }, {
+      condition: edited.condition,
+      targetPriceUsd,
+      upperPriceUsd,
+      changePercent: changeRule?.changePercent,
+      windowSeconds: changeRule?.windowSeconds,
+      direction: changeRule?.direction,
+      // A new target is absolute, so it no longer derives from a relative target
+      ...(retarget && { relativeTarget: undefined, referencePriceUsd: undefined }),
+      triggerMode: edited.triggerMode,
+      cooldownSeconds: edited.triggerMode === "cooldown" ? edited.cooldownSeconds : 0,
+      channel: edited.channel,
+      destination: edited.destination,
+      lastSignedAt: Number(req.header("x-alert-timestamp")),
+      delivery: { status: creDispatcher ? "pending" : "skipped", attempts: 0 },
+    });
+    if (!result) {
+      return fail(409, CONCURRENT_CHANGE_ERROR);
+    }
+    console.log(`  [2] Alert updated: ${alert.id} (${result.asset} ${result.condition} ${describeTarget(result)})`);
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+    forwardToCre(result, "update").catch((error: any) => {
+      console.log(`  [ERROR] Alert ${alert.id}: failed to forward update: ${error.message}`);
+    });
+    return res.json({ alert: toPublicAlert(result) });
+  } catch (error: any) {
+    return fail(500, `Failed to edit alert: ${error.message}`);
+  }
 });
 
 // ============================================================================
 // Server Startup
 // ============================================================================
 
-app.listen(PORT, () => {
-  console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
-  console.log("Server ready");
-  console.log(`   http://localhost:${PORT}`);
-  console.log("   POST /chat   (natural language, no payment)");
-  console.log("   POST /alerts (requires x402 payment)");
-  console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+/**
+ * Loads the claimed Idempotency-Keys and payment nonces before accepting
+ * requests, so a retry sent right after a restart is not charged again
+ */
+async function startServer(): Promise<void> {
+  paidRequests.load(await alertStore.list());
 
-  // Enable interactive chat if --chat flag is passed or ENABLE_CHAT env var is set
-  const enableChat = process.argv.includes("--chat") || process.env.ENABLE_CHAT === "true";
-  if (enableChat) {
-    startChatInterface(PORT);
-  }
+  app.listen(PORT, () => {
+    console.log("\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━");
+    console.log("Server ready");
+    console.log(`   http://localhost:${PORT}`);
+    console.log("   POST /chat   (natural language, no payment)");
+    console.log("   POST /chat/confirm (pays for a proposed alert)");
+    console.log(`   POST /alerts (requires x402 payment in ${PAYMENT.token.symbol} on ${PAYMENT.network})`);
+    console.log("   GET  /alerts/quote (price of an alert)");
+    console.log("   GET  /alerts, GET /alerts/:id");
+    console.log("   DELETE /alerts/:id, PATCH /alerts/:id (signed by the payer)");
+    console.log("━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n");
+
+    // Enable interactive chat if --chat flag is passed or ENABLE_CHAT env var is set
+    const enableChat = process.argv.includes("--chat") || process.env.ENABLE_CHAT === "true";
+    if (enableChat) {
+      startChatInterface(PORT);
+    }
+  });
+}
+
+startServer().catch((error) => {
+  console.log(`[ERROR] Failed to load paid requests from the alert store: ${error.message}`);
+  process.exit(1);
 });
@@ -0,0 +1,167 @@
+/**
+ * Shared Type Definitions
+ *
+ * This module contains type definitions shared across the server modules.
+ * Centralizing types here ensures consistency and makes maintenance easier.
+ */
+
+import type { DeliveryRecord } from "./creDispatcher";
+
+/**
+ * Supported price alert conditions
+ *
+ * - gt: greater than (e.g., "alert when price > $50000")
+ * - lt: less than (e.g., "alert when price < $40000")
+ * - gte: greater than or equal (e.g., "alert when price >= $50000")
+ * - lte: less than or equal (e.g., "alert when price <= $40000")
+ * - between: inside a band, bounds included (e.g., "alert when BTC enters $58000-$60000")
+ * - outside: outside a band, bounds excluded (e.g., "alert when ETH leaves $3000-$3400")
+ * - change: moved by at least changePercent within windowSeconds (e.g., "alert if LINK moves 8% in 1 hour")
+ *
+ * Band conditions use targetPriceUsd as the lower bound and upperPriceUsd as the upper bound.
+ * Change rules have no target price: the workflow compares the price with its own history.
+ * Ratio alerts (quoteAsset set) compare the asset's price in units of the quote asset
+ * (e.g. ETH/BTC < 0.045) instead of its USD price.
+ */
+export type AlertCondition = "gt" | "lt" | "gte" | "lte" | "between" | "outside" | "change";
+
+/**
+ * Move direction of a change rule
+ *
+ * - up: the price rose by at least changePercent
+ * - down: the price fell by at least changePercent
+ * - any: the price moved by at least changePercent either way
+ */
+export type ChangeDirection = "up" | "down" | "any";
+
+/**
+ * Re-notification policy of an alert
+ *
+ * - once: notify the first time the condition is met, then never again
+ * - crossing: notify each time the condition becomes true (re-armed when it flips back)
+ * - cooldown: notify whenever the condition is met, at most once per cooldown period
+ */
+export type TriggerMode = "once" | "crossing" | "cooldown";
+
+/**
+ * Target price relative to the current price of the asset
+ *
+ * - percent: move in percent (e.g. "5" = 5% above, "-3.5" = 3.5% below)
+ * - delta: move in USD (e.g. "-2000" = $2,000 below)
+ */
+export interface RelativeTarget {
+  /** Kind of move */
+  type: "percent" | "delta";
+  /** Signed move as a canonical decimal string */
+  value: string;
+}
+
+/**
+ * Request body for creating a price alert via POST /alerts
+ *
+ * This is the direct API format. The /chat endpoint uses Gemini to
+ * extract these parameters from natural language.
+ */
+export interface AlertRequestBody {
+  /** Cryptocurrency asset symbol (must be in the asset catalog, e.g. BTC, ETH, LINK) */
+  asset: string;
+  /** Quote asset of a ratio alert (must be in the asset catalog, e.g. BTC for ETH/BTC); omit for USD prices */
+  quoteAsset?: string;
+  /** Price condition (gt, lt, gte, lte, between, outside, change) */
+  condition: AlertCondition;
+  /** Target price in USD (number or decimal string, up to 8 decimals), the lower bound for between/outside; omit when relativeTarget is set. For ratio alerts, the target ratio */
+  targetPriceUsd?: number | string;
+  /** Upper bound in USD for between/outside (number or decimal string, greater than targetPriceUsd) */
+  upperPriceUsd?: number | string;
+  /** Percent move that fires a change rule (number or decimal string, e.g. 8 for 8%) */
+  changePercent?: number | string;
+  /** Time window of a change rule in seconds */
+  windowSeconds?: number;
+  /** Move direction of a change rule (default: any) */
+  direction?: ChangeDirection;
+  /** Target relative to the current price (value as number or decimal string), instead of targetPriceUsd */
+  relativeTarget?: { type: RelativeTarget["type"]; value: number | string };
+  /** Reference price for relativeTarget (default: current price from the server's price source) */
+  referencePriceUsd?: number | string;
+  /** Re-notification policy (default: once) */
+  triggerMode?: TriggerMode;
+  /** Minimum seconds between notifications (required when triggerMode is cooldown) */
+  cooldownSeconds?: number;
+  /** Target chain selector name (must be in the workflow config; default: first configured chain) */
+  chain?: string;
+  /** Notification channel (must be enabled in the workflow config; default: first enabled channel) */
+  channel?: string;
+  /** Notification destination for the channel (webhook URL, chat ID, user key; default: the channel's default) */
+  destination?: string;
+  /** UNIX timestamp in seconds after which the alert is no longer checked (default: ruleTTL after creation) */
+  expiresAt?: number;
+  /** Lifetime in seconds from creation, instead of expiresAt (its quote does not change until the alert is paid) */
+  expiresInSeconds?: number;
+}
+
+/**
+ * Lifecycle status of an alert
+ *
+ * - pending_payment: payment verified, waiting for on-chain settlement
+ * - paid: payment settled, not yet forwarded to the CRE workflow
+ * - dispatched: forwarded to the CRE HTTP trigger (see delivery), its rule not yet found in the RuleRegistry
+ * - onchain: its rule is written to the RuleRegistry contract
+ * - triggered: its rule sent a notification (lastTriggeredAt in the RuleRegistry)
+ * - expired: the alert's expiresAt passed, or its payment never settled
+ * - cancelled: cancelled by its payer (DELETE /alerts/:id)
+ *
+ * onchain and triggered are read from the RuleRegistry (see ruleRegistry.ts);
+ * without RULE_REGISTRY_RPC_URLS, forwarded alerts stay dispatched.
+ */
+export type AlertStatus = "pending_payment" | "paid" | "dispatched" | "onchain" | "triggered" | "expired" | "cancelled";
+
+/**
+ * Stored alert with generated ID and metadata
+ *
+ * The alert ID is a deterministic SHA256 hash of the alert data, including
+ * the nonce of the payment that created it.
+ */
+export interface StoredAlert extends AlertRequestBody {
+  /** Target price in USD as a canonical decimal string (e.g. "14.37"), resolved for relative targets; absent for change rules */
+  targetPriceUsd?: string;
+  /** Upper bound in USD as a canonical decimal string (between/outside only) */
+  upperPriceUsd?: string;
+  /** Percent threshold of a change rule as a canonical decimal string */
+  changePercent?: string;
+  /** Original relative target, if the alert was requested relative to the current price */
+  relativeTarget?: RelativeTarget;
+  /** Reference price the relative target was resolved against (canonical decimal string) */
+  referencePriceUsd?: string;
+  /** Chain selector name of the RuleRegistry the alert is written to */
+  chain: string;
+  /** Notification channel the workflow delivers the alert to */
+  channel: string;
+  /** Deterministic SHA256 hash of alert data */
+  id: string;
+  /** Wallet address that paid for the alert (extracted from x402 payment) */
+  payer: string;
+  /** UNIX timestamp in seconds when the alert was created */
+  createdAt: number;
+  /** x402 price paid for the alert (e.g. "$0.025", see pricing.ts) */
+  priceUsd?: string;
+  /** Amount the payment authorized, in base units of the payment token (at least the quote) */
+  paidAmount?: string;
+  /** Current lifecycle status */
+  status: AlertStatus;
+  /** UNIX timestamp in seconds of the last status change */
+  updatedAt: number;
+  /** UNIX timestamp in seconds of the rule's last notification, read from the RuleRegistry */
+  lastTriggeredAt?: number;
+  /** UNIX timestamp the payer signed for the last accepted cancel or update (see alertAuth.ts) */
+  lastSignedAt?: number;
+  /** x402 payment settlement transaction hash (set once the payment settles) */
+  settlementTxHash?: string;
+  /** Nonce of the x402 payment authorization that created the alert (EIP-3009, single-use per payer) */
+  paymentNonce?: string;
+  /** Idempotency-Key header of the request that created the alert (see idempotency.ts) */
+  idempotencyKey?: string;
+  /** SHA256 of the canonical request body, to recognize retries of the request (see idempotency.ts) */
+  requestHash?: string;
+  /** Delivery status of the CRE workflow payload to the HTTP trigger */
+  delivery: DeliveryRecord;
+}
@@ -1,7 +1,10 @@
+import { randomUUID } from "node:crypto";
 import { wrapFetchWithPayment } from "x402-fetch";
 import { privateKeyToAccount } from "viem/accounts";
 import { Hex } from "viem";
 import { settleResponseFromHeader } from "x402/types";
+import { buildAlertActionMessage, type AlertAction } from "./alertAuth";
+import { loadPaymentConfig } from "./paymentConfig";
 
 /**
  * x402 Payment Client for Alerts API
@@ -14,6 +17,7 @@ import { settleResponseFromHeader } from "x402/types";
  * - Automatic payment challenge handling (402 → retry with payment)
  * - Payment settlement tracking
  * - Step-by-step logging of the payment handshake
+ * - Cancelling and editing alerts paid by the agent wallet (signed, no payment)
  * 
  * Architecture:
  * 1. Uses x402-fetch to wrap native fetch with payment handling
@@ -39,7 +43,8 @@ import { settleResponseFromHeader } from "x402/types";
  * Private key for the agent wallet (used for x402 payments)
  * 
  * This wallet is used to sign payment authorizations for the x402 protocol.
- * The wallet must have USDC on Base Sepolia testnet to make payments.
+ * The wallet must hold the payment token on the payment network of the active
+ * payment config (USDC on Base Sepolia testnet for staging).
  * 
  * Security Note: In production, this should be stored securely (e.g., in a
  * hardware wallet or secure key management service), not in environment variables.
@@ -63,6 +68,22 @@ const account = privateKeyToAccount(PRIVATE_KEY);
 // x402 Payment-Enabled Fetch
 // ============================================================================
 
+/**
+ * Payment settings of the active environment (see paymentConfig.ts)
+ */
+const PAYMENT = loadPaymentConfig();
+
+/**
+ * Highest payment the agent wallet accepts per alert, in base units of the payment token
+ *
+ * Alerts are priced per request (see pricing.ts), so longer-lived or repeating
+ * alerts can cost more than the base price; challenges above this limit are
+ * refused instead of paid.
+ *
+ * @requires AGENT_MAX_PAYMENT_USDC - Maximum price in USD (default: 1)
+ */
+const MAX_PAYMENT = BigInt(Math.round(Number(process.env.AGENT_MAX_PAYMENT_USDC ?? 1) * 10 ** PAYMENT.token.decimals));
+
 /**
  * x402 payment-enabled fetch function
  * 
@@ -74,7 +95,7 @@ const account = privateKeyToAccount(PRIVATE_KEY);
  * 
  * The x402 facilitator handles gas fees for payment settlement transactions.
  */
-const fetchWithPayment = wrapFetchWithPayment(fetch, account);
+const fetchWithPayment = wrapFetchWithPayment(fetch, account, MAX_PAYMENT);
 
 // ============================================================================
 // Configuration
@@ -84,7 +105,7 @@ const fetchWithPayment = wrapFetchWithPayment(fetch, account);
  * Alerts API endpoint URL
  * 
  * Points to the unified server's /alerts endpoint.
- * This endpoint requires x402 payment ($0.01 USDC) to create an alert.
+ * This endpoint requires x402 payment (quoted per alert, see GET /alerts/quote) to create an alert.
  * 
  * Uses the PORT environment variable (defaults to 3000) to construct the URL.
  * This allows the server to run on any port while the client automatically
@@ -103,10 +124,38 @@ const ALERTS_API_URL = `http://localhost:${PORT}/alerts`;
 export interface PriceAlertPayload {
   /** Cryptocurrency asset symbol (BTC, ETH, or LINK) */
   asset: string;
-  /** Price condition: gt (greater than), lt (less than), gte (>=), lte (<=) */
-  condition: "gt" | "lt" | "gte" | "lte";
-  /** Target price in USD */
-  targetPriceUsd: number;
+  /** Quote asset of a ratio alert (e.g. BTC for ETH/BTC); targets are then ratios */
+  quoteAsset?: string;
+  /** Price condition: gt (greater than), lt (less than), gte (>=), lte (<=), between or outside (a band), change (a move) */
+  condition: "gt" | "lt" | "gte" | "lte" | "between" | "outside" | "change";
+  /** Target price in USD (number or decimal string, up to 8 decimals), the lower bound for between/outside; omit when relativeTarget is set */
+  targetPriceUsd?: number | string;
+  /** Upper bound in USD for between/outside (number or decimal string, up to 8 decimals) */
+  upperPriceUsd?: number | string;
+  /** Percent move that fires a change rule (e.g. 8 for 8%) */
+  changePercent?: number | string;
+  /** Time window of a change rule in seconds */
+  windowSeconds?: number;
+  /** Move direction of a change rule: up, down, or any (default) */
+  direction?: "up" | "down" | "any";
+  /** Target relative to the current price: percent or USD delta (signed) */
+  relativeTarget?: { type: "percent" | "delta"; value: number | string };
+  /** Reference price for relativeTarget (default: current price from the server's price source) */
+  referencePriceUsd?: number | string;
+  /** Re-notification policy: once (default), crossing, or cooldown */
+  triggerMode?: "once" | "crossing" | "cooldown";
+  /** Minimum seconds between notifications (required for cooldown) */
+  cooldownSeconds?: number;
+  /** Target chain selector name (default: first chain in the workflow config) */
+  chain?: string;
+  /** Notification channel: webhook, slack, discord, telegram, pushover (default: first enabled) */
+  channel?: string;
+  /** Notification destination for the channel (webhook URL, Telegram chat ID, Pushover user key) */
+  destination?: string;
+  /** UNIX timestamp in seconds after which the alert is no longer checked (default: the workflow's ruleTTL) */
+  expiresAt?: number;
+  /** Lifetime in seconds from creation, instead of expiresAt */
+  expiresInSeconds?: number;
   /** Optional payer address (usually extracted from x402 payment header) */
   payer?: string;
 }
@@ -119,15 +168,39 @@ export interface PriceAlertResponse {
   alert: {
     id: string;                    // SHA256 hash of alert data (deterministic)
     payer: string;                  // Wallet address that paid for the alert
+    paymentNonce?: string;          // Nonce of the payment authorization that created the alert
     asset: string;                  // Cryptocurrency asset
+    quoteAsset?: string;            // Quote asset (ratio alerts only)
     condition: string;              // Price condition
-    targetPriceUsd: number;        // Target price in USD
+    targetPriceUsd?: string;        // Target price in USD (decimal string, e.g. "14.37"), lower bound for bands
+    upperPriceUsd?: string;         // Upper bound in USD (between/outside only)
+    changePercent?: string;         // Percent threshold (change rules only)
+    windowSeconds?: number;         // Time window in seconds (change rules only)
+    direction?: string;             // Move direction (change rules only)
+    relativeTarget?: { type: string; value: string }; // Relative target the price was resolved from
+    referencePriceUsd?: string;     // Reference price of the relative target
+    triggerMode: string;            // Re-notification policy
+    cooldownSeconds: number;        // Seconds between notifications (cooldown mode)
+    chain: string;                  // Chain selector name of the target RuleRegistry
+    channel: string;                // Notification channel
+    destination?: string;           // Notification destination (if set)
     createdAt: number;              // UNIX timestamp (seconds)
+    expiresAt: number;              // UNIX timestamp (seconds) after which the rule is no longer checked
+    priceUsd?: string;              // x402 price paid for the alert
+    paidAmount?: string;            // Amount the payment authorized (token base units)
+    delivery: {                     // CRE HTTP trigger delivery record
+      status: "pending" | "delivered" | "failed" | "skipped";
+      attempts: number;
+      lastError?: string;
+      deliveredAt?: number;
+    };
   };
   /** Raw payment metadata from x-payment-response header */
   paymentMeta: string | null;
   /** On-chain transaction hash for payment settlement */
   transactionHash: string | undefined;
+  /** true if the server returned the alert of an earlier request with the same Idempotency-Key (nothing was paid) */
+  replayed: boolean;
 }
 
 // ============================================================================
@@ -148,7 +221,11 @@ export interface PriceAlertResponse {
  * - x402-fetch automatically processes challenge and retries with payment
  * - Server validates payment and responds with 200 OK + settlement
  * 
+ * The request carries an Idempotency-Key, so calling again with the same key
+ * and payload returns the original alert instead of paying twice.
+ * 
  * @param payload - The price alert parameters (asset, condition, targetPriceUsd)
+ * @param idempotencyKey - Idempotency-Key of the request (default: a new UUID)
  * @returns Promise resolving to the alert data and payment transaction hash
  * @throws Error if the API request fails or payment cannot be processed
  * 
@@ -163,7 +240,10 @@ export interface PriceAlertResponse {
  * console.log("Transaction:", result.transactionHash);
  * ```
  */
-export async function createPaidPriceAlert(payload: PriceAlertPayload): Promise<PriceAlertResponse> {
+export async function createPaidPriceAlert(
+  payload: PriceAlertPayload,
+  idempotencyKey: string = randomUUID()
+): Promise<PriceAlertResponse> {
   /**
    * x402 Payment Handshake
    * 
@@ -190,9 +270,10 @@ export async function createPaidPriceAlert(payload: PriceAlertPayload): Promise<
    */
   const res = await fetchWithPayment(ALERTS_API_URL, {
     method: "POST",
-    headers: { "Content-Type": "application/json" },
+    headers: { "Content-Type": "application/json", "Idempotency-Key": idempotencyKey },
     body: JSON.stringify(payload)
   });
+  const replayed = res.headers.get("idempotent-replayed") === "true";
 
   /**
    * Extract payment settlement details
@@ -217,9 +298,11 @@ export async function createPaidPriceAlert(payload: PriceAlertPayload): Promise<
    * If the request was successful (status 200), the payment has been settled.
    * We log the handshake steps and transaction hash for transparency.
    */
-  if (res.status === 200) {
+  if (replayed) {
+    console.log("    Step 2: Server returned the alert of an earlier request with this Idempotency-Key (no payment)");
+  } else if (res.status === 200) {
     console.log("    Step 2: Client processed 402 challenge, created payment authorization");
-    console.log("    Step 3: Client → Server: Retry with payment ($0.01 USDC)");
+    console.log(`    Step 3: Client → Server: Retry with payment (${PAYMENT.token.symbol} on ${PAYMENT.network})`);
     if (settlement?.transaction) {
       console.log(`    Step 4: Payment settled on-chain: ${settlement.transaction}`);
     }
@@ -252,7 +335,73 @@ export async function createPaidPriceAlert(payload: PriceAlertPayload): Promise<
   return {
     alert: data.alert,
     paymentMeta: paymentResponseHeader,
-    transactionHash: settlement?.transaction
+    transactionHash: settlement?.transaction,
+    replayed
   };
 }
 
+
+/**
+ * Cancels an alert paid by the agent wallet
+ *
+ * The request is signed with the agent wallet key, the payer of alerts created
+ * through /chat/confirm (see alertAuth.ts). No payment is made.
+ *
+ * @param alertId - Alert ID
+ * @returns The cancelled alert
+ * @throws Error if the API rejects the cancellation
+ */
+export async function cancelPriceAlert(alertId: string): Promise<PriceAlertResponse["alert"]> {
+  return sendSignedAlertAction("cancel", alertId);
+}
+
+/**
+ * Edits an alert paid by the agent wallet
+ *
+ * @param alertId - Alert ID
+ * @param changes - Fields to change (condition, target, trigger mode, channel, destination)
+ * @returns The edited alert
+ * @throws Error if the API rejects the changes
+ */
+export async function updatePriceAlert(
+  alertId: string,
+  changes: Partial<Omit<PriceAlertPayload, "asset" | "quoteAsset" | "chain" | "relativeTarget" | "referencePriceUsd" | "payer">>
+): Promise<PriceAlertResponse["alert"]> {
+  return sendSignedAlertAction("update", alertId, changes);
+}
+
+/**
+ * Sends a DELETE or PATCH /alerts/:id request signed by the agent wallet
+ */
+async function sendSignedAlertAction(
+  action: AlertAction,
+  alertId: string,
+  changes?: object
+): Promise<PriceAlertResponse["alert"]> {
+  const timestamp = Math.floor(Date.now() / 1000);
+  const signature = await account.signMessage({
+    message: buildAlertActionMessage(action, alertId, timestamp, changes),
+  });
+
+  const res = await fetch(`${ALERTS_API_URL}/${alertId}`, {
+    method: action === "cancel" ? "DELETE" : "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+      "X-Alert-Signature": signature,
+      "X-Alert-Timestamp": String(timestamp),
+    },
+    body: changes ? JSON.stringify(changes) : undefined,
+  });
+
+  if (!res.ok) {
+    const errorBody = await res.text().catch(() => "");
+    const errorMessage = errorBody ? `: ${errorBody}` : "";
+    throw new Error(`Alerts API error (${res.status} ${res.statusText})${errorMessage}`);
+  }
+
+  const data = await res.json();
+  if (!data.alert) {
+    throw new Error("Invalid response from alerts API: missing alert data");
+  }
+  return data.alert;
+}